@@ -5,8 +5,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as TOML from '@iarna/toml';
-import { configSchema } from './schema.js';
-import type { ParsedConfig, SourceConfig } from './types.js';
+import { authTokenSchema, configSchema, promptTemplateSchema } from './schema.js';
+import type { AuthToken, ParsedConfig, PromptTemplate, SourceConfig } from './types.js';
 import { ENV_VAR_PATTERN } from '../constants.js';
 import { logger } from '../utils/logger.js';
 
@@ -76,6 +76,53 @@ function validateKeytab(keytabPath: string): void {
   }
 }
 
+/**
+ * Parses a TOML file, wrapping syntax errors with the file name
+ */
+function parseTomlFile(filePath: string): unknown {
+  try {
+    return TOML.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse TOML in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Loads prompt templates from a directory of TOML files. A template's name
+ * defaults to its file name.
+ */
+function loadPromptTemplates(directory: string): PromptTemplate[] {
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    throw new Error(`Prompts directory not found: ${directory}`);
+  }
+
+  const templates: PromptTemplate[] = [];
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    if (path.extname(file) !== '.toml') continue;
+
+    const filePath = path.join(directory, file);
+    const parsed = substituteEnvVarsInObject(parseTomlFile(filePath)) as Record<string, unknown>;
+    const result = promptTemplateSchema.safeParse({
+      name: path.basename(file, '.toml'),
+      ...parsed,
+    });
+
+    if (!result.success) {
+      const errors = result.error.errors
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join('\n');
+      throw new Error(`Prompt template validation failed in ${filePath}:\n${errors}`);
+    }
+
+    templates.push(result.data);
+  }
+
+  return templates;
+}
+
 /**
  * Loads and parses a TOML configuration file
  */
@@ -134,9 +181,73 @@ export function loadConfig(configPath: string): ParsedConfig {
     sourcesMap.set(source.id, source as SourceConfig);
   }
 
+  // Policies may only grant configured sources
+  for (const policy of config.policies ?? []) {
+    for (const sourceId of policy.sources) {
+      if (sourceId !== '*' && !sourcesMap.has(sourceId)) {
+        throw new Error(`Policy references unknown source: ${sourceId}`);
+      }
+    }
+  }
+
+  // Collect prompt templates; the directory is relative to the config file
+  const prompts: PromptTemplate[] = [...(config.prompts?.templates ?? [])];
+  if (config.prompts?.directory) {
+    const directory = path.resolve(path.dirname(resolvedPath), config.prompts.directory);
+    prompts.push(...loadPromptTemplates(directory));
+  }
+
+  const promptNames = new Set<string>();
+  for (const prompt of prompts) {
+    if (promptNames.has(prompt.name)) {
+      throw new Error(`Duplicate prompt name: ${prompt.name}`);
+    }
+    promptNames.add(prompt.name);
+  }
+
+  // Like the prompts directory, the cache file is relative to the config file
+  const settings = { ...config.settings };
+  if (settings.schema_cache_path) {
+    settings.schema_cache_path = path.resolve(path.dirname(resolvedPath), settings.schema_cache_path);
+  }
+
+  // Audit log files are relative to the config file as well
+  let audit = config.audit;
+  if (audit) {
+    audit = {
+      ...audit,
+      path: audit.path && path.resolve(path.dirname(resolvedPath), audit.path),
+      sqlite_path: audit.sqlite_path && path.resolve(path.dirname(resolvedPath), audit.sqlite_path),
+    };
+  }
+
+  // So is the export directory
+  let exportConfig = config.export;
+  if (exportConfig) {
+    exportConfig = {
+      ...exportConfig,
+      directory: path.resolve(path.dirname(resolvedPath), exportConfig.directory),
+    };
+  }
+
+  // So is the JWKS file
+  let auth = config.auth;
+  if (auth?.jwt) {
+    auth = {
+      ...auth,
+      jwt: { ...auth.jwt, jwks_path: path.resolve(path.dirname(resolvedPath), auth.jwt.jwks_path) },
+    };
+  }
+
   return {
-    settings: config.settings,
+    settings,
     sources: sourcesMap,
+    prompts,
+    audit,
+    export: exportConfig,
+    tracing: config.tracing,
+    auth,
+    policies: config.policies,
   };
 }
 
@@ -145,7 +256,7 @@ export function loadConfig(configPath: string): ParsedConfig {
  */
 export function createConfigFromDsn(dsn: string): ParsedConfig {
   // Parse DSN to determine database type
-  let type: 'postgres' | 'mysql' | 'mariadb' | 'sqlserver';
+  let type: 'postgres' | 'mysql' | 'mariadb' | 'sqlserver' | 'sqlite';
 
   if (dsn.startsWith('postgres://') || dsn.startsWith('postgresql://')) {
     type = 'postgres';
@@ -155,9 +266,11 @@ export function createConfigFromDsn(dsn: string): ParsedConfig {
     type = 'mariadb';
   } else if (dsn.startsWith('mssql://') || dsn.startsWith('sqlserver://')) {
     type = 'sqlserver';
+  } else if (dsn.startsWith('sqlite://')) {
+    type = 'sqlite';
   } else {
     throw new Error(
-      `Unsupported DSN format. Expected postgres://, mysql://, mariadb://, or mssql://`
+      `Unsupported DSN format. Expected postgres://, mysql://, mariadb://, mssql://, or sqlite://`
     );
   }
 
@@ -175,3 +288,28 @@ export function createConfigFromDsn(dsn: string): ParsedConfig {
     sources: new Map([['default', source]]),
   };
 }
+
+/**
+ * Parses static bearer tokens from an environment variable value
+ * Format: principal:token[,principal:token...]
+ */
+export function parseAuthTokens(value: string): AuthToken[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const result = authTokenSchema.safeParse({
+        principal: separator === -1 ? '' : entry.slice(0, separator),
+        token: separator === -1 ? entry : entry.slice(separator + 1),
+      });
+
+      if (!result.success) {
+        const errors = result.error.errors.map((e) => e.message).join(', ');
+        throw new Error(`Invalid AUTH_TOKENS entry: ${errors}`);
+      }
+
+      return result.data;
+    });
+}
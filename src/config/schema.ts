@@ -4,17 +4,68 @@
 
 import { z } from 'zod';
 
+// Column masking rule schema
+const maskingRuleSchema = z
+  .object({
+    column: z
+      .string()
+      .regex(/^[^.]+(\.[^.]+){0,2}$/, 'Masking column must be column, table.column or schema.table.column')
+      .optional(),
+    pattern: z
+      .string()
+      .min(1)
+      .refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'Masking pattern is not a valid regular expression' }
+      )
+      .optional(),
+    strategy: z.enum(['redact', 'hash', 'partial', 'null']),
+    salt: z.string().optional(),
+  })
+  .strict()
+  .refine((data) => (data.column === undefined) !== (data.pattern === undefined), {
+    message: 'Masking rule requires exactly one of column or pattern',
+  });
+
+// Connection pool schema
+const poolSchema = z
+  .object({
+    min: z.number().int().nonnegative().optional(),
+    max: z.number().int().positive().optional(),
+    idle_timeout: z.number().int().positive().optional(),
+    acquire_timeout: z.number().int().positive().optional(),
+    max_lifetime: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine((data) => data.min === undefined || data.max === undefined || data.min <= data.max, {
+    message: 'Pool min cannot exceed max',
+  });
+
 // Base source schema fields
 const baseSourceFields = {
   id: z.string().min(1, 'Source ID is required'),
   readonly: z.boolean().optional(),
+  max_rows_limit: z.number().int().positive().optional(),
+  query_timeout_limit: z.number().int().positive().optional(),
+  schema_cache_ttl: z.number().int().nonnegative().optional(),
+  masking: z.array(maskingRuleSchema).optional(),
+  pool: poolSchema.optional(),
+  export_max_rows: z.number().int().positive().optional(),
+  export_max_bytes: z.number().int().positive().optional(),
 };
 
 // DSN-based source (PostgreSQL, MySQL, etc.)
 const dsnSourceSchema = z
   .object({
     ...baseSourceFields,
-    type: z.enum(['postgres', 'mysql', 'mariadb', 'sqlserver']),
+    type: z.enum(['postgres', 'mysql', 'mariadb', 'sqlserver', 'sqlite']),
     dsn: z.string().min(1, 'DSN is required'),
   })
   .strict();
@@ -33,6 +84,15 @@ const hostBasedSourceSchema = z
   })
   .strict();
 
+// File-based source (SQLite)
+const sqliteSourceSchema = z
+  .object({
+    ...baseSourceFields,
+    type: z.literal('sqlite'),
+    path: z.string().min(1, 'Database path is required'),
+  })
+  .strict();
+
 // Kerberos-enabled source (Hive/Impala)
 const kerberosSourceSchema = z
   .object({
@@ -45,6 +105,13 @@ const kerberosSourceSchema = z
     principal: z.string().optional(),
     keytab: z.string().optional(),
     user_principal: z.string().optional(),
+    relationship_heuristics: z
+      .object({
+        foreign_key_patterns: z.array(z.string().min(1)).optional(),
+        key_columns: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .refine(
@@ -63,6 +130,7 @@ const kerberosSourceSchema = z
 export const sourceSchema = z.union([
   dsnSourceSchema,
   hostBasedSourceSchema,
+  sqliteSourceSchema,
   kerberosSourceSchema,
 ]);
 
@@ -73,6 +141,136 @@ export const settingsSchema = z
     max_rows: z.number().int().positive().default(1000),
     query_timeout: z.number().int().positive().optional(),
     connection_timeout: z.number().int().positive().optional(),
+    max_rows_limit: z.number().int().positive().optional(),
+    query_timeout_limit: z.number().int().positive().optional(),
+    cursor_idle_ttl: z.number().int().positive().optional(),
+    max_cursors_per_session: z.number().int().positive().optional(),
+    schema_cache_ttl: z.number().int().nonnegative().optional(),
+    schema_cache_max_entries: z.number().int().positive().optional(),
+    schema_cache_path: z.string().min(1).optional(),
+    health_check_interval: z.number().int().nonnegative().optional(),
+    reconnect_max_delay: z.number().int().positive().optional(),
+  })
+  .strict();
+
+// Prompt template schema (inline [[prompts.templates]] or one file in the prompts directory)
+export const promptTemplateSchema = z
+  .object({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Prompt name may only contain letters, digits, _ and -'),
+    description: z.string().optional(),
+    arguments: z
+      .array(
+        z
+          .object({
+            name: z
+              .string()
+              .regex(/^\w+$/, 'Argument name may only contain letters, digits and _')
+              .refine((name) => name !== 'schema_context', 'schema_context is reserved'),
+            description: z.string().optional(),
+            required: z.boolean().optional(),
+          })
+          .strict()
+      )
+      .optional(),
+    template: z.string().min(1, 'Prompt template is required'),
+  })
+  .strict();
+
+// Prompts schema
+export const promptsSchema = z
+  .object({
+    directory: z.string().min(1).optional(),
+    templates: z.array(promptTemplateSchema).optional(),
+  })
+  .strict();
+
+// Audit log schema
+export const auditSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    path: z.string().min(1).optional(),
+    max_file_size: z.number().int().positive().optional(),
+    max_files: z.number().int().positive().optional(),
+    sqlite_path: z.string().min(1).optional(),
+    redact_literals: z.boolean().default(false),
+  })
+  .strict()
+  .refine((data) => !data.enabled || data.path || data.sqlite_path, {
+    message: 'Audit logging requires path or sqlite_path',
+  });
+
+// Result export schema
+export const exportSchema = z
+  .object({
+    directory: z.string().min(1, 'Export directory is required'),
+    max_rows: z.number().int().positive().optional(),
+    max_bytes: z.number().int().positive().optional(),
+    file_ttl: z.number().int().positive().optional(),
+    resources: z.boolean().default(false),
+  })
+  .strict();
+
+// Tracing schema
+export const tracingSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    exporter: z.enum(['otlp', 'memory']).default('otlp'),
+    endpoint: z.string().url().optional(),
+    service_name: z.string().min(1).optional(),
+  })
+  .strict();
+
+// Static bearer token schema
+export const authTokenSchema = z
+  .object({
+    principal: z.string().min(1, 'Token principal is required'),
+    token: z
+      .string()
+      .min(16, 'Tokens must be at least 16 characters')
+      // An unset ${VAR} is left in place, which would make the placeholder a valid token
+      .refine((token) => !token.includes('${'), {
+        message: 'Token references an environment variable that is not set',
+      }),
+  })
+  .strict();
+
+// JWT validation schema
+export const jwtAuthSchema = z
+  .object({
+    jwks_path: z.string().min(1, 'JWKS path is required'),
+    issuer: z.string().min(1).optional(),
+    audience: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+    algorithms: z.array(z.string().min(1)).optional(),
+    principal_claim: z.string().min(1).default('sub'),
+    clock_tolerance: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+// HTTP authentication schema
+export const authSchema = z
+  .object({
+    tokens: z.array(authTokenSchema).optional(),
+    jwt: jwtAuthSchema.optional(),
+  })
+  .strict()
+  .refine((data) => (data.tokens?.length ?? 0) > 0 || data.jwt, {
+    message: 'Authentication requires tokens or jwt',
+  })
+  .refine(
+    (data) => new Set(data.tokens?.map((entry) => entry.token)).size === (data.tokens?.length ?? 0),
+    { message: 'Each token may only be assigned to one principal' }
+  );
+
+// Access policy schema
+export const policySchema = z
+  .object({
+    principals: z.array(z.string().min(1)).min(1, 'Policy needs at least one principal'),
+    sources: z.array(z.string().min(1)).min(1, 'Policy needs at least one source'),
+    readonly: z.boolean().default(false),
+    allow_schemas: z.array(z.string().min(1)).optional(),
+    deny_schemas: z.array(z.string().min(1)).optional(),
+    allow_tables: z.array(z.string().min(1)).optional(),
+    deny_tables: z.array(z.string().min(1)).optional(),
   })
   .strict();
 
@@ -84,10 +282,17 @@ export const configSchema = z
       max_rows: 1000,
     }),
     sources: z.array(sourceSchema).min(1, 'At least one source is required'),
+    prompts: promptsSchema.optional(),
+    audit: auditSchema.optional(),
+    export: exportSchema.optional(),
+    tracing: tracingSchema.optional(),
+    auth: authSchema.optional(),
+    policies: z.array(policySchema).optional(),
   })
   .strict();
 
 // Type exports from schemas
 export type SourceSchemaType = z.infer<typeof sourceSchema>;
 export type SettingsSchemaType = z.infer<typeof settingsSchema>;
+export type PromptTemplateSchemaType = z.infer<typeof promptTemplateSchema>;
 export type ConfigSchemaType = z.infer<typeof configSchema>;
@@ -7,15 +7,51 @@ export type DatabaseType =
   | 'mysql'
   | 'mariadb'
   | 'sqlserver'
+  | 'sqlite'
   | 'hive'
   | 'impala';
 
 export type AuthMechanism = 'NONE' | 'PLAIN' | 'KERBEROS';
 
+export interface PoolConfig {
+  // Connections (sessions on Hive/Impala) kept open while idle
+  min?: number;
+  max?: number;
+  // Milliseconds before an idle connection above min is closed
+  idle_timeout?: number;
+  // Milliseconds to wait for a free connection before failing
+  acquire_timeout?: number;
+  // Milliseconds after which a connection is retired once idle
+  max_lifetime?: number;
+}
+
+export type MaskingStrategy = 'redact' | 'hash' | 'partial' | 'null';
+
+export interface MaskingRule {
+  // Glob over schema.table.column; table.column and column match in any schema
+  column?: string;
+  // Case-insensitive regular expression over the column name
+  pattern?: string;
+  strategy: MaskingStrategy;
+  // Prepended to values before hashing, so hashes can't be reversed by lookup
+  salt?: string;
+}
+
 export interface BaseSourceConfig {
   id: string;
   type: DatabaseType;
   readonly?: boolean;
+  max_rows_limit?: number;
+  query_timeout_limit?: number;
+  // Overrides settings.schema_cache_ttl for this source
+  schema_cache_ttl?: number;
+  // Applied to query results in order; the first matching rule wins
+  masking?: MaskingRule[];
+  // Connection pool sizing and timeouts; ignored by SQLite
+  pool?: PoolConfig;
+  // Override [export] max_rows and max_bytes for this source
+  export_max_rows?: number;
+  export_max_bytes?: number;
 }
 
 export interface DsnSourceConfig extends BaseSourceConfig {
@@ -31,6 +67,18 @@ export interface HostBasedSourceConfig extends BaseSourceConfig {
   ssl?: boolean;
 }
 
+export interface SqliteSourceConfig extends BaseSourceConfig {
+  type: 'sqlite';
+  path: string;
+}
+
+export interface RelationshipHeuristics {
+  // Column names that reference another table; {table} is that table's name
+  foreign_key_patterns?: string[];
+  // Candidate referenced columns in the other table, in order of preference
+  key_columns?: string[];
+}
+
 export interface KerberosSourceConfig extends BaseSourceConfig {
   type: 'hive' | 'impala';
   host: string;
@@ -40,11 +88,13 @@ export interface KerberosSourceConfig extends BaseSourceConfig {
   principal?: string;
   keytab?: string;
   user_principal?: string;
+  relationship_heuristics?: RelationshipHeuristics;
 }
 
 export type SourceConfig =
   | DsnSourceConfig
   | HostBasedSourceConfig
+  | SqliteSourceConfig
   | KerberosSourceConfig;
 
 export interface Settings {
@@ -52,14 +102,137 @@ export interface Settings {
   max_rows: number;
   query_timeout?: number;
   connection_timeout?: number;
+  max_rows_limit?: number;
+  query_timeout_limit?: number;
+  cursor_idle_ttl?: number;
+  max_cursors_per_session?: number;
+  // Schema search cache; a TTL of 0 disables it
+  schema_cache_ttl?: number;
+  schema_cache_max_entries?: number;
+  // File the schema cache is persisted to across restarts
+  schema_cache_path?: string;
+  // How often connected sources are probed; 0 disables probes
+  health_check_interval?: number;
+  // Longest wait between reconnect attempts to a degraded source
+  reconnect_max_delay?: number;
+}
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  // Text with {{argument}} placeholders; {{schema_context}} is filled from the source
+  template: string;
+}
+
+export interface PromptsConfig {
+  // Directory of *.toml files, each holding one template
+  directory?: string;
+  templates?: PromptTemplate[];
+}
+
+export interface AuditConfig {
+  enabled: boolean;
+  // Append-only JSONL file, rotated by size
+  path?: string;
+  max_file_size?: number;
+  max_files?: number;
+  // Optional SQLite database receiving the same records
+  sqlite_path?: string;
+  // Replace string and numeric literals in logged SQL with ?
+  redact_literals: boolean;
+}
+
+export interface ExportConfig {
+  // Directory export_query writes files to
+  directory: string;
+  // Most rows and bytes written per export
+  max_rows?: number;
+  max_bytes?: number;
+  // Age in milliseconds at which exported files are deleted
+  file_ttl?: number;
+  // Expose exported files to their exporter as MCP resources
+  resources: boolean;
+}
+
+export type TracingExporter = 'otlp' | 'memory';
+
+export interface TracingConfig {
+  enabled: boolean;
+  // otlp sends spans to a collector; memory keeps them in process for tests
+  exporter: TracingExporter;
+  // OTLP/HTTP traces endpoint of the collector
+  endpoint?: string;
+  // service.name resource attribute
+  service_name?: string;
+}
+
+export interface AuthToken {
+  // Name the token's holder is identified by in logs and policies
+  principal: string;
+  token: string;
+}
+
+export interface JwtAuthConfig {
+  // Local JSON Web Key Set file the signatures are checked against
+  jwks_path: string;
+  issuer?: string;
+  audience?: string | string[];
+  algorithms?: string[];
+  // Claim holding the principal name
+  principal_claim: string;
+  // Allowed clock skew when checking exp and nbf, in seconds
+  clock_tolerance?: number;
+}
+
+export interface AuthConfig {
+  // Static bearer tokens
+  tokens?: AuthToken[];
+  jwt?: JwtAuthConfig;
+}
+
+export interface PolicyConfig {
+  // Principals the policy applies to; "*" matches everyone, "anonymous" unauthenticated callers
+  principals: string[];
+  // Source IDs the policy grants; "*" matches every source
+  sources: string[];
+  readonly: boolean;
+  // Glob patterns (* and ?); tables are "table" or "schema.table"
+  allow_schemas?: string[];
+  deny_schemas?: string[];
+  allow_tables?: string[];
+  deny_tables?: string[];
 }
 
 export interface OpenDBConfig {
   settings: Settings;
   sources: SourceConfig[];
+  prompts?: PromptsConfig;
+  audit?: AuditConfig;
+  export?: ExportConfig;
+  tracing?: TracingConfig;
+  auth?: AuthConfig;
+  policies?: PolicyConfig[];
 }
 
 export interface ParsedConfig {
   settings: Settings;
   sources: Map<string, SourceConfig>;
+  // Custom templates from [prompts], inline and from the directory
+  prompts?: PromptTemplate[];
+  audit?: AuditConfig;
+  // Files written by export_query; the tool is only registered when set
+  export?: ExportConfig;
+  // OpenTelemetry tracing of tool calls and queries
+  tracing?: TracingConfig;
+  // Authentication for the HTTP transport
+  auth?: AuthConfig;
+  // Per-principal access; when empty, every caller may use every source
+  policies?: PolicyConfig[];
 }
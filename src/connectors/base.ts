@@ -2,21 +2,84 @@
  * Abstract base connector class
  */
 
+import type { Attributes } from '@opentelemetry/api';
 import type { SourceConfig } from '../config/types.js';
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  QueryPlan,
+  TableDescription,
+  Relationship,
+  ScriptResult,
+  ScriptStatementResult,
+} from '../utils/formatters.js';
 import type {
   IConnector,
   ConnectorOptions,
+  DriverCursor,
+  DriverSession,
   ExecuteOptions,
+  ExplainOptions,
+  PoolOptions,
+  PoolStats,
+  QueryCursor,
   SchemaSearchOptions,
+  ScriptOptions,
 } from './types.js';
-import { QueryError } from '../utils/error-handler.js';
+import { PagedCursor } from './cursor.js';
+import {
+  DatabaseError,
+  isConnectionError,
+  QueryError,
+  QueryTimeoutError,
+} from '../utils/error-handler.js';
+import {
+  classifySql,
+  dialectForDbType,
+  isTransactionControl,
+  mostRestrictive,
+  type ClassifiedStatement,
+  type SqlDialect,
+} from '../utils/sql-classifier.js';
 import { logger } from '../utils/logger.js';
-import { DEFAULT_MAX_ROWS, DEFAULT_QUERY_TIMEOUT } from '../constants.js';
+import { SPAN_ATTRIBUTES, withSpan } from '../services/tracing.js';
+import {
+  DEFAULT_MAX_ROWS,
+  DEFAULT_CONNECTION_TIMEOUT,
+  DEFAULT_POOL_IDLE_TIMEOUT,
+  DEFAULT_POOL_MAX,
+  DEFAULT_QUERY_TIMEOUT,
+} from '../constants.js';
+
+// Statement the health probe runs
+const PROBE_SQL = 'SELECT 1';
+
+// Statements that return a result set a cursor can page through
+const PAGEABLE_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+
+// Statements a script's transaction mode runs around its own
+export interface TransactionCommands {
+  begin: string;
+  commit: string;
+  rollback: string;
+}
+
+/**
+ * The driver's message for a failed statement, without the wrapper's prefix
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof DatabaseError && error.originalError) {
+    return error.originalError.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
 
 export abstract class BaseConnector implements IConnector {
   protected _isConnected = false;
   protected readonly options: ConnectorOptions;
+  // Cursors opened and not yet closed, each holding a connection
+  private openCursors = 0;
 
   constructor(
     protected readonly config: SourceConfig,
@@ -26,7 +89,10 @@ export abstract class BaseConnector implements IConnector {
       readonly: config.readonly ?? options.readonly ?? false,
       maxRows: options.maxRows ?? DEFAULT_MAX_ROWS,
       queryTimeout: options.queryTimeout ?? DEFAULT_QUERY_TIMEOUT,
-      connectionTimeout: options.connectionTimeout,
+      connectionTimeout: options.connectionTimeout ?? DEFAULT_CONNECTION_TIMEOUT,
+      maxRowsLimit: config.max_rows_limit ?? options.maxRowsLimit,
+      queryTimeoutLimit: config.query_timeout_limit ?? options.queryTimeoutLimit,
+      onConnectionLost: options.onConnectionLost,
     };
   }
 
@@ -43,40 +109,525 @@ export abstract class BaseConnector implements IConnector {
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
 
+  /**
+   * Pool settings from the source's [sources.pool] table, with defaults
+   */
+  protected get poolOptions(): PoolOptions {
+    const pool = this.config.pool ?? {};
+    return {
+      min: pool.min ?? 0,
+      max: pool.max ?? Math.max(DEFAULT_POOL_MAX, pool.min ?? 0),
+      idleTimeout: pool.idle_timeout ?? DEFAULT_POOL_IDLE_TIMEOUT,
+      acquireTimeout: pool.acquire_timeout,
+      maxLifetime: pool.max_lifetime,
+    };
+  }
+
+  /**
+   * Connectors with a connection pool report its usage
+   */
+  getPoolStats(): PoolStats | null {
+    return null;
+  }
+
+  /**
+   * Connectors that obtain Kerberos tickets from a keytab report their validity
+   */
+  isKerberosTicketValid(): boolean | null {
+    return null;
+  }
+
+  /**
+   * Connectors that obtain Kerberos tickets from a keytab report when the
+   * ticket expires
+   */
+  getKerberosTicketExpiry(): Date | null {
+    return null;
+  }
+
+  /**
+   * True when results should carry column origins even where the driver
+   * needs an extra catalog query to report them
+   */
+  protected get tracksColumnOrigins(): boolean {
+    return (this.config.masking?.length ?? 0) > 0;
+  }
+
+  get supportsCursors(): boolean {
+    return this.createCursor !== undefined;
+  }
+
+  /**
+   * Most cursors open at once on this source. Each holds a pooled connection
+   * until closed, so one is always left for other queries.
+   */
+  protected get maxOpenCursors(): number {
+    return this.poolOptions.max - 1;
+  }
+
   async execute(sql: string, options?: ExecuteOptions): Promise<QueryResult> {
-    if (!this._isConnected) {
-      throw new QueryError(this.sourceId, sql, new Error('Not connected to database'));
+    this.assertExecutable(sql);
+
+    const { maxRows, timeout } = this.resolveLimits(options);
+
+    logger.debug(`Executing query on ${this.sourceId}`, { sql: sql.slice(0, 200) });
+
+    return this.withRecovery(sql, () =>
+      this.traceQuery('db.query', sql, () =>
+        this.withTimeout(sql, timeout, (signal) =>
+          this.executeQuery(sql, options?.params, maxRows, timeout, signal)
+        )
+      )
+    );
+  }
+
+  /**
+   * Opens a paged cursor over a single read query. Returns null when the
+   * connector has no cursor support, the statement cannot be paged, or the
+   * source already has its most open cursors; callers then run it with
+   * execute. Waiting for a connection and opening count toward the timeout.
+   */
+  async openCursor(sql: string, options?: ExecuteOptions): Promise<QueryCursor | null> {
+    if (!this.createCursor || !this.isPageable(sql)) {
+      return null;
     }
 
-    // Enforce read-only mode
-    if (this.options.readonly && this.isWriteQuery(sql)) {
+    this.assertExecutable(sql);
+
+    if (this.openCursors >= this.maxOpenCursors) {
+      logger.debug(`Not opening a cursor on ${this.sourceId}: ${this.openCursors} already open`);
+      return null;
+    }
+
+    const { maxRows, timeout } = this.resolveLimits(options);
+
+    logger.debug(`Opening cursor on ${this.sourceId}`, { sql: sql.slice(0, 200) });
+
+    this.openCursors++;
+    let cursor: DriverCursor;
+    try {
+      cursor = await this.withRecovery(sql, () =>
+        this.traceQuery('db.cursor.open', sql, () =>
+          this.withTimeout(sql, timeout, (signal) => {
+            const opening = this.createCursor!(sql, options?.params);
+            // A cursor that opens after the timeout would keep its connection
+            signal.addEventListener('abort', () => {
+              opening.then((late) => late.close()).catch(() => undefined);
+            });
+            return opening;
+          })
+        )
+      );
+    } catch (error) {
+      this.openCursors--;
+      throw error;
+    }
+
+    return new PagedCursor(
+      this.sourceId,
+      cursor,
+      maxRows,
+      (count) =>
+        this.traceQuery('db.cursor.read', sql, () =>
+          this.withTimeout(sql, timeout, (signal) => cursor.read(count, signal))
+        ),
+      () => {
+        this.openCursors--;
+      }
+    );
+  }
+
+  /**
+   * Starts a query and returns a driver cursor over its rows.
+   * Connectors that support server-side cursors implement this.
+   */
+  protected createCursor?(sql: string, params: unknown[] | undefined): Promise<DriverCursor>;
+
+  /**
+   * Runs a script's statements in order on one pooled connection, in the
+   * given transaction mode. A failed statement is reported in its result;
+   * the script stops there unless continueOnError is set, and always stops
+   * once the connection fails or a statement times out. Scripts manage
+   * transactions through the mode only, so may not contain BEGIN, COMMIT
+   * and the like.
+   */
+  async executeScript(sql: string, options: ScriptOptions = {}): Promise<ScriptResult> {
+    this.assertExecutable(sql);
+
+    const { transaction = 'none', continueOnError = false } = options;
+    const statements = classifySql(sql, this.dialect);
+    const fail = (message: string) => new QueryError(this.sourceId, sql, new Error(message));
+
+    if (statements.length === 0) {
+      throw fail('The script has no statements');
+    }
+
+    const control = statements.find((statement) => isTransactionControl(statement, this.dialect));
+    if (control) {
+      throw fail(
+        `Scripts may not control transactions themselves (${control.keyword}); use the transaction mode instead`
+      );
+    }
+
+    const commands = this.transactionCommands;
+    if (transaction !== 'none' && !commands) {
+      throw fail(`Transactions are not supported for ${this.dbType} sources`);
+    }
+    if (transaction === 'all' && continueOnError) {
+      throw fail('A script run in one transaction cannot continue after an error');
+    }
+
+    const { maxRows, timeout } = this.resolveLimits(options);
+
+    logger.debug(`Executing script on ${this.sourceId}`, {
+      statements: statements.length,
+      transaction,
+    });
+
+    const session = await this.withRecovery(sql, () => this.createSession(sql));
+    const run = (statement: string, rows: number) =>
+      this.traceQuery('db.query', statement, () =>
+        this.withTimeout(statement, timeout, (signal) => session.execute(statement, rows, signal))
+      );
+
+    const results: ScriptStatementResult[] = [];
+    let failed = false;
+    // The connection failed or is still busy cancelling a statement
+    let broken = false;
+
+    try {
+      if (transaction === 'all') {
+        await run(commands!.begin, 0);
+      }
+
+      for (const [index, statement] of statements.entries()) {
+        const entry = { index: index + 1, sql: statement.sql, type: statement.type };
+
+        if (broken || (failed && !continueOnError)) {
+          results.push({ ...entry, status: 'skipped' });
+          continue;
+        }
+
+        const startedAt = Date.now();
+        try {
+          if (transaction === 'statement') {
+            await run(commands!.begin, 0);
+          }
+          const result = await run(statement.sql, maxRows);
+          if (transaction === 'statement') {
+            await run(commands!.commit, 0);
+          }
+          results.push({ ...entry, status: 'ok', result, durationMs: Date.now() - startedAt });
+        } catch (error) {
+          failed = true;
+          results.push({
+            ...entry,
+            status: 'error',
+            error: errorMessage(error),
+            durationMs: Date.now() - startedAt,
+          });
+
+          if (isConnectionError(error) || error instanceof QueryTimeoutError) {
+            broken = true;
+            if (isConnectionError(error)) {
+              // Reconnect in the background; the rest of the script is skipped
+              void this.options.onConnectionLost?.(this.sourceId, error);
+            }
+          } else if (transaction === 'statement') {
+            await run(commands!.rollback, 0);
+          }
+        }
+      }
+
+      // A discarded connection rolls back on the server
+      if (transaction === 'all' && !broken) {
+        await run(failed ? commands!.rollback : commands!.commit, 0);
+      }
+    } catch (error) {
+      // Transaction control failed, leaving the connection in an unknown state
+      broken = true;
+      throw error;
+    } finally {
+      await session.release(broken);
+    }
+
+    return { transaction, statements: results, rolledBack: transaction === 'all' && failed };
+  }
+
+  /**
+   * Checks out a pooled connection for a script's statements
+   */
+  protected abstract createSession(sql: string): Promise<DriverSession>;
+
+  /**
+   * Statements that begin, commit and roll back a transaction, or null for
+   * sources without transactions
+   */
+  protected get transactionCommands(): TransactionCommands | null {
+    return { begin: 'BEGIN', commit: 'COMMIT', rollback: 'ROLLBACK' };
+  }
+
+  /**
+   * Returns the normalized execution plan for a single statement. ANALYZE
+   * executes the statement, so it is only allowed for read-only statements.
+   */
+  async explain(sql: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    const statements = classifySql(sql, this.dialect);
+
+    if (statements.length !== 1) {
+      throw new QueryError(
+        this.sourceId,
+        sql,
+        new Error('Only a single statement can be explained')
+      );
+    }
+
+    if (options.analyze && statements[0].type !== 'read') {
+      throw new QueryError(
+        this.sourceId,
+        sql,
+        new Error(
+          `ANALYZE is only allowed for read-only statements: ${statements[0].type} statement (${statements[0].keyword})`
+        )
+      );
+    }
+
+    const { timeout } = this.resolveLimits(options);
+
+    logger.debug(`Explaining query on ${this.sourceId}`, { sql: sql.slice(0, 200) });
+
+    return {
+      dbType: this.dbType,
+      analyzed: options.analyze ?? false,
+      root: await this.traceQuery('db.explain', sql, () =>
+        this.explainQuery(statements[0].sql, { ...options, timeout })
+      ),
+    };
+  }
+
+  /**
+   * Runs the dialect's plan command and normalizes its output.
+   * options.timeout is already resolved against the source's limits.
+   */
+  protected abstract explainQuery(sql: string, options: ExplainOptions): Promise<PlanNode>;
+
+  /**
+   * Attributes identifying the source on its spans
+   */
+  protected get spanAttributes(): Attributes {
+    return {
+      [SPAN_ATTRIBUTES.sourceId]: this.sourceId,
+      [SPAN_ATTRIBUTES.dbType]: this.dbType,
+    };
+  }
+
+  /**
+   * Checks out a pooled connection or session in a span of its own, so time
+   * spent waiting on the pool is told apart from time in the driver
+   */
+  protected traceAcquire<T>(acquire: () => Promise<T>): Promise<T> {
+    return withSpan('db.connection.acquire', this.spanAttributes, acquire);
+  }
+
+  /**
+   * Runs a driver call in a span carrying the statement's type
+   */
+  private traceQuery<T>(name: string, sql: string, run: () => Promise<T>): Promise<T> {
+    const statement = mostRestrictive(classifySql(sql, this.dialect));
+
+    return withSpan(
+      name,
+      {
+        ...this.spanAttributes,
+        [SPAN_ATTRIBUTES.statementType]: statement?.type ?? 'unknown',
+        [SPAN_ATTRIBUTES.operation]: statement?.keyword || undefined,
+      },
+      run
+    );
+  }
+
+  /**
+   * Rejects ANALYZE for dialects that cannot report actual execution statistics
+   */
+  protected assertNoAnalyze(sql: string, options: ExplainOptions): void {
+    if (options.analyze) {
       throw new QueryError(
         this.sourceId,
         sql,
-        new Error('Write operations are not allowed in read-only mode')
+        new Error(`ANALYZE is not supported for ${this.dbType} sources`)
       );
     }
+  }
+
+  /**
+   * Checks that a query may run on this source
+   */
+  private assertExecutable(sql: string): void {
+    if (!this._isConnected) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected to database'));
+    }
+
+    // Enforce read-only mode
+    if (this.options.readonly) {
+      const statement = this.findWriteStatement(sql);
+      if (statement) {
+        const kind = statement.keyword
+          ? `${statement.type} statement (${statement.keyword})`
+          : `${statement.type} statement`;
+        throw new QueryError(
+          this.sourceId,
+          sql,
+          new Error(`Write operations are not allowed in read-only mode: ${kind}`)
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolves row and timeout limits for a call.
+   * Per-call overrides can never exceed the operator-configured ceilings.
+   */
+  private resolveLimits(options?: ExecuteOptions): { maxRows: number; timeout: number } {
+    const defaultTimeout = this.options.queryTimeout ?? DEFAULT_QUERY_TIMEOUT;
 
     const maxRows = options?.maxRows ?? this.options.maxRows;
-    const timeout = options?.timeout ?? this.options.queryTimeout;
 
-    logger.debug(`Executing query on ${this.sourceId}`, { sql: sql.slice(0, 200) });
+    return {
+      maxRows: options?.exceedRowsLimit
+        ? maxRows
+        : Math.min(maxRows, this.options.maxRowsLimit ?? this.options.maxRows),
+      timeout: Math.min(
+        options?.timeout ?? defaultTimeout,
+        this.options.queryTimeoutLimit ?? defaultTimeout
+      ),
+    };
+  }
+
+  /**
+   * Runs a query operation within its timeout budget. When the budget is
+   * exceeded the signal is aborted so the connector can cancel the query on
+   * the server, and the caller gets a QueryTimeoutError.
+   */
+  protected async withTimeout<T>(
+    sql: string,
+    timeout: number,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const query = run(controller.signal);
+
+    if (!timeout) {
+      return query;
+    }
+
+    const timeoutError = new QueryTimeoutError(this.sourceId, sql, timeout);
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(timeoutError);
+        controller.abort();
+      }, timeout);
+    });
+
+    // The driver rejects once the query is cancelled; the caller gets the timeout error instead
+    query.catch(() => undefined);
 
-    return this.executeQuery(sql, options?.params, maxRows, timeout);
+    try {
+      return await Promise.race([query, expired]);
+    } catch (error) {
+      throw controller.signal.aborted ? timeoutError : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Runs a statement and, after a connection-level failure, waits for the
+   * source to reconnect. Reads are then retried once; anything that may
+   * write is not, as it may have been applied before the connection failed.
+   */
+  private async withRecovery<T>(sql: string, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      const { onConnectionLost } = this.options;
+      if (!onConnectionLost || !isConnectionError(error)) {
+        throw error;
+      }
+
+      const recovered = await onConnectionLost(this.sourceId, error);
+      if (!recovered || this.findWriteStatement(sql)) {
+        throw error;
+      }
+
+      logger.warn(`Retrying query on ${this.sourceId} after reconnecting`);
+      return run();
+    }
   }
 
   protected abstract executeQuery(
     sql: string,
     params: unknown[] | undefined,
     maxRows: number,
-    timeout: number | undefined
+    timeout: number | undefined,
+    signal: AbortSignal
   ): Promise<QueryResult>;
 
+  /**
+   * Registers a server-side cancellation to run when the query's signal aborts.
+   * Returns a function that unregisters it once the query has settled.
+   */
+  protected onAbort(signal: AbortSignal, cancel: () => Promise<unknown>): () => void {
+    const listener = () => {
+      logger.warn(`Query timed out on ${this.sourceId}, cancelling`);
+      cancel().catch((error) => {
+        logger.warn(`Failed to cancel query on ${this.sourceId}`, error);
+      });
+    };
+
+    if (signal.aborted) {
+      listener();
+      return () => undefined;
+    }
+
+    signal.addEventListener('abort', listener, { once: true });
+    return () => signal.removeEventListener('abort', listener);
+  }
+
   abstract searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]>;
 
+  /**
+   * Lists the schemas holding a table, view or other relation whose name
+   * matches name case-insensitively, for checking unqualified names against
+   * schema policies. Unlike searchObjects, it matches exactly and is not
+   * capped, so no schema is missed.
+   */
+  abstract findTables(name: string): Promise<string[]>;
+
+  /**
+   * Returns columns, keys, indexes, constraints and size estimates for a table
+   */
+  abstract describeTable(table: string, schema?: string): Promise<TableDescription>;
+
+  /**
+   * Returns the foreign-key relationships between tables
+   */
+  abstract getRelationships(schema?: string): Promise<Relationship[]>;
+
+  /**
+   * Probes the connection. Failures are not reported to onConnectionLost, so
+   * the health supervisor can probe while it reconnects.
+   */
   async testConnection(): Promise<boolean> {
+    if (!this._isConnected) {
+      return false;
+    }
+
+    const { timeout } = this.resolveLimits();
     try {
-      await this.execute('SELECT 1');
+      await this.withTimeout(PROBE_SQL, timeout, (signal) =>
+        this.executeQuery(PROBE_SQL, undefined, 1, timeout, signal)
+      );
       return true;
     } catch {
       return false;
@@ -84,32 +635,36 @@ export abstract class BaseConnector implements IConnector {
   }
 
   /**
-   * Checks if a query is a write operation
+   * SQL dialect used to split and classify statements
    */
-  protected isWriteQuery(sql: string): boolean {
-    const normalized = sql.trim().toUpperCase();
-    const writeKeywords = [
-      'INSERT',
-      'UPDATE',
-      'DELETE',
-      'DROP',
-      'CREATE',
-      'ALTER',
-      'TRUNCATE',
-      'GRANT',
-      'REVOKE',
-      'MERGE',
-      'UPSERT',
-      'REPLACE',
-    ];
-
-    for (const keyword of writeKeywords) {
-      if (normalized.startsWith(keyword)) {
-        return true;
-      }
+  protected get dialect(): SqlDialect {
+    return dialectForDbType(this.dbType);
+  }
+
+  /**
+   * Returns the first statement that is not provably read-only, if any
+   */
+  protected findWriteStatement(sql: string): ClassifiedStatement | undefined {
+    const statements = classifySql(sql, this.dialect);
+
+    if (statements.length === 0) {
+      return { sql, type: 'unknown', keyword: '' };
     }
 
-    return false;
+    const statement = mostRestrictive(statements);
+    return statement?.type === 'read' ? undefined : statement;
+  }
+
+  /**
+   * Checks if a query is a single read statement that can be paged with a cursor
+   */
+  protected isPageable(sql: string): boolean {
+    const statements = classifySql(sql, this.dialect);
+    return (
+      statements.length === 1 &&
+      statements[0].type === 'read' &&
+      PAGEABLE_KEYWORDS.has(statements[0].keyword)
+    );
   }
 
   /**
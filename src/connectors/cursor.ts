@@ -0,0 +1,174 @@
+/**
+ * Cursor helpers shared by connectors that support paginated results
+ */
+
+import type { ColumnOrigin, ColumnType, QueryResult } from '../utils/formatters.js';
+import type { DriverCursor, QueryCursor } from './types.js';
+
+/**
+ * Splits a driver cursor into fixed-size pages, reading one row ahead so
+ * each page knows whether more rows remain
+ */
+export class PagedCursor implements QueryCursor {
+  private lookahead: Record<string, unknown>[] = [];
+  private lastPage: Record<string, unknown>[] = [];
+  private exhausted = false;
+  private closed = false;
+
+  constructor(
+    readonly sourceId: string,
+    private readonly cursor: DriverCursor,
+    private readonly pageSize: number,
+    private readonly read: (count: number) => Promise<Record<string, unknown>[]>,
+    // Called once the cursor is closed
+    private readonly onClose?: () => void
+  ) {}
+
+  async nextPage(): Promise<QueryResult> {
+    if (this.closed) {
+      throw new Error('Cursor is closed');
+    }
+
+    const needed = this.pageSize + 1 - this.lookahead.length;
+    let fetched: Record<string, unknown>[] = [];
+
+    if (!this.exhausted && needed > 0) {
+      fetched = await this.read(needed);
+      if (fetched.length < needed) {
+        this.exhausted = true;
+      }
+    }
+
+    const rows = [...this.lookahead, ...fetched];
+    const truncated = rows.length > this.pageSize;
+    const page = rows.slice(0, this.pageSize);
+    this.lookahead = rows.slice(this.pageSize);
+    this.lastPage = page;
+
+    return {
+      columns: this.cursor.columns,
+      rows: page,
+      rowCount: page.length,
+      truncated,
+      origins: this.cursor.origins,
+      columnTypes: this.cursor.columnTypes,
+    };
+  }
+
+  unread(count: number): void {
+    if (count <= 0) return;
+    this.lookahead = [...this.lastPage.slice(-count), ...this.lookahead];
+    this.lastPage = this.lastPage.slice(0, -count);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      await this.cursor.close();
+    } finally {
+      this.onClose?.();
+    }
+  }
+}
+
+/**
+ * Flow control for an event-based result stream
+ */
+export interface StreamControl {
+  pause(): void;
+  resume(): void;
+  // Stops the stream before it has ended and frees its connection
+  cancel(): Promise<void>;
+  // Frees the connection once the stream has ended
+  release(): void;
+}
+
+/**
+ * Driver cursor over a pausable row stream (mysql2 and mssql). Rows are
+ * buffered until the requested count is reached, then the stream is paused.
+ */
+export class StreamCursor implements DriverCursor {
+  columns: string[] = [];
+  origins?: Array<ColumnOrigin | null>;
+  columnTypes?: Array<ColumnType | null>;
+  private buffer: Record<string, unknown>[] = [];
+  private wanted = 0;
+  private ended = false;
+  private closed = false;
+  private error: Error | null = null;
+  private notify: (() => void) | null = null;
+
+  constructor(private readonly control: StreamControl) {}
+
+  setColumns(
+    columns: string[],
+    origins?: Array<ColumnOrigin | null>,
+    columnTypes?: Array<ColumnType | null>
+  ): void {
+    this.columns = columns;
+    this.origins = origins;
+    this.columnTypes = columnTypes;
+  }
+
+  push(row: Record<string, unknown>): void {
+    this.buffer.push(row);
+    if (this.buffer.length >= this.wanted) {
+      this.control.pause();
+      this.wake();
+    }
+  }
+
+  end(): void {
+    this.ended = true;
+    if (!this.closed) {
+      this.closed = true;
+      this.control.release();
+    }
+    this.wake();
+  }
+
+  fail(error: Error): void {
+    this.error = error;
+    this.wake();
+  }
+
+  async read(count: number, signal: AbortSignal): Promise<Record<string, unknown>[]> {
+    const onAbort = () => {
+      this.fail(new Error('Read cancelled'));
+      void this.close();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      while (this.buffer.length < count && !this.ended && !this.error) {
+        this.wanted = count;
+        await new Promise<void>((resolve) => {
+          this.notify = resolve;
+          this.control.resume();
+        });
+      }
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    if (this.error) {
+      throw this.error;
+    }
+
+    return this.buffer.splice(0, count);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.buffer = [];
+    await this.control.cancel();
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}
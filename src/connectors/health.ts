@@ -0,0 +1,329 @@
+/**
+ * Health supervision and reconnection of database sources
+ */
+
+import type { IConnector } from './types.js';
+import { logger } from '../utils/logger.js';
+import { READINESS_CACHE_TTL, READINESS_PROBE_TIMEOUT } from '../constants.js';
+
+// Wait before the first reconnect attempt; each further attempt doubles it
+const RECONNECT_BASE_DELAY = 1_000;
+
+export type HealthStatus = 'healthy' | 'degraded';
+
+export interface SourceHealth {
+  status: HealthStatus;
+  // When the source was last probed or reconnected
+  checkedAt?: string;
+  // Why the source is degraded
+  error?: string;
+  // Failed reconnect attempts since the source became degraded
+  reconnectAttempts: number;
+  // When the next reconnect attempt is due
+  nextReconnectAt?: string;
+}
+
+// Whether any source or every source must be up for the server to be ready
+export type ReadinessRequirement = 'any' | 'all';
+
+export interface SourceReadiness {
+  id: string;
+  type: string;
+  up: boolean;
+  health: HealthStatus;
+  // Absent for sources without keytab authentication
+  kerberosTicket?: 'valid' | 'invalid';
+  // Why the source is down, or the failure that last degraded it
+  error?: string;
+  checkedAt: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  require: ReadinessRequirement;
+  sources: SourceReadiness[];
+}
+
+export interface HealthSupervisorOptions {
+  // Interval between probes of healthy sources; 0 disables probes
+  interval: number;
+  // Longest wait between reconnect attempts
+  maxDelay: number;
+}
+
+interface SourceState {
+  health: SourceHealth;
+  probing: boolean;
+  reconnecting?: Promise<boolean>;
+  timer?: NodeJS.Timeout;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Probes connected sources periodically and reconnects degraded ones with
+ * exponential backoff. A source is degraded when a probe fails, it could not
+ * connect at startup, or a query failed at the connection level.
+ */
+export class HealthSupervisor {
+  private readonly states = new Map<string, SourceState>();
+  private probeTimer?: NodeJS.Timeout;
+  private stopped = false;
+  // Latest readiness probe of every source, shared by the checks that follow it
+  private readinessProbe?: { startedAt: number; sources: Promise<SourceReadiness[]> };
+
+  constructor(
+    private readonly connectors: ReadonlyMap<string, IConnector>,
+    private readonly options: HealthSupervisorOptions
+  ) {}
+
+  /**
+   * Starts periodic probes
+   */
+  start(): void {
+    this.stopped = false;
+
+    if (this.options.interval > 0 && !this.probeTimer) {
+      this.probeTimer = setInterval(() => this.probeAll(), this.options.interval);
+      this.probeTimer.unref();
+    }
+  }
+
+  /**
+   * Stops probes and pending reconnect attempts
+   */
+  stop(): void {
+    this.stopped = true;
+    clearInterval(this.probeTimer);
+    this.probeTimer = undefined;
+
+    for (const state of this.states.values()) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+  }
+
+  /**
+   * Health of a source. Sources not yet probed count as healthy while connected.
+   */
+  get(sourceId: string): SourceHealth {
+    const state = this.states.get(sourceId);
+    if (state) {
+      return { ...state.health };
+    }
+
+    const connected = this.connectors.get(sourceId)?.isConnected ?? false;
+    return connected
+      ? { status: 'healthy', reconnectAttempts: 0 }
+      : { status: 'degraded', error: 'Not connected', reconnectAttempts: 0 };
+  }
+
+  /**
+   * Records a failed connection attempt made outside the supervisor, such as
+   * at startup, and schedules a retry
+   */
+  connectFailed(sourceId: string, error: unknown): void {
+    const state = this.state(sourceId);
+    if (state.reconnecting || state.timer) {
+      return;
+    }
+
+    this.degrade(state, sourceId, error);
+    state.health.reconnectAttempts++;
+    this.scheduleReconnect(state, sourceId);
+  }
+
+  /**
+   * Handles a connection-level query failure: reconnects the source unless a
+   * reconnect is already under way or backing off. Resolves true once the
+   * source is usable again.
+   */
+  async recover(sourceId: string, error: unknown): Promise<boolean> {
+    const state = this.state(sourceId);
+    if (state.reconnecting) {
+      return state.reconnecting;
+    }
+    if (state.timer || this.stopped) {
+      return false;
+    }
+
+    this.degrade(state, sourceId, error);
+    return this.reconnect(state, sourceId);
+  }
+
+  /**
+   * Probes every source, or reuses the probe started within the last
+   * READINESS_CACHE_TTL, so frequent unauthenticated checks can't load the
+   * sources. Probes that take longer than READINESS_PROBE_TIMEOUT count as
+   * failed.
+   */
+  async readiness(require: ReadinessRequirement): Promise<ReadinessReport> {
+    const now = Date.now();
+    if (!this.readinessProbe || now - this.readinessProbe.startedAt >= READINESS_CACHE_TTL) {
+      this.readinessProbe = {
+        startedAt: now,
+        sources: Promise.all(
+          [...this.connectors].map(([sourceId, connector]) =>
+            this.probeReadiness(sourceId, connector)
+          )
+        ),
+      };
+    }
+    const sources = await this.readinessProbe.sources;
+
+    const up = sources.filter((source) => source.up).length;
+    return {
+      ready: require === 'all' ? up === sources.length : up > 0,
+      require,
+      sources,
+    };
+  }
+
+  private async probeReadiness(sourceId: string, connector: IConnector): Promise<SourceReadiness> {
+    const reachable = connector.isConnected && (await this.probeWithin(connector));
+    const ticketValid = connector.isKerberosTicketValid();
+    const health = this.get(sourceId);
+
+    let error = health.error;
+    if (!connector.isConnected) {
+      error ??= 'Not connected';
+    } else if (!reachable) {
+      error = `Connection probe failed or took over ${READINESS_PROBE_TIMEOUT}ms`;
+    } else if (ticketValid === false) {
+      error = 'Kerberos ticket is not valid';
+    }
+
+    return {
+      id: sourceId,
+      type: connector.dbType,
+      up: reachable && ticketValid !== false,
+      health: health.status,
+      kerberosTicket: ticketValid === null ? undefined : ticketValid ? 'valid' : 'invalid',
+      error,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  private async probeWithin(connector: IConnector): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), READINESS_PROBE_TIMEOUT);
+    });
+
+    try {
+      return await Promise.race([connector.testConnection(), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private state(sourceId: string): SourceState {
+    let state = this.states.get(sourceId);
+    if (!state) {
+      state = { health: this.get(sourceId), probing: false };
+      this.states.set(sourceId, state);
+    }
+    return state;
+  }
+
+  private probeAll(): void {
+    for (const [sourceId, connector] of this.connectors) {
+      const state = this.state(sourceId);
+
+      // Degraded sources are retried on their own schedule
+      if (state.probing || state.reconnecting || state.timer || !connector.isConnected) {
+        continue;
+      }
+
+      state.probing = true;
+      connector
+        .testConnection()
+        .then((ok) => {
+          if (ok) {
+            state.health = {
+              status: 'healthy',
+              checkedAt: new Date().toISOString(),
+              reconnectAttempts: 0,
+            };
+          } else if (!state.reconnecting && !this.stopped) {
+            this.degrade(state, sourceId, new Error('Health probe failed'));
+            return this.reconnect(state, sourceId);
+          }
+        })
+        .finally(() => {
+          state.probing = false;
+        });
+    }
+  }
+
+  private degrade(state: SourceState, sourceId: string, error: unknown): void {
+    if (state.health.status === 'healthy') {
+      logger.warn(`Source ${sourceId} is degraded: ${errorMessage(error)}`);
+    }
+
+    state.health = {
+      ...state.health,
+      status: 'degraded',
+      checkedAt: new Date().toISOString(),
+      error: errorMessage(error),
+    };
+  }
+
+  private reconnect(state: SourceState, sourceId: string): Promise<boolean> {
+    state.reconnecting ??= this.attemptReconnect(state, sourceId).finally(() => {
+      state.reconnecting = undefined;
+    });
+    return state.reconnecting;
+  }
+
+  private async attemptReconnect(state: SourceState, sourceId: string): Promise<boolean> {
+    const connector = this.connectors.get(sourceId)!;
+    state.timer = undefined;
+
+    try {
+      // Pools replace broken connections themselves, so only start over if
+      // the source still fails a probe
+      if (!(await connector.testConnection())) {
+        await connector.disconnect();
+        if (this.stopped) {
+          return false;
+        }
+        await connector.connect();
+      }
+    } catch (error) {
+      this.degrade(state, sourceId, error);
+      state.health.reconnectAttempts++;
+      this.scheduleReconnect(state, sourceId);
+      return false;
+    }
+
+    if (state.health.status === 'degraded') {
+      logger.info(`Source ${sourceId} reconnected`);
+    }
+    state.health = {
+      status: 'healthy',
+      checkedAt: new Date().toISOString(),
+      reconnectAttempts: 0,
+    };
+    return true;
+  }
+
+  private scheduleReconnect(state: SourceState, sourceId: string): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** (state.health.reconnectAttempts - 1),
+      this.options.maxDelay
+    );
+
+    state.health.nextReconnectAt = new Date(Date.now() + delay).toISOString();
+    state.timer = setTimeout(() => {
+      void this.reconnect(state, sourceId);
+    }, delay);
+    state.timer.unref();
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * HiveServer2 operation helpers shared by the Hive and Impala connectors
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import type { ColumnType } from '../utils/formatters.js';
+import { columnType } from '../utils/value-normalizer.js';
+
+type HiveDriverModule = typeof import('hive-driver');
+type HiveClient = InstanceType<HiveDriverModule['HiveClient']>;
+type HiveUtils = InstanceType<HiveDriverModule['HiveUtils']>;
+
+// hive-driver's session and operation contracts, which it does not export by name
+export type HiveSession = Awaited<ReturnType<HiveClient['openSession']>>;
+export type HiveOperation = Awaited<ReturnType<HiveSession['executeStatement']>>;
+type HiveColumnDesc = NonNullable<ReturnType<HiveOperation['getSchema']>>['columns'][number];
+
+// A pooled session, each on its own Thrift connection
+export interface PooledSession {
+  client: HiveClient;
+  session: HiveSession;
+}
+
+// First and longest wait between operation status polls, in milliseconds
+const MIN_POLL_INTERVAL = 50;
+const MAX_POLL_INTERVAL = 1000;
+
+/**
+ * Reads the rows of a statement run with runAsync: polls the operation until
+ * it has finished, then fetches row sets as rows are requested. Rows are
+ * converted by hive-driver's JSON result, which names columns without the
+ * table prefix Hive adds.
+ */
+export class OperationReader {
+  columns: string[] = [];
+  columnTypes?: ColumnType[];
+  private buffer: Record<string, unknown>[] = [];
+  private finished = false;
+  private exhausted = false;
+
+  constructor(
+    private readonly operation: HiveOperation,
+    private readonly utils: HiveUtils,
+    // hive-driver's TCLIService_types
+    private readonly types: HiveDriverModule['thrift']['TCLIService_types']
+  ) {}
+
+  async read(count: number, signal: AbortSignal): Promise<Record<string, unknown>[]> {
+    if (!this.finished) {
+      await this.waitUntilFinished(signal);
+      this.finished = true;
+    }
+
+    while (this.buffer.length < count && !this.exhausted) {
+      signal.throwIfAborted();
+
+      this.operation.setMaxRows(count - this.buffer.length);
+      await this.operation.fetch();
+
+      // The schema is fetched along with the first rows
+      const schema = this.operation.getSchema();
+      if (schema && !this.columnTypes) {
+        const columns = [...schema.columns].sort((a, b) => a.position - b.position);
+        this.columns = columns.map((col) => col.columnName.split('.').pop() ?? '');
+        this.columnTypes = columns.map((col) => this.columnType(col));
+      }
+
+      const rows: Record<string, unknown>[] | null = this.utils.getResult(this.operation).getValue();
+      this.buffer.push(...(rows ?? []));
+
+      // Fetched row sets pile up in the operation until flushed, which the
+      // IOperation contract leaves out
+      if ('flush' in this.operation && typeof this.operation.flush === 'function') {
+        this.operation.flush();
+      }
+
+      if (!this.operation.hasMoreRows()) {
+        this.exhausted = true;
+      }
+    }
+
+    return this.buffer.splice(0, count);
+  }
+
+  /**
+   * Polls the operation's status, backing off, until it has finished.
+   * Throws the server's error if it failed or was cancelled.
+   */
+  private async waitUntilFinished(signal: AbortSignal): Promise<void> {
+    const { TOperationState } = this.types;
+    let interval = MIN_POLL_INTERVAL;
+
+    for (;;) {
+      signal.throwIfAborted();
+      const response = await this.operation.status(false);
+
+      switch (response.operationState) {
+        case TOperationState.FINISHED_STATE:
+          return;
+        case TOperationState.INITIALIZED_STATE:
+        case TOperationState.PENDING_STATE:
+        case TOperationState.RUNNING_STATE:
+          break;
+        default:
+          throw new Error(
+            response.errorMessage ||
+              `Operation ended in state ${response.operationState ?? 'unknown'}`
+          );
+      }
+
+      await sleep(interval, undefined, { signal });
+      interval = Math.min(interval * 2, MAX_POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * Names the type of a result column by its TTypeId; complex types are
+   * primitive entries too, with their values sent as JSON text
+   */
+  private columnType(col: HiveColumnDesc): ColumnType {
+    const typeId = col.typeDesc.types[0]?.primitiveEntry?.type;
+    const name: string | undefined =
+      typeId === undefined ? undefined : this.types.TYPE_NAMES[typeId];
+    return columnType(name ?? 'UNKNOWN');
+  }
+}
@@ -4,19 +4,44 @@
  */
 
 import { BaseConnector } from './base.js';
-import type { SchemaSearchOptions } from './types.js';
+import { SessionPool } from './pool.js';
+import {
+  OperationReader,
+  type HiveOperation,
+  type HiveSession,
+  type PooledSession,
+} from './hive-operation.js';
+import type {
+  DriverCursor,
+  DriverSession,
+  ExplainOptions,
+  PoolStats,
+  SchemaSearchOptions,
+} from './types.js';
 import type { KerberosSourceConfig } from '../config/types.js';
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  TableDescription,
+  Relationship,
+  KeyDescription,
+} from '../utils/formatters.js';
+import { numericParameter, parseDescribeFormatted } from '../utils/describe-formatted.js';
+import { inferRelationships, type TableColumns } from '../utils/relationship-graph.js';
+import { parseImpalaPlan } from '../utils/query-plan.js';
 import { ConnectionError, QueryError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import { KerberosAuth } from '../services/kerberos.js';
-import { DEFAULT_PORTS } from '../constants.js';
+import { DEFAULT_PORTS, MAX_HEURISTIC_TABLES } from '../constants.js';
 
 // Dynamic import for hive-driver (Impala uses HiveServer2 protocol)
 let HiveClient: typeof import('hive-driver').HiveClient | null = null;
 let TCLIService: typeof import('hive-driver').thrift.TCLIService | null = null;
 let TCLIService_types: typeof import('hive-driver').thrift.TCLIService_types | null = null;
 
+let hiveUtils: InstanceType<typeof import('hive-driver').HiveUtils> | null = null;
+
 async function loadHiveDriver() {
   if (HiveClient === null) {
     try {
@@ -24,6 +49,7 @@ async function loadHiveDriver() {
       HiveClient = hiveDriver.HiveClient;
       TCLIService = hiveDriver.thrift.TCLIService;
       TCLIService_types = hiveDriver.thrift.TCLIService_types;
+      hiveUtils = new hiveDriver.HiveUtils(TCLIService_types);
     } catch {
       throw new Error(
         'hive-driver package is not installed. Install it with: npm install hive-driver'
@@ -32,9 +58,15 @@ async function loadHiveDriver() {
   }
 }
 
+/**
+ * Quotes an identifier with backticks for use in Impala statements
+ */
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
 export class ImpalaConnector extends BaseConnector {
-  private client: InstanceType<typeof import('hive-driver').HiveClient> | null = null;
-  private session: unknown = null;
+  private pool: SessionPool<PooledSession> | null = null;
   private kerberosAuth: KerberosAuth | null = null;
 
   get dbType(): string {
@@ -58,29 +90,25 @@ export class ImpalaConnector extends BaseConnector {
         await this.kerberosAuth.initialize();
       }
 
-      // Create client using HiveServer2 protocol (compatible with Impala)
-      this.client = new HiveClient!(
-        TCLIService!,
-        TCLIService_types!
+      this.pool = new SessionPool(
+        this.sourceId,
+        {
+          create: () => this.openSession(config),
+          destroy: (pooled) => this.closeSession(pooled),
+        },
+        this.poolOptions
       );
 
-      const authOptions = this.getAuthOptions(config);
-
-      await this.client.connect({
-        host: config.host,
-        port: config.port ?? DEFAULT_PORTS.impala,
-        options: authOptions,
-      });
-
-      // Open session
-      this.session = await this.client.openSession({
-        client_protocol:
-          TCLIService_types!.TProtocolVersion.HIVE_CLI_SERVICE_PROTOCOL_V10,
-      });
+      // Test the connection
+      const pooled = await this.pool.acquire();
+      this.pool.release(pooled);
+      await this.pool.fill();
 
       this._isConnected = true;
       logger.info(`Connected to Impala: ${this.sourceId}`);
     } catch (error) {
+      await this.pool?.close();
+      this.pool = null;
       if (this.kerberosAuth) {
         await this.kerberosAuth.destroy();
       }
@@ -93,11 +121,8 @@ export class ImpalaConnector extends BaseConnector {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.session && this.client) {
-        await (this.session as { close: () => Promise<void> }).close();
-      }
-      if (this.client) {
-        await this.client.close();
+      if (this.pool) {
+        await this.pool.close();
       }
       if (this.kerberosAuth) {
         await this.kerberosAuth.destroy();
@@ -105,52 +130,46 @@ export class ImpalaConnector extends BaseConnector {
     } catch (error) {
       logger.warn('Error during Impala disconnect', error);
     } finally {
-      this.client = null;
-      this.session = null;
+      this.pool = null;
       this.kerberosAuth = null;
       this._isConnected = false;
       logger.info(`Disconnected from Impala: ${this.sourceId}`);
     }
   }
 
+  override getPoolStats(): PoolStats | null {
+    return this.pool?.stats ?? null;
+  }
+
+  override isKerberosTicketValid(): boolean | null {
+    return this.kerberosAuth?.isValid() ?? null;
+  }
+
+  override getKerberosTicketExpiry(): Date | null {
+    return this.kerberosAuth?.expiresAt ?? null;
+  }
+
   protected async executeQuery(
     sql: string,
     _params: unknown[] | undefined,
     maxRows: number,
-    _timeout: number | undefined
+    _timeout: number | undefined,
+    signal: AbortSignal
   ): Promise<QueryResult> {
-    if (!this.session) {
+    if (!this.pool) {
       throw new QueryError(this.sourceId, sql, new Error('Not connected'));
     }
 
     try {
-      const session = this.session as {
-        executeStatement: (sql: string) => Promise<{
-          getSchema: () => Promise<{ columns: Array<{ columnName: string }> }>;
-          fetchChunk: (options: { maxRows: number }) => Promise<{ getValue: () => Record<string, unknown>[] }>;
-          close: () => Promise<void>;
-        }>;
-      };
-
-      const operation = await session.executeStatement(sql);
-
+      const pool = this.pool;
+      const pooled = await this.traceAcquire(() => pool.acquire());
       try {
-        const schema = await operation.getSchema();
-        const columns = schema.columns.map((col) => col.columnName);
-
-        const chunk = await operation.fetchChunk({ maxRows: maxRows + 1 });
-        const rows = chunk.getValue();
+        // The query may have timed out while waiting for a session
+        signal.throwIfAborted();
 
-        const { rows: formattedRows, truncated } = this.formatRows(rows, maxRows);
-
-        return {
-          columns,
-          rows: formattedRows,
-          rowCount: rows.length,
-          truncated,
-        };
+        return await this.runStatement(pooled.session, sql, maxRows, signal);
       } finally {
-        await operation.close();
+        pool.release(pooled);
       }
     } catch (error) {
       throw new QueryError(
@@ -161,6 +180,136 @@ export class ImpalaConnector extends BaseConnector {
     }
   }
 
+  protected async createSession(sql: string): Promise<DriverSession> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    const pool = this.pool;
+    const pooled = await this.traceAcquire(() => pool.acquire());
+
+    return {
+      execute: async (statement, maxRows, signal) => {
+        try {
+          return await this.runStatement(pooled.session, statement, maxRows, signal);
+        } catch (error) {
+          throw new QueryError(
+            this.sourceId,
+            statement,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      },
+      release: async (discard) => pool.release(pooled, discard),
+    };
+  }
+
+  // No transaction statements to run scripts in
+  protected override get transactionCommands(): null {
+    return null;
+  }
+
+  /**
+   * Runs a statement on a session and fetches its first maxRows rows
+   */
+  private async runStatement(
+    session: HiveSession,
+    sql: string,
+    maxRows: number,
+    signal: AbortSignal
+  ): Promise<QueryResult> {
+    // Run asynchronously so the operation handle is available for CancelOperation
+    const operation = await session.executeStatement(sql, { runAsync: true });
+    const disposeCancel = this.onAbort(signal, () => operation.cancel());
+
+    try {
+      const reader = new OperationReader(operation, hiveUtils!, TCLIService_types!);
+      const rows = await reader.read(maxRows + 1, signal);
+
+      const { rows: formattedRows, truncated } = this.formatRows(rows, maxRows);
+
+      return {
+        columns: reader.columns,
+        rows: formattedRows,
+        rowCount: rows.length,
+        truncated,
+        columnTypes: reader.columnTypes,
+      };
+    } finally {
+      disposeCancel();
+      await operation.close();
+    }
+  }
+
+  protected async createCursor(
+    sql: string,
+    _params: unknown[] | undefined
+  ): Promise<DriverCursor> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    // Hold a session until the cursor closes, keeping the operation open to
+    // fetch further row sets from it on demand
+    const pool = this.pool;
+    const pooled = await this.traceAcquire(() => pool.acquire());
+    let operation: HiveOperation;
+    try {
+      operation = await pooled.session.executeStatement(sql, { runAsync: true });
+    } catch (error) {
+      pool.release(pooled);
+      throw error;
+    }
+    const reader = new OperationReader(operation, hiveUtils!, TCLIService_types!);
+
+    return {
+      get columns() {
+        return reader.columns;
+      },
+      get columnTypes() {
+        return reader.columnTypes;
+      },
+      read: async (count, signal) => {
+        const disposeCancel = this.onAbort(signal, () => operation.cancel());
+        try {
+          return await reader.read(count, signal);
+        } catch (error) {
+          throw new QueryError(
+            this.sourceId,
+            sql,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        } finally {
+          disposeCancel();
+        }
+      },
+      close: async () => {
+        try {
+          await operation.close();
+        } finally {
+          pool.release(pooled);
+        }
+      },
+    };
+  }
+
+  protected async explainQuery(sql: string, options: ExplainOptions): Promise<PlanNode> {
+    // Impala only reports actual statistics through query profiles
+    this.assertNoAnalyze(sql, options);
+
+    const result = await this.execute(`EXPLAIN ${sql}`, { timeout: options.timeout });
+
+    // Each row holds one line of the plan text
+    return parseImpalaPlan(result.rows.map((row) => String(row[result.columns[0]] ?? '')));
+  }
+
+  /**
+   * Unqualified names only ever refer to the session's database
+   */
+  async findTables(): Promise<string[]> {
+    return ['default'];
+  }
+
   async searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]> {
     const objects: SchemaObject[] = [];
     const pattern = options?.pattern || '%';
@@ -224,12 +373,111 @@ export class ImpalaConnector extends BaseConnector {
     return objects;
   }
 
-  override async testConnection(): Promise<boolean> {
+  async describeTable(table: string, schema?: string): Promise<TableDescription> {
+    const database = schema || 'default';
+    const name = `${quoteIdentifier(database)}.${quoteIdentifier(table)}`;
+
+    const result = await this.execute(`DESCRIBE FORMATTED ${name}`);
+    const info = parseDescribeFormatted(result.rows);
+
+    // Kudu tables report keys, nullability and defaults in plain DESCRIBE output
+    const columnsResult = await this.execute(`DESCRIBE ${name}`);
+    let primaryKey: KeyDescription | undefined;
+
+    if (columnsResult.columns.includes('primary_key')) {
+      const primaryKeyColumns: string[] = [];
+
+      for (const row of columnsResult.rows) {
+        const column = info.columns.find((col) => col.name === row.name);
+        if (!column) continue;
+
+        column.nullable = String(row.nullable) !== 'false';
+        const defaultValue = row.default_value;
+        if (defaultValue !== null && defaultValue !== undefined && defaultValue !== '') {
+          column.defaultValue = String(defaultValue);
+        }
+        if (String(row.primary_key) === 'true') {
+          primaryKeyColumns.push(column.name);
+        }
+      }
+
+      if (primaryKeyColumns.length > 0) {
+        primaryKey = { columns: primaryKeyColumns };
+      }
+    }
+
+    return {
+      name: table,
+      schema: database,
+      comment: info.tableParameters.comment || undefined,
+      columns: info.columns,
+      primaryKey: primaryKey ?? info.primaryKey,
+      uniqueConstraints: info.uniqueConstraints,
+      foreignKeys: info.foreignKeys,
+      // Impala has no secondary indexes or CHECK constraints
+      indexes: [],
+      checkConstraints: [],
+      approximateRowCount: numericParameter(info.tableParameters, 'numRows'),
+      sizeBytes: numericParameter(info.tableParameters, 'totalSize'),
+    };
+  }
+
+  /**
+   * Impala does not enforce foreign keys, so relationships are inferred from
+   * column names using the source's relationship_heuristics
+   */
+  async getRelationships(schema?: string): Promise<Relationship[]> {
+    const database = schema || 'default';
+    const tablesResult = await this.execute(`SHOW TABLES IN ${quoteIdentifier(database)}`);
+    let tableNames = tablesResult.rows.map((row) => String(Object.values(row)[0]));
+
+    if (tableNames.length > MAX_HEURISTIC_TABLES) {
+      logger.warn(
+        `${database} has ${tableNames.length} tables; inferring relationships for the first ${MAX_HEURISTIC_TABLES}`
+      );
+      tableNames = tableNames.slice(0, MAX_HEURISTIC_TABLES);
+    }
+
+    const tables: TableColumns[] = [];
+    for (const table of tableNames) {
+      const result = await this.execute(
+        `DESCRIBE ${quoteIdentifier(database)}.${quoteIdentifier(table)}`
+      );
+      const columns = result.rows
+        .map((row) => String(Object.values(row)[0] ?? '').trim())
+        .filter((column) => column !== '' && !column.startsWith('#'));
+      tables.push({ schema: database, table, columns: Array.from(new Set(columns)) });
+    }
+
+    const config = this.config as KerberosSourceConfig;
+    return inferRelationships(tables, config.relationship_heuristics);
+  }
+
+  private async openSession(config: KerberosSourceConfig): Promise<PooledSession> {
+    const client = new HiveClient!(TCLIService!, TCLIService_types!);
+
+    await client.connect({
+      host: config.host,
+      port: config.port ?? DEFAULT_PORTS.impala,
+      options: this.getAuthOptions(config),
+    });
+
     try {
-      await this.execute('SELECT 1');
-      return true;
-    } catch {
-      return false;
+      const session = await client.openSession({
+        client_protocol: TCLIService_types!.TProtocolVersion.HIVE_CLI_SERVICE_PROTOCOL_V10,
+      });
+      return { client, session };
+    } catch (error) {
+      client.close();
+      throw error;
+    }
+  }
+
+  private async closeSession({ client, session }: PooledSession): Promise<void> {
+    try {
+      await session.close();
+    } finally {
+      client.close();
     }
   }
 
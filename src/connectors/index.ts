@@ -3,17 +3,21 @@
  */
 
 import type { SourceConfig, ParsedConfig } from '../config/types.js';
-import type { IConnector, ConnectorOptions } from './types.js';
+import type { IConnector, ConnectorOptions, PoolStats } from './types.js';
 import { PostgresConnector } from './postgres.js';
 import { MySqlConnector } from './mysql.js';
 import { SqlServerConnector } from './sqlserver.js';
+import { SqliteConnector } from './sqlite.js';
 import { HiveConnector } from './hive.js';
 import { ImpalaConnector } from './impala.js';
+import { HealthSupervisor, type SourceHealth } from './health.js';
 import { logger } from '../utils/logger.js';
+import { DEFAULT_HEALTH_CHECK_INTERVAL, DEFAULT_RECONNECT_MAX_DELAY } from '../constants.js';
 
 export class ConnectorManager {
   private connectors: Map<string, IConnector> = new Map();
   private readonly globalOptions: Partial<ConnectorOptions>;
+  readonly health: HealthSupervisor;
 
   constructor(config: ParsedConfig) {
     this.globalOptions = {
@@ -21,8 +25,16 @@ export class ConnectorManager {
       maxRows: config.settings.max_rows,
       queryTimeout: config.settings.query_timeout,
       connectionTimeout: config.settings.connection_timeout,
+      maxRowsLimit: config.settings.max_rows_limit,
+      queryTimeoutLimit: config.settings.query_timeout_limit,
+      onConnectionLost: (sourceId, error) => this.health.recover(sourceId, error),
     };
 
+    this.health = new HealthSupervisor(this.connectors, {
+      interval: config.settings.health_check_interval ?? DEFAULT_HEALTH_CHECK_INTERVAL,
+      maxDelay: config.settings.reconnect_max_delay ?? DEFAULT_RECONNECT_MAX_DELAY,
+    });
+
     // Create connectors for all sources
     for (const [id, sourceConfig] of config.sources) {
       const connector = this.createConnector(sourceConfig);
@@ -48,6 +60,8 @@ export class ConnectorManager {
         return new MySqlConnector(config, options);
       case 'sqlserver':
         return new SqlServerConnector(config, options);
+      case 'sqlite':
+        return new SqliteConnector(config, options);
       case 'hive':
         return new HiveConnector(config, options);
       case 'impala':
@@ -105,12 +119,21 @@ export class ConnectorManager {
   /**
    * List all sources with their types
    */
-  listSources(): Array<{ id: string; type: string; readonly: boolean; connected: boolean }> {
+  listSources(): Array<{
+    id: string;
+    type: string;
+    readonly: boolean;
+    connected: boolean;
+    health: SourceHealth;
+    pool: PoolStats | null;
+  }> {
     return Array.from(this.connectors.entries()).map(([id, connector]) => ({
       id,
       type: connector.dbType,
       readonly: (connector as unknown as { options: ConnectorOptions }).options?.readonly ?? false,
       connected: connector.isConnected,
+      health: this.health.get(id),
+      pool: connector.getPoolStats(),
     }));
   }
 
@@ -140,9 +163,12 @@ export class ConnectorManager {
           error: error instanceof Error ? error : new Error(String(error)),
         });
         logger.error(`Failed to connect to ${id}`, error);
+        this.health.connectFailed(id, error);
       }
     }
 
+    this.health.start();
+
     if (errors.length > 0 && errors.length === this.connectors.size) {
       throw new Error(
         `Failed to connect to all sources: ${errors.map((e) => `${e.id}: ${e.error.message}`).join('; ')}`
@@ -154,6 +180,8 @@ export class ConnectorManager {
    * Disconnect from all sources
    */
   async disconnectAll(): Promise<void> {
+    this.health.stop();
+
     for (const [id, connector] of this.connectors) {
       try {
         await connector.disconnect();
@@ -172,9 +200,19 @@ export class ConnectorManager {
 }
 
 // Re-export types and individual connectors
-export type { IConnector, ConnectorOptions, ExecuteOptions, SchemaSearchOptions } from './types.js';
+export type {
+  IConnector,
+  ConnectorOptions,
+  ExecuteOptions,
+  ExplainOptions,
+  SchemaSearchOptions,
+  QueryCursor,
+  PoolStats,
+} from './types.js';
+export type { HealthStatus, SourceHealth } from './health.js';
 export { PostgresConnector } from './postgres.js';
 export { MySqlConnector } from './mysql.js';
 export { SqlServerConnector } from './sqlserver.js';
+export { SqliteConnector } from './sqlite.js';
 export { HiveConnector } from './hive.js';
 export { ImpalaConnector } from './impala.js';
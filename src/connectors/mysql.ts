@@ -3,17 +3,126 @@
  */
 
 import mysql from 'mysql2/promise';
+import type { Connection as CallbackConnection } from 'mysql2';
 import { BaseConnector } from './base.js';
-import type { SchemaSearchOptions } from './types.js';
+import { StreamCursor } from './cursor.js';
+import type {
+  DriverCursor,
+  DriverSession,
+  ExplainOptions,
+  PoolStats,
+  SchemaSearchOptions,
+} from './types.js';
 import type { SourceConfig, DsnSourceConfig, HostBasedSourceConfig } from '../config/types.js';
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  ColumnOrigin,
+  ColumnType,
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  TableDescription,
+  KeyDescription,
+  ForeignKeyDescription,
+  IndexDescription,
+  Relationship,
+} from '../utils/formatters.js';
+import { parseMySqlJsonPlan, parseMySqlTreePlan } from '../utils/query-plan.js';
+import { columnType } from '../utils/value-normalizer.js';
 import { ConnectionError, QueryError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import { DEFAULT_PORTS } from '../constants.js';
 
+// How often idle connections are swept, at most
+const MAX_SWEEP_INTERVAL = 60_000;
+
+// SQL type names by protocol type code; BLOB codes also carry TEXT columns
+const MYSQL_TYPE_NAMES: Record<number, string> = {
+  0x00: 'DECIMAL',
+  0x01: 'TINYINT',
+  0x02: 'SMALLINT',
+  0x03: 'INT',
+  0x04: 'FLOAT',
+  0x05: 'DOUBLE',
+  0x06: 'NULL',
+  0x07: 'TIMESTAMP',
+  0x08: 'BIGINT',
+  0x09: 'MEDIUMINT',
+  0x0a: 'DATE',
+  0x0b: 'TIME',
+  0x0c: 'DATETIME',
+  0x0d: 'YEAR',
+  0x0e: 'DATE',
+  0x0f: 'VARCHAR',
+  0x10: 'BIT',
+  0xf5: 'JSON',
+  0xf6: 'DECIMAL',
+  0xf7: 'ENUM',
+  0xf8: 'SET',
+  0xf9: 'TINYBLOB',
+  0xfa: 'MEDIUMBLOB',
+  0xfb: 'LONGBLOB',
+  0xfc: 'BLOB',
+  0xfd: 'VARCHAR',
+  0xfe: 'CHAR',
+  0xff: 'GEOMETRY',
+};
+
+// Character set number of binary strings
+const BINARY_CHARSET = 63;
+
+// Column definition flag of fields that can't be null
+const NOT_NULL_FLAG = 0x01;
+
+/**
+ * Names the SQL type of each field, with its nullability from the field
+ * flags. String and BLOB codes are shared by binary and text types and told
+ * apart by character set.
+ */
+function fieldTypes(fields: mysql.FieldPacket[]): ColumnType[] {
+  return fields.map((field) => {
+    const code = field.columnType ?? field.type;
+    let name = (code !== undefined && MYSQL_TYPE_NAMES[code]) || 'UNKNOWN';
+
+    if (field.characterSet === BINARY_CHARSET) {
+      if (name === 'VARCHAR') name = 'VARBINARY';
+      if (name === 'CHAR') name = 'BINARY';
+    } else if (name.endsWith('BLOB')) {
+      name = name.replace('BLOB', 'TEXT');
+    }
+    const nullable =
+      typeof field.flags === 'number' ? (field.flags & NOT_NULL_FLAG) === 0 : undefined;
+    return columnType(name, nullable);
+  });
+}
+
+/**
+ * Reads the table column behind each field; expressions have no original table
+ */
+function fieldOrigins(fields: mysql.FieldPacket[]): Array<ColumnOrigin | null> {
+  return fields.map((field) =>
+    field.orgTable && field.orgName
+      ? { schema: field.db || undefined, table: field.orgTable, column: field.orgName }
+      : null
+  );
+}
+
+// Connection lists of mysql2's pool, which it does not expose
+interface CorePoolState {
+  _allConnections: { length: number };
+  // Least recently released first
+  _freeConnections: {
+    length: number;
+    get(index: number): { lastActiveTime: number; destroy(): void };
+  };
+  _connectionQueue: { length: number };
+}
+
 export class MySqlConnector extends BaseConnector {
   private pool: mysql.Pool | null = null;
   private isMariaDb: boolean;
+  // When each pooled connection was first checked out, for max_lifetime
+  private readonly connectionCreated = new WeakMap<object, number>();
+  private sweepTimer: NodeJS.Timeout | null = null;
 
   constructor(config: SourceConfig, options: { readonly?: boolean; maxRows?: number } = {}) {
     super(config, options);
@@ -29,21 +138,34 @@ export class MySqlConnector extends BaseConnector {
 
     try {
       const connectionConfig = this.getConnectionConfig();
+      const pool = this.poolOptions;
+      // mysql2 either keeps every idle connection or closes them all, so
+      // sweepIdle() closes those above min instead
       this.pool = mysql.createPool({
         ...connectionConfig,
         waitForConnections: true,
-        connectionLimit: 5,
+        connectionLimit: pool.max,
+        maxIdle: pool.max,
         queueLimit: 0,
         connectTimeout: this.options.connectionTimeout,
       });
 
       // Test the connection
-      const connection = await this.pool.getConnection();
+      const connection = await this.getConnection();
       connection.release();
+      await this.openMinConnections();
+
+      this.sweepTimer = setInterval(
+        () => this.sweepIdle(),
+        Math.min(pool.idleTimeout, MAX_SWEEP_INTERVAL)
+      );
+      this.sweepTimer.unref();
 
       this._isConnected = true;
       logger.info(`Connected to ${this.dbType}: ${this.sourceId}`);
     } catch (error) {
+      await this.pool?.end().catch(() => {});
+      this.pool = null;
       throw new ConnectionError(
         this.sourceId,
         error instanceof Error ? error : new Error(String(error))
@@ -52,6 +174,10 @@ export class MySqlConnector extends BaseConnector {
   }
 
   async disconnect(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -60,51 +186,315 @@ export class MySqlConnector extends BaseConnector {
     }
   }
 
+  override getPoolStats(): PoolStats | null {
+    if (!this.pool) {
+      return null;
+    }
+
+    const state = this.pool.pool as unknown as CorePoolState;
+    const { min, max } = this.poolOptions;
+    return {
+      size: state._allConnections.length,
+      idle: state._freeConnections.length,
+      waiting: state._connectionQueue.length,
+      min,
+      max,
+    };
+  }
+
   protected async executeQuery(
     sql: string,
     params: unknown[] | undefined,
     maxRows: number,
-    timeout: number | undefined
+    _timeout: number | undefined,
+    signal: AbortSignal
   ): Promise<QueryResult> {
     if (!this.pool) {
       throw new QueryError(this.sourceId, sql, new Error('Not connected'));
     }
 
     try {
-      const wrappedSql = this.wrapWithLimit(sql, maxRows + 1);
+      // Check out a dedicated connection so the query can be killed by thread ID
+      const connection = await this.traceAcquire(() => this.getConnection());
+      try {
+        return await this.runQuery(connection, sql, params, maxRows, signal);
+      } finally {
+        connection.release();
+      }
+    } catch (error) {
+      throw new QueryError(
+        this.sourceId,
+        sql,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  protected async createSession(sql: string): Promise<DriverSession> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    const connection = await this.traceAcquire(() => this.getConnection());
+
+    return {
+      execute: async (statement, maxRows, signal) => {
+        try {
+          return await this.runQuery(connection, statement, undefined, maxRows, signal);
+        } catch (error) {
+          throw new QueryError(
+            this.sourceId,
+            statement,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      },
+      release: async (discard) => (discard ? connection.destroy() : connection.release()),
+    };
+  }
+
+  /**
+   * Runs a query on a checked-out connection
+   */
+  private async runQuery(
+    connection: mysql.PoolConnection,
+    sql: string,
+    params: unknown[] | undefined,
+    maxRows: number,
+    signal: AbortSignal
+  ): Promise<QueryResult> {
+    const wrappedSql = this.wrapWithLimit(sql, maxRows + 1);
+    const disposeCancel = this.onAbort(signal, () => this.killQuery(connection.threadId));
 
-      const [rows, fields] = await this.pool.query({
+    let rows: mysql.QueryResult;
+    let fields: mysql.FieldPacket[] | undefined;
+    try {
+      [rows, fields] = await connection.query({
         sql: wrappedSql,
         values: params,
-        timeout,
       });
+    } finally {
+      disposeCancel();
+    }
 
-      if (!Array.isArray(rows)) {
-        // Non-SELECT query (INSERT, UPDATE, etc.)
-        return {
-          columns: ['affectedRows', 'insertId'],
-          rows: [{ affectedRows: (rows as mysql.ResultSetHeader).affectedRows, insertId: (rows as mysql.ResultSetHeader).insertId }],
-          rowCount: (rows as mysql.ResultSetHeader).affectedRows,
-          truncated: false,
-        };
+    if (!Array.isArray(rows)) {
+      // Non-SELECT query (INSERT, UPDATE, etc.)
+      return {
+        columns: ['affectedRows', 'insertId'],
+        rows: [{ affectedRows: (rows as mysql.ResultSetHeader).affectedRows, insertId: (rows as mysql.ResultSetHeader).insertId }],
+        rowCount: (rows as mysql.ResultSetHeader).affectedRows,
+        truncated: false,
+      };
+    }
+
+    const columns = fields ? (fields as mysql.FieldPacket[]).map((f) => f.name) : Object.keys(rows[0] || {});
+    const { rows: formattedRows, truncated } = this.formatRows(rows, maxRows);
+
+    return {
+      columns,
+      rows: formattedRows,
+      rowCount: rows.length,
+      truncated,
+      origins: fields ? fieldOrigins(fields as mysql.FieldPacket[]) : undefined,
+      columnTypes: fields ? fieldTypes(fields as mysql.FieldPacket[]) : undefined,
+    };
+  }
+
+  protected async createCursor(
+    sql: string,
+    params: unknown[] | undefined
+  ): Promise<DriverCursor> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    // Stream rows over a dedicated connection, pausing it between pages
+    const poolConnection = await this.traceAcquire(() => this.getConnection());
+    const connection = poolConnection.connection as unknown as CallbackConnection;
+
+    const cursor = new StreamCursor({
+      pause: () => connection.pause(),
+      resume: () => connection.resume(),
+      // A half-read result cannot be discarded, so drop the connection instead
+      cancel: async () => poolConnection.destroy(),
+      release: () => poolConnection.release(),
+    });
+
+    connection
+      .query({ sql, values: params })
+      .on('fields', (fields: mysql.FieldPacket[]) =>
+        cursor.setColumns(
+          fields.map((f) => f.name),
+          fieldOrigins(fields),
+          fieldTypes(fields)
+        )
+      )
+      .on('result', (row: unknown) => cursor.push(row as Record<string, unknown>))
+      .on('error', (error: Error) => cursor.fail(new QueryError(this.sourceId, sql, error)))
+      .on('end', () => cursor.end());
+
+    return cursor;
+  }
+
+  /**
+   * Opens connections until the pool holds min
+   */
+  private async openMinConnections(): Promise<void> {
+    const state = this.pool!.pool as unknown as CorePoolState;
+    const missing = Math.max(this.poolOptions.min - state._allConnections.length, 0);
+    const connections = await Promise.all(
+      Array.from({ length: missing }, () => this.getConnection())
+    );
+    for (const connection of connections) {
+      connection.release();
+    }
+  }
+
+  /**
+   * Closes connections idle for idle_timeout while the pool holds more than
+   * min, then reopens connections below min
+   */
+  private sweepIdle(): void {
+    if (!this.pool) return;
+
+    const state = this.pool.pool as unknown as CorePoolState;
+    const { min, idleTimeout } = this.poolOptions;
+    const now = Date.now();
+    while (
+      state._allConnections.length > min &&
+      state._freeConnections.length > 0 &&
+      now - state._freeConnections.get(0).lastActiveTime >= idleTimeout
+    ) {
+      // Takes the connection out of both lists
+      state._freeConnections.get(0).destroy();
+    }
+
+    this.openMinConnections().catch((error) =>
+      logger.warn(`Failed to reopen connections on ${this.sourceId}`, error)
+    );
+  }
+
+  /**
+   * Checks out a pooled connection, waiting at most acquire_timeout, and
+   * closes connections older than max_lifetime instead of reusing them
+   */
+  private async getConnection(): Promise<mysql.PoolConnection> {
+    const { max, acquireTimeout, maxLifetime } = this.poolOptions;
+
+    for (;;) {
+      const pending = this.pool!.getConnection();
+      let connection: mysql.PoolConnection;
+
+      if (acquireTimeout) {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `Timed out after ${acquireTimeout}ms waiting for a connection on ${this.sourceId} (pool max ${max})`
+                )
+              ),
+            acquireTimeout
+          );
+        });
+
+        try {
+          connection = await Promise.race([pending, timeout]);
+        } catch (error) {
+          // Hand back the connection if it arrives after all
+          pending.then((late) => late.release(), () => {});
+          throw error;
+        } finally {
+          clearTimeout(timer);
+        }
+      } else {
+        connection = await pending;
       }
 
-      const columns = fields ? (fields as mysql.FieldPacket[]).map((f) => f.name) : Object.keys(rows[0] || {});
-      const { rows: formattedRows, truncated } = this.formatRows(rows, maxRows);
+      const core = connection.connection;
+      let created = this.connectionCreated.get(core);
+      if (created === undefined) {
+        // Sessions of read-only sources only run read-only transactions, so
+        // writes the SQL classifier misses still fail in the database
+        if (this.options.readonly) {
+          try {
+            await connection.query('SET SESSION TRANSACTION READ ONLY');
+          } catch (error) {
+            connection.destroy();
+            throw error;
+          }
+        }
+        created = Date.now();
+        this.connectionCreated.set(core, created);
+      }
 
-      return {
-        columns,
-        rows: formattedRows,
-        rowCount: rows.length,
-        truncated,
-      };
-    } catch (error) {
-      throw new QueryError(
-        this.sourceId,
-        sql,
-        error instanceof Error ? error : new Error(String(error))
-      );
+      if (maxLifetime === undefined || Date.now() - created < maxLifetime) {
+        return connection;
+      }
+      connection.destroy();
+    }
+  }
+
+  /**
+   * Runs a query on a pooled connection checked out by getConnection()
+   */
+  private async query(
+    sql: string,
+    values?: unknown[]
+  ): Promise<[mysql.QueryResult, mysql.FieldPacket[]]> {
+    const connection = await this.traceAcquire(() => this.getConnection());
+    try {
+      return await connection.query(sql, values);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Kills a running query using a separate connection, as the pool may be exhausted
+   */
+  private async killQuery(threadId: number): Promise<void> {
+    const connection = await mysql.createConnection(this.getConnectionConfig());
+    try {
+      await connection.query('KILL QUERY ?', [threadId]);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  protected async explainQuery(sql: string, options: ExplainOptions): Promise<PlanNode> {
+    // MySQL only reports actual statistics as a text tree; MariaDB reports them as JSON
+    let explainSql = `EXPLAIN FORMAT=JSON ${sql}`;
+    if (options.analyze) {
+      explainSql = this.isMariaDb ? `ANALYZE FORMAT=JSON ${sql}` : `EXPLAIN ANALYZE ${sql}`;
+    }
+
+    const result = await this.execute(explainSql, {
+      params: options.params,
+      timeout: options.timeout,
+    });
+    const plan = result.rows[0]?.[result.columns[0]];
+
+    return options.analyze && !this.isMariaDb
+      ? parseMySqlTreePlan(String(plan ?? ''))
+      : parseMySqlJsonPlan(plan);
+  }
+
+  async findTables(name: string): Promise<string[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
     }
+
+    // Views are listed in TABLES too
+    const [rows] = await this.query(
+      `SELECT DISTINCT TABLE_SCHEMA
+       FROM information_schema.TABLES
+       WHERE LOWER(TABLE_NAME) = LOWER(?)`,
+      [name]
+    );
+
+    return (rows as Record<string, unknown>[]).map((row) => row.TABLE_SCHEMA as string);
   }
 
   async searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]> {
@@ -117,7 +507,7 @@ export class MySqlConnector extends BaseConnector {
 
     // Search schemas (databases in MySQL)
     if (!options?.objectType || options.objectType === 'schema') {
-      const [rows] = await this.pool.query(
+      const [rows] = await this.query(
         `SELECT SCHEMA_NAME
          FROM information_schema.SCHEMATA
          WHERE SCHEMA_NAME NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')
@@ -152,7 +542,7 @@ export class MySqlConnector extends BaseConnector {
 
       query += ' ORDER BY TABLE_SCHEMA, TABLE_NAME LIMIT 100';
 
-      const [rows] = await this.pool.query(query, params);
+      const [rows] = await this.query(query, params);
 
       for (const row of rows as Record<string, unknown>[]) {
         objects.push({
@@ -180,7 +570,7 @@ export class MySqlConnector extends BaseConnector {
 
       query += ' ORDER BY ORDINAL_POSITION';
 
-      const [rows] = await this.pool.query(query, params);
+      const [rows] = await this.query(query, params);
 
       for (const row of rows as Record<string, unknown>[]) {
         objects.push({
@@ -217,7 +607,7 @@ export class MySqlConnector extends BaseConnector {
 
       query += ' GROUP BY TABLE_SCHEMA, TABLE_NAME, INDEX_NAME ORDER BY TABLE_SCHEMA, TABLE_NAME, INDEX_NAME LIMIT 100';
 
-      const [rows] = await this.pool.query(query, params);
+      const [rows] = await this.query(query, params);
 
       for (const row of rows as Record<string, unknown>[]) {
         objects.push({
@@ -246,7 +636,7 @@ export class MySqlConnector extends BaseConnector {
 
       query += ' ORDER BY ROUTINE_SCHEMA, ROUTINE_NAME LIMIT 100';
 
-      const [rows] = await this.pool.query(query, params);
+      const [rows] = await this.query(query, params);
 
       for (const row of rows as Record<string, unknown>[]) {
         objects.push({
@@ -260,6 +650,186 @@ export class MySqlConnector extends BaseConnector {
     return objects;
   }
 
+  async describeTable(table: string, schema?: string): Promise<TableDescription> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    // Without a schema, use the connection's default database
+    const [tableRows] = await this.query(
+      `SELECT TABLE_SCHEMA, TABLE_COMMENT, TABLE_ROWS, DATA_LENGTH + INDEX_LENGTH AS SIZE_BYTES
+       FROM information_schema.TABLES
+       WHERE TABLE_NAME = ? AND TABLE_SCHEMA = COALESCE(?, DATABASE())`,
+      [table, schema ?? null]
+    );
+
+    const tableRow = (tableRows as Record<string, unknown>[])[0];
+    if (!tableRow) {
+      throw new Error(`Table not found: ${schema ? `${schema}.${table}` : table}`);
+    }
+
+    const database = tableRow.TABLE_SCHEMA as string;
+
+    const [columnRows] = await this.query(
+      `SELECT COLUMN_NAME, COLUMN_TYPE, IS_NULLABLE, COLUMN_DEFAULT, COLUMN_COMMENT
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+       ORDER BY ORDINAL_POSITION`,
+      [database, table]
+    );
+
+    const [keyRows] = await this.query(
+      `SELECT tc.CONSTRAINT_NAME, tc.CONSTRAINT_TYPE, kcu.COLUMN_NAME,
+              kcu.REFERENCED_TABLE_SCHEMA, kcu.REFERENCED_TABLE_NAME, kcu.REFERENCED_COLUMN_NAME
+       FROM information_schema.TABLE_CONSTRAINTS tc
+       JOIN information_schema.KEY_COLUMN_USAGE kcu
+         ON kcu.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+         AND kcu.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+         AND kcu.TABLE_NAME = tc.TABLE_NAME
+       WHERE tc.TABLE_SCHEMA = ? AND tc.TABLE_NAME = ?
+       AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')
+       ORDER BY tc.CONSTRAINT_NAME, kcu.ORDINAL_POSITION`,
+      [database, table]
+    );
+
+    // Functional index parts have no COLUMN_NAME and are skipped
+    const [indexRows] = await this.query(
+      `SELECT INDEX_NAME, NON_UNIQUE, COLUMN_NAME
+       FROM information_schema.STATISTICS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND COLUMN_NAME IS NOT NULL
+       ORDER BY INDEX_NAME, SEQ_IN_INDEX`,
+      [database, table]
+    );
+
+    let checkRows: unknown = [];
+    try {
+      [checkRows] = await this.query(
+        `SELECT cc.CONSTRAINT_NAME, cc.CHECK_CLAUSE
+         FROM information_schema.CHECK_CONSTRAINTS cc
+         JOIN information_schema.TABLE_CONSTRAINTS tc
+           ON tc.CONSTRAINT_SCHEMA = cc.CONSTRAINT_SCHEMA
+           AND tc.CONSTRAINT_NAME = cc.CONSTRAINT_NAME
+         WHERE tc.TABLE_SCHEMA = ? AND tc.TABLE_NAME = ? AND tc.CONSTRAINT_TYPE = 'CHECK'
+         ORDER BY cc.CONSTRAINT_NAME`,
+        [database, table]
+      );
+    } catch (error) {
+      // CHECK_CONSTRAINTS requires MySQL 8.0.16 or MariaDB 10.2
+      logger.debug(`Check constraints unavailable on ${this.sourceId}`, error);
+    }
+
+    const description: TableDescription = {
+      name: table,
+      schema: database,
+      comment: (tableRow.TABLE_COMMENT as string) || undefined,
+      columns: (columnRows as Record<string, unknown>[]).map((row) => ({
+        name: row.COLUMN_NAME as string,
+        dataType: row.COLUMN_TYPE as string,
+        nullable: row.IS_NULLABLE === 'YES',
+        defaultValue: row.COLUMN_DEFAULT === null ? undefined : String(row.COLUMN_DEFAULT),
+        comment: (row.COLUMN_COMMENT as string) || undefined,
+      })),
+      uniqueConstraints: [],
+      foreignKeys: [],
+      indexes: [],
+      checkConstraints: (checkRows as Record<string, unknown>[]).map((row) => ({
+        name: row.CONSTRAINT_NAME as string,
+        definition: row.CHECK_CLAUSE as string,
+      })),
+      // TABLE_ROWS is an InnoDB estimate
+      approximateRowCount:
+        tableRow.TABLE_ROWS === null ? undefined : Number(tableRow.TABLE_ROWS),
+      sizeBytes: tableRow.SIZE_BYTES === null ? undefined : Number(tableRow.SIZE_BYTES),
+    };
+
+    // Key columns arrive one row per column, ordered within each constraint
+    const foreignKeys = new Map<string, ForeignKeyDescription>();
+    const uniqueKeys = new Map<string, KeyDescription>();
+
+    for (const row of keyRows as Record<string, unknown>[]) {
+      const name = row.CONSTRAINT_NAME as string;
+      const column = row.COLUMN_NAME as string;
+
+      if (row.CONSTRAINT_TYPE === 'PRIMARY KEY') {
+        description.primaryKey ??= { name, columns: [] };
+        description.primaryKey.columns.push(column);
+      } else if (row.CONSTRAINT_TYPE === 'UNIQUE') {
+        const key = uniqueKeys.get(name) ?? { name, columns: [] };
+        key.columns.push(column);
+        uniqueKeys.set(name, key);
+      } else {
+        const key = foreignKeys.get(name) ?? {
+          name,
+          columns: [],
+          referencedSchema: row.REFERENCED_TABLE_SCHEMA as string,
+          referencedTable: row.REFERENCED_TABLE_NAME as string,
+          referencedColumns: [],
+        };
+        key.columns.push(column);
+        key.referencedColumns.push(row.REFERENCED_COLUMN_NAME as string);
+        foreignKeys.set(name, key);
+      }
+    }
+
+    const indexes = new Map<string, IndexDescription>();
+    for (const row of indexRows as Record<string, unknown>[]) {
+      const name = row.INDEX_NAME as string;
+      const index = indexes.get(name) ?? { name, columns: [], unique: Number(row.NON_UNIQUE) === 0 };
+      index.columns.push(row.COLUMN_NAME as string);
+      indexes.set(name, index);
+    }
+
+    description.uniqueConstraints = Array.from(uniqueKeys.values());
+    description.foreignKeys = Array.from(foreignKeys.values());
+    description.indexes = Array.from(indexes.values());
+
+    return description;
+  }
+
+  async getRelationships(schema?: string): Promise<Relationship[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    let query = `
+      SELECT CONSTRAINT_NAME, TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME,
+             REFERENCED_TABLE_SCHEMA, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME
+      FROM information_schema.KEY_COLUMN_USAGE
+      WHERE REFERENCED_TABLE_NAME IS NOT NULL
+      AND TABLE_SCHEMA NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')
+    `;
+    const params: string[] = [];
+
+    if (schema) {
+      query += ' AND (TABLE_SCHEMA = ? OR REFERENCED_TABLE_SCHEMA = ?)';
+      params.push(schema, schema);
+    }
+
+    query += ' ORDER BY TABLE_SCHEMA, TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION';
+
+    const [rows] = await this.query(query, params);
+
+    // Key columns arrive one row per column, ordered within each constraint
+    const relationships = new Map<string, Relationship>();
+    for (const row of rows as Record<string, unknown>[]) {
+      const key = `${row.TABLE_SCHEMA}.${row.TABLE_NAME}.${row.CONSTRAINT_NAME}`;
+      const relationship = relationships.get(key) ?? {
+        name: row.CONSTRAINT_NAME as string,
+        schema: row.TABLE_SCHEMA as string,
+        table: row.TABLE_NAME as string,
+        columns: [],
+        referencedSchema: row.REFERENCED_TABLE_SCHEMA as string,
+        referencedTable: row.REFERENCED_TABLE_NAME as string,
+        referencedColumns: [],
+      };
+      relationship.columns.push(row.COLUMN_NAME as string);
+      relationship.referencedColumns.push(row.REFERENCED_COLUMN_NAME as string);
+      relationships.set(key, relationship);
+    }
+
+    return Array.from(relationships.values());
+  }
+
   private getConnectionConfig(): mysql.PoolOptions {
     const config = this.config;
 
@@ -0,0 +1,249 @@
+/**
+ * Session pool for connectors whose driver has no pool of its own
+ */
+
+import type { PoolOptions, PoolStats } from './types.js';
+import { logger } from '../utils/logger.js';
+
+// How often idle and expired sessions are swept, at most
+const MAX_SWEEP_INTERVAL = 60_000;
+
+export interface SessionFactory<T> {
+  create(): Promise<T>;
+  destroy(session: T): Promise<void>;
+}
+
+interface PooledSession<T> {
+  session: T;
+  createdAt: number;
+  idleSince: number;
+}
+
+interface Waiter<T> {
+  resolve: (session: T) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Hands out sessions for exclusive use, creating them up to max. Callers
+ * beyond max wait in order, for at most acquireTimeout. fill() opens min
+ * sessions, and closed ones are replaced to keep min open. Idle sessions
+ * above min close after idleTimeout; sessions older than maxLifetime close
+ * when next released or found idle.
+ */
+export class SessionPool<T> {
+  // Most recently released last, so reuse keeps the same sessions warm
+  private idle: PooledSession<T>[] = [];
+  private readonly borrowed = new Map<T, PooledSession<T>>();
+  private readonly waiters: Waiter<T>[] = [];
+  private creating = 0;
+  private closed = false;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    private readonly sourceId: string,
+    private readonly factory: SessionFactory<T>,
+    private readonly options: PoolOptions
+  ) {
+    this.sweepTimer = setInterval(
+      () => this.sweep(),
+      Math.min(options.idleTimeout, options.maxLifetime ?? Infinity, MAX_SWEEP_INTERVAL)
+    );
+    this.sweepTimer.unref();
+  }
+
+  get stats(): PoolStats {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      waiting: this.waiters.length,
+      min: this.options.min,
+      max: this.options.max,
+    };
+  }
+
+  async acquire(): Promise<T> {
+    if (this.closed) {
+      throw new Error('Session pool is closed');
+    }
+
+    let entry: PooledSession<T> | undefined;
+    while ((entry = this.idle.pop())) {
+      if (this.isExpired(entry)) {
+        void this.destroy(entry);
+        continue;
+      }
+      this.borrowed.set(entry.session, entry);
+      return entry.session;
+    }
+
+    if (this.size < this.options.max) {
+      return this.create();
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const waiter: Waiter<T> = { resolve, reject };
+      const { acquireTimeout } = this.options;
+
+      if (acquireTimeout) {
+        waiter.timer = setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          reject(
+            new Error(
+              `Timed out after ${acquireTimeout}ms waiting for a session on ${this.sourceId} (pool max ${this.options.max})`
+            )
+          );
+        }, acquireTimeout);
+      }
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Returns a session to the pool. Discarded sessions are closed, e.g. after
+   * their connection failed.
+   */
+  release(session: T, discard = false): void {
+    const entry = this.borrowed.get(session);
+    if (!entry) return;
+    this.borrowed.delete(session);
+
+    if (this.closed || discard || this.isExpired(entry)) {
+      void this.destroy(entry);
+      this.replenish();
+      return;
+    }
+
+    this.checkIn(entry);
+  }
+
+  /**
+   * Opens sessions until min are open
+   */
+  async fill(): Promise<void> {
+    const missing = Math.max(this.options.min - this.size, 0);
+    await Promise.all(
+      Array.from({ length: missing }, async () => {
+        const entry = await this.open();
+        if (this.closed) {
+          await this.destroy(entry);
+        } else {
+          this.checkIn(entry);
+        }
+      })
+    );
+  }
+
+  /**
+   * Closes every session, including borrowed ones, and fails waiting callers
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.sweepTimer);
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Session pool is closed'));
+    }
+
+    const entries = [...this.idle, ...this.borrowed.values()];
+    this.idle = [];
+    this.borrowed.clear();
+    await Promise.all(entries.map((entry) => this.destroy(entry)));
+  }
+
+  private get size(): number {
+    return this.idle.length + this.borrowed.size + this.creating;
+  }
+
+  private async open(): Promise<PooledSession<T>> {
+    this.creating++;
+    try {
+      const session = await this.factory.create();
+      const now = Date.now();
+      return { session, createdAt: now, idleSince: now };
+    } finally {
+      this.creating--;
+    }
+  }
+
+  private async create(): Promise<T> {
+    const entry = await this.open();
+    this.borrowed.set(entry.session, entry);
+    return entry.session;
+  }
+
+  /**
+   * Hands a session to the next waiter, or keeps it idle
+   */
+  private checkIn(entry: PooledSession<T>): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.borrowed.set(entry.session, entry);
+      waiter.resolve(entry.session);
+      return;
+    }
+
+    entry.idleSince = Date.now();
+    this.idle.push(entry);
+  }
+
+  /**
+   * Opens a session for the next waiter once a closed one frees capacity,
+   * or reopens sessions below min
+   */
+  private replenish(): void {
+    if (this.closed || this.size >= this.options.max) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (!waiter) {
+      this.fill().catch((error) =>
+        logger.warn(`Failed to reopen sessions on ${this.sourceId}`, error)
+      );
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    this.create().then(waiter.resolve, waiter.reject);
+  }
+
+  private isExpired(entry: PooledSession<T>): boolean {
+    const { maxLifetime } = this.options;
+    return maxLifetime !== undefined && Date.now() - entry.createdAt >= maxLifetime;
+  }
+
+  private async destroy(entry: PooledSession<T>): Promise<void> {
+    try {
+      await this.factory.destroy(entry.session);
+    } catch (error) {
+      logger.warn(`Failed to close session on ${this.sourceId}`, error);
+    }
+  }
+
+  /**
+   * Closes expired sessions and idle sessions above min, then reopens
+   * sessions below min
+   */
+  private sweep(): void {
+    const now = Date.now();
+    let keep = this.idle.length + this.borrowed.size;
+
+    // Oldest idle sessions first
+    this.idle = this.idle.filter((entry) => {
+      const idleTooLong = now - entry.idleSince >= this.options.idleTimeout;
+      if (this.isExpired(entry) || (idleTooLong && keep > this.options.min)) {
+        keep--;
+        void this.destroy(entry);
+        return false;
+      }
+      return true;
+    });
+
+    this.replenish();
+  }
+}
@@ -3,18 +3,42 @@
  */
 
 import pg from 'pg';
+import Cursor from 'pg-cursor';
 import { BaseConnector } from './base.js';
-import type { SchemaSearchOptions } from './types.js';
+import type {
+  DriverCursor,
+  DriverSession,
+  ExplainOptions,
+  PoolStats,
+  SchemaSearchOptions,
+} from './types.js';
 import type { SourceConfig, DsnSourceConfig, HostBasedSourceConfig } from '../config/types.js';
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  ColumnOrigin,
+  ColumnType,
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  TableDescription,
+  Relationship,
+} from '../utils/formatters.js';
+import { parsePostgresPlan } from '../utils/query-plan.js';
+import { columnType } from '../utils/value-normalizer.js';
 import { ConnectionError, QueryError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import { DEFAULT_PORTS } from '../constants.js';
 
 const { Pool } = pg;
 
+// Names of built-in types by OID; other types are looked up in pg_type
+const BUILTIN_TYPE_NAMES = new Map<number, string>(
+  Object.entries(pg.types.builtins).map(([name, oid]) => [oid, name.toLowerCase()])
+);
+
 export class PostgresConnector extends BaseConnector {
   private pool: pg.Pool | null = null;
+  // Names of non-built-in types by OID, filled as results use them
+  private readonly typeNames = new Map<number, string>();
 
   get dbType(): string {
     return 'postgres';
@@ -25,16 +49,24 @@ export class PostgresConnector extends BaseConnector {
 
     try {
       const connectionConfig = this.getConnectionConfig();
+      const pool = this.poolOptions;
       this.pool = new Pool({
         ...connectionConfig,
-        max: 5,
-        idleTimeoutMillis: 30000,
-        connectionTimeoutMillis: this.options.connectionTimeout,
+        min: pool.min,
+        max: pool.max,
+        idleTimeoutMillis: pool.idleTimeout,
+        // pg applies one timeout to both opening a connection and waiting for one
+        connectionTimeoutMillis: pool.acquireTimeout ?? this.options.connectionTimeout,
+        maxLifetimeSeconds: pool.maxLifetime ? Math.ceil(pool.maxLifetime / 1000) : undefined,
       });
 
-      // Test the connection
-      const client = await this.pool.connect();
-      client.release();
+      // Test the connection and open min connections, which pg only keeps open
+      const clients = await Promise.all(
+        Array.from({ length: Math.max(pool.min, 1) }, () => this.pool!.connect())
+      );
+      for (const client of clients) {
+        client.release();
+      }
 
       this._isConnected = true;
       logger.info(`Connected to PostgreSQL: ${this.sourceId}`);
@@ -55,30 +87,40 @@ export class PostgresConnector extends BaseConnector {
     }
   }
 
+  override getPoolStats(): PoolStats | null {
+    if (!this.pool) {
+      return null;
+    }
+
+    const { min, max } = this.poolOptions;
+    return {
+      size: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+      min,
+      max,
+    };
+  }
+
   protected async executeQuery(
     sql: string,
     params: unknown[] | undefined,
     maxRows: number,
-    _timeout: number | undefined
+    _timeout: number | undefined,
+    signal: AbortSignal
   ): Promise<QueryResult> {
     if (!this.pool) {
       throw new QueryError(this.sourceId, sql, new Error('Not connected'));
     }
 
     try {
-      const wrappedSql = this.wrapWithLimit(sql, maxRows + 1);
-
-      const result = await this.pool.query(wrappedSql, params);
-
-      const columns = result.fields?.map((f: pg.FieldDef) => f.name) ?? [];
-      const { rows, truncated } = this.formatRows(result.rows, maxRows);
-
-      return {
-        columns,
-        rows,
-        rowCount: result.rowCount ?? rows.length,
-        truncated,
-      };
+      // Check out a dedicated client so the backend can be cancelled by PID
+      const client = await this.traceAcquire(() => this.pool!.connect());
+      try {
+        return await this.runQuery(client, sql, params, maxRows, signal);
+      } finally {
+        client.release();
+      }
     } catch (error) {
       throw new QueryError(
         this.sourceId,
@@ -88,6 +130,255 @@ export class PostgresConnector extends BaseConnector {
     }
   }
 
+  protected async createSession(sql: string): Promise<DriverSession> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    const client = await this.traceAcquire(() => this.pool!.connect());
+
+    return {
+      execute: async (statement, maxRows, signal) => {
+        try {
+          return await this.runQuery(client, statement, undefined, maxRows, signal);
+        } catch (error) {
+          throw new QueryError(
+            this.sourceId,
+            statement,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      },
+      release: async (discard) => client.release(discard),
+    };
+  }
+
+  /**
+   * Runs a query on a checked-out client. Field origins and types are looked
+   * up on the same client, so a session holding the pool's last client
+   * doesn't wait on itself.
+   */
+  private async runQuery(
+    client: pg.PoolClient,
+    sql: string,
+    params: unknown[] | undefined,
+    maxRows: number,
+    signal: AbortSignal
+  ): Promise<QueryResult> {
+    const wrappedSql = this.wrapWithLimit(sql, maxRows + 1);
+    const processId = (client as pg.PoolClient & { processID?: number }).processID;
+    const disposeCancel = this.onAbort(signal, () => this.cancelBackend(processId));
+
+    let result: pg.QueryResult;
+    try {
+      result = await client.query(wrappedSql, params);
+    } finally {
+      disposeCancel();
+    }
+
+    const columns = result.fields?.map((f: pg.FieldDef) => f.name) ?? [];
+    const { rows, truncated } = this.formatRows(result.rows, maxRows);
+
+    return {
+      columns,
+      rows,
+      rowCount: result.rowCount ?? rows.length,
+      truncated,
+      origins: await this.fieldOrigins(client, result.fields ?? []),
+      columnTypes: await this.fieldTypes(client, result.fields ?? []),
+    };
+  }
+
+  protected async createCursor(
+    sql: string,
+    params: unknown[] | undefined
+  ): Promise<DriverCursor> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    // The cursor holds its client until closed
+    const pool = this.pool;
+    const client = await this.traceAcquire(() => pool.connect());
+    const processId = (client as pg.PoolClient & { processID?: number }).processID;
+    const cursor = client.query(new Cursor(sql, params));
+    let columns: string[] = [];
+    let origins: Array<ColumnOrigin | null> | undefined;
+    let columnTypes: ColumnType[] | undefined;
+    let fields: pg.FieldDef[] = [];
+    let failed = false;
+
+    return {
+      get columns() {
+        return columns;
+      },
+      get origins() {
+        return origins;
+      },
+      get columnTypes() {
+        return columnTypes;
+      },
+      read: async (count, signal) => {
+        const disposeCancel = this.onAbort(signal, () => this.cancelBackend(processId));
+        let rows: Record<string, unknown>[];
+        try {
+          rows = await new Promise<Record<string, unknown>[]>((resolve, reject) => {
+            cursor.read(count, (error, rows, result) => {
+              if (error) {
+                failed = true;
+                reject(new QueryError(this.sourceId, sql, error));
+                return;
+              }
+              fields = result.fields ?? fields;
+              columns = fields.map((f: pg.FieldDef) => f.name);
+              resolve(rows);
+            });
+          });
+        } finally {
+          disposeCancel();
+        }
+
+        // Looked up once the first page has described the fields, through
+        // the pool as this client is busy with the cursor
+        origins ??= await this.fieldOrigins(pool, fields);
+        columnTypes ??= await this.fieldTypes(pool, fields);
+        return rows;
+      },
+      close: async () => {
+        // A failed portal is already closed; discard the client rather than reuse it
+        if (failed) {
+          client.release(true);
+          return;
+        }
+        try {
+          await cursor.close();
+        } finally {
+          client.release();
+        }
+      },
+    };
+  }
+
+  /**
+   * Looks up the table column behind each field. The protocol only carries
+   * table OIDs and column numbers, so this costs a catalog query and only
+   * runs for sources that track origins.
+   */
+  private async fieldOrigins(
+    db: pg.Pool | pg.PoolClient,
+    fields: pg.FieldDef[]
+  ): Promise<Array<ColumnOrigin | null> | undefined> {
+    if (!this.tracksColumnOrigins) {
+      return undefined;
+    }
+
+    // Expressions have table OID 0
+    const tableIds = [...new Set(fields.map((f) => f.tableID).filter((id) => id !== 0))];
+    if (tableIds.length === 0) {
+      return fields.map(() => null);
+    }
+
+    const result = await db.query(
+      `
+      SELECT a.attrelid::int8 AS table_id, a.attnum AS column_id,
+             n.nspname AS schema_name, c.relname AS table_name, a.attname AS column_name
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE a.attrelid = ANY($1::oid[]) AND a.attnum > 0
+      `,
+      [tableIds]
+    );
+
+    const columns = new Map<string, ColumnOrigin>(
+      result.rows.map((row) => [
+        `${row.table_id}.${row.column_id}`,
+        { schema: row.schema_name, table: row.table_name, column: row.column_name },
+      ])
+    );
+    return fields.map((f) => columns.get(`${f.tableID}.${f.columnID}`) ?? null);
+  }
+
+  /**
+   * Names the type of each field. Built-in types are known up front; arrays,
+   * enums, domains and extension types are looked up once per OID.
+   */
+  private async fieldTypes(
+    db: pg.Pool | pg.PoolClient,
+    fields: pg.FieldDef[]
+  ): Promise<ColumnType[]> {
+    const unknown = [...new Set(fields.map((f) => f.dataTypeID))].filter(
+      (oid) => !BUILTIN_TYPE_NAMES.has(oid) && !this.typeNames.has(oid)
+    );
+
+    if (unknown.length > 0) {
+      const result = await db.query(
+        `
+        SELECT t.oid::int8 AS oid,
+               CASE WHEN t.typcategory = 'A' AND e.typname IS NOT NULL
+                    THEN e.typname || '[]' ELSE t.typname END AS type_name
+        FROM pg_type t
+        LEFT JOIN pg_type e ON e.oid = t.typelem
+        WHERE t.oid = ANY($1::oid[])
+        `,
+        [unknown]
+      );
+      for (const row of result.rows) {
+        this.typeNames.set(Number(row.oid), row.type_name);
+      }
+    }
+
+    return fields.map((f) =>
+      columnType(
+        BUILTIN_TYPE_NAMES.get(f.dataTypeID) ?? this.typeNames.get(f.dataTypeID) ?? String(f.dataTypeID)
+      )
+    );
+  }
+
+  /**
+   * Cancels a running query using a separate connection, as the pool may be exhausted
+   */
+  private async cancelBackend(processId: number | undefined): Promise<void> {
+    if (processId === undefined) {
+      throw new Error('Backend process ID is unknown');
+    }
+
+    const client = new pg.Client(this.getConnectionConfig());
+    await client.connect();
+    try {
+      await client.query('SELECT pg_cancel_backend($1)', [processId]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  protected async explainQuery(sql: string, options: ExplainOptions): Promise<PlanNode> {
+    const result = await this.execute(
+      `EXPLAIN (FORMAT JSON${options.analyze ? ', ANALYZE' : ''}) ${sql}`,
+      { params: options.params, timeout: options.timeout }
+    );
+
+    return parsePostgresPlan(result.rows[0]?.['QUERY PLAN']);
+  }
+
+  async findTables(name: string): Promise<string[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    // Tables, partitioned tables, views, materialized views and foreign tables
+    const result = await this.pool.query(
+      `SELECT DISTINCT n.nspname AS table_schema
+       FROM pg_catalog.pg_class c
+       JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+       AND lower(c.relname) = lower($1)`,
+      [name]
+    );
+
+    return result.rows.map((row) => row.table_schema);
+  }
+
   async searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]> {
     if (!this.pool) {
       throw new Error('Not connected');
@@ -253,11 +544,171 @@ export class PostgresConnector extends BaseConnector {
     return objects;
   }
 
+  async describeTable(table: string, schema?: string): Promise<TableDescription> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    // Without a schema, resolve the table through the search_path
+    const tableResult = await this.pool.query(
+      `SELECT c.oid, n.nspname AS schema_name, obj_description(c.oid, 'pg_class') AS comment,
+              c.reltuples::bigint AS row_estimate, pg_total_relation_size(c.oid) AS size_bytes
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relname = $1
+       AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+       AND (n.nspname = $2 OR ($2 IS NULL AND pg_table_is_visible(c.oid)))
+       LIMIT 1`,
+      [table, schema ?? null]
+    );
+
+    const tableRow = tableResult.rows[0];
+    if (!tableRow) {
+      throw new Error(`Table not found: ${schema ? `${schema}.${table}` : table}`);
+    }
+
+    const oid = tableRow.oid;
+
+    const columnsResult = await this.pool.query(
+      `SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS data_type,
+              NOT a.attnotnull AS nullable, pg_get_expr(d.adbin, d.adrelid) AS default_value,
+              col_description(a.attrelid, a.attnum) AS comment
+       FROM pg_attribute a
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [oid]
+    );
+
+    const constraintsResult = await this.pool.query(
+      `SELECT con.conname AS name, con.contype AS type,
+              ARRAY(SELECT a.attname::text
+                    FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord) AS columns,
+              rn.nspname AS referenced_schema, rc.relname AS referenced_table,
+              ARRAY(SELECT a.attname::text
+                    FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord) AS referenced_columns,
+              pg_get_constraintdef(con.oid) AS definition
+       FROM pg_constraint con
+       LEFT JOIN pg_class rc ON rc.oid = con.confrelid
+       LEFT JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+       WHERE con.conrelid = $1 AND con.contype IN ('p', 'u', 'f', 'c')
+       ORDER BY con.conname`,
+      [oid]
+    );
+
+    const indexesResult = await this.pool.query(
+      `SELECT i.relname AS name, ix.indisunique AS is_unique,
+              ARRAY(SELECT pg_get_indexdef(ix.indexrelid, k, true)
+                    FROM generate_series(1, ix.indnatts) AS k) AS columns
+       FROM pg_index ix
+       JOIN pg_class i ON i.oid = ix.indexrelid
+       WHERE ix.indrelid = $1
+       ORDER BY i.relname`,
+      [oid]
+    );
+
+    const description: TableDescription = {
+      name: table,
+      schema: tableRow.schema_name,
+      comment: tableRow.comment ?? undefined,
+      columns: columnsResult.rows.map((row) => ({
+        name: row.name,
+        dataType: row.data_type,
+        nullable: row.nullable,
+        defaultValue: row.default_value ?? undefined,
+        comment: row.comment ?? undefined,
+      })),
+      uniqueConstraints: [],
+      foreignKeys: [],
+      indexes: indexesResult.rows.map((row) => ({
+        name: row.name,
+        columns: row.columns,
+        unique: row.is_unique,
+      })),
+      checkConstraints: [],
+      // reltuples is -1 (or 0 before PostgreSQL 14) until the table is analyzed
+      approximateRowCount: Number(tableRow.row_estimate) >= 0 ? Number(tableRow.row_estimate) : undefined,
+      sizeBytes: Number(tableRow.size_bytes),
+    };
+
+    for (const row of constraintsResult.rows) {
+      switch (row.type) {
+        case 'p':
+          description.primaryKey = { name: row.name, columns: row.columns };
+          break;
+        case 'u':
+          description.uniqueConstraints.push({ name: row.name, columns: row.columns });
+          break;
+        case 'f':
+          description.foreignKeys.push({
+            name: row.name,
+            columns: row.columns,
+            referencedSchema: row.referenced_schema,
+            referencedTable: row.referenced_table,
+            referencedColumns: row.referenced_columns,
+          });
+          break;
+        case 'c':
+          description.checkConstraints.push({ name: row.name, definition: row.definition });
+          break;
+      }
+    }
+
+    return description;
+  }
+
+  async getRelationships(schema?: string): Promise<Relationship[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    const result = await this.pool.query(
+      `SELECT con.conname AS name, n.nspname AS schema_name, c.relname AS table_name,
+              ARRAY(SELECT a.attname::text
+                    FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord) AS columns,
+              rn.nspname AS referenced_schema, rc.relname AS referenced_table,
+              ARRAY(SELECT a.attname::text
+                    FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord) AS referenced_columns
+       FROM pg_constraint con
+       JOIN pg_class c ON c.oid = con.conrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_class rc ON rc.oid = con.confrelid
+       JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+       WHERE con.contype = 'f'
+       AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+       AND ($1::text IS NULL OR n.nspname = $1 OR rn.nspname = $1)
+       ORDER BY n.nspname, c.relname, con.conname`,
+      [schema ?? null]
+    );
+
+    return result.rows.map((row) => ({
+      name: row.name,
+      schema: row.schema_name,
+      table: row.table_name,
+      columns: row.columns,
+      referencedSchema: row.referenced_schema,
+      referencedTable: row.referenced_table,
+      referencedColumns: row.referenced_columns,
+    }));
+  }
+
   private getConnectionConfig(): pg.PoolConfig {
     const config = this.config;
 
+    // Sessions of read-only sources start read-only transactions, so writes
+    // the SQL classifier misses still fail in the database
+    const options = this.options.readonly ? '-c default_transaction_read_only=on' : undefined;
+
     if ('dsn' in config) {
-      return { connectionString: (config as DsnSourceConfig).dsn };
+      return { connectionString: (config as DsnSourceConfig).dsn, options };
     }
 
     const hostConfig = config as HostBasedSourceConfig;
@@ -268,6 +719,7 @@ export class PostgresConnector extends BaseConnector {
       user: hostConfig.user,
       password: hostConfig.password,
       ssl: hostConfig.ssl ? { rejectUnauthorized: false } : undefined,
+      options,
     };
   }
 }
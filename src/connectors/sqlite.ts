@@ -0,0 +1,649 @@
+/**
+ * SQLite connector using better-sqlite3
+ */
+
+import * as path from 'path';
+import { BaseConnector } from './base.js';
+import type {
+  DriverCursor,
+  DriverSession,
+  ExplainOptions,
+  SchemaSearchOptions,
+} from './types.js';
+import type { DsnSourceConfig, SqliteSourceConfig } from '../config/types.js';
+import type {
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  TableDescription,
+  ForeignKeyDescription,
+  CheckConstraintDescription,
+  Relationship,
+} from '../utils/formatters.js';
+import { parseSqlitePlan } from '../utils/query-plan.js';
+import { columnType } from '../utils/value-normalizer.js';
+import { ConnectionError, QueryError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+type SqliteDatabase = import('better-sqlite3').Database;
+type ColumnDefinition = import('better-sqlite3').ColumnDefinition;
+
+// Dynamic import for better-sqlite3 as its native binding may not be built
+let Database: typeof import('better-sqlite3') | null = null;
+
+async function loadSqliteDriver() {
+  if (Database === null) {
+    try {
+      const sqliteDriver = await import('better-sqlite3');
+      Database = sqliteDriver.default;
+    } catch {
+      throw new Error(
+        'better-sqlite3 package is not installed. Install it with: npm install better-sqlite3'
+      );
+    }
+  }
+}
+
+const MEMORY_DATABASE = ':memory:';
+
+/**
+ * Origin table column and declared type of each result column; expressions
+ * have neither
+ */
+function columnMetadata(columnInfo: ColumnDefinition[]) {
+  return {
+    origins: columnInfo.map((col) =>
+      col.table && col.column
+        ? { schema: col.database ?? undefined, table: col.table, column: col.column }
+        : null
+    ),
+    columnTypes: columnInfo.map((col) => (col.type ? columnType(col.type) : null)),
+  };
+}
+
+/**
+ * Quotes an identifier for use in SQLite statements
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Extracts CHECK constraints from a CREATE TABLE statement, which is the only
+ * place SQLite records them
+ */
+function extractCheckConstraints(createSql: string): CheckConstraintDescription[] {
+  const checks: CheckConstraintDescription[] = [];
+  const pattern = /(?:\bCONSTRAINT\s+("[^"]+"|`[^`]+`|\[[^\]]+\]|\w+)\s+)?\bCHECK\s*\(/gi;
+
+  for (const match of createSql.matchAll(pattern)) {
+    // Find the matching parenthesis, skipping string literals
+    const start = match.index! + match[0].length - 1;
+    let depth = 0;
+    let end = start;
+    for (; end < createSql.length; end++) {
+      const ch = createSql[end];
+      if (ch === "'") {
+        end = createSql.indexOf("'", end + 1);
+        if (end === -1) break;
+      } else if (ch === '(') {
+        depth++;
+      } else if (ch === ')' && --depth === 0) {
+        break;
+      }
+    }
+    if (end === -1 || end >= createSql.length) continue;
+
+    checks.push({
+      name: match[1]?.replace(/^["`[]|["`\]]$/g, ''),
+      definition: createSql.slice(start, end + 1),
+    });
+  }
+
+  return checks;
+}
+
+export class SqliteConnector extends BaseConnector {
+  private db: SqliteDatabase | null = null;
+
+  get dbType(): string {
+    return 'sqlite';
+  }
+
+  async connect(): Promise<void> {
+    if (this._isConnected) return;
+
+    await loadSqliteDriver();
+
+    const filename = this.getDatabasePath();
+    const isMemory = filename === MEMORY_DATABASE;
+
+    try {
+      this.db = new Database!(filename, {
+        readonly: this.options.readonly && !isMemory,
+        fileMustExist: this.options.readonly && !isMemory,
+        ...(this.options.connectionTimeout !== undefined && {
+          timeout: this.options.connectionTimeout,
+        }),
+      });
+
+      // In-memory databases cannot be opened read-only, so query_only refuses their writes
+      if (this.options.readonly && isMemory) {
+        this.db.pragma('query_only = ON');
+      }
+
+      this._isConnected = true;
+      logger.info(`Connected to SQLite: ${this.sourceId} (${filename})`);
+    } catch (error) {
+      this.db = null;
+      throw new ConnectionError(
+        this.sourceId,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this._isConnected = false;
+      logger.info(`Disconnected from SQLite: ${this.sourceId}`);
+    }
+  }
+
+  protected async executeQuery(
+    sql: string,
+    params: unknown[] | undefined,
+    maxRows: number,
+    _timeout: number | undefined,
+    _signal: AbortSignal
+  ): Promise<QueryResult> {
+    // better-sqlite3 runs synchronously, so a running query cannot be interrupted
+    if (!this.db) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    try {
+      const statement = this.db.prepare(sql);
+      const bindParams = params ?? [];
+
+      if (!statement.reader) {
+        // Non-SELECT query (INSERT, UPDATE, etc.)
+        const info = statement.run(...bindParams);
+        return {
+          columns: ['changes', 'lastInsertRowid'],
+          rows: [{ changes: info.changes, lastInsertRowid: info.lastInsertRowid }],
+          rowCount: info.changes,
+          truncated: false,
+        };
+      }
+
+      const columnInfo = statement.columns();
+      const columns = columnInfo.map((col) => col.name);
+
+      // Stop reading once we know the result is truncated
+      const rows: unknown[] = [];
+      for (const row of statement.iterate(...bindParams)) {
+        rows.push(row);
+        if (rows.length > maxRows) break;
+      }
+
+      const { rows: formattedRows, truncated } = this.formatRows(rows, maxRows);
+
+      return {
+        columns,
+        rows: formattedRows,
+        rowCount: rows.length,
+        truncated,
+        ...columnMetadata(columnInfo),
+      };
+    } catch (error) {
+      throw new QueryError(
+        this.sourceId,
+        sql,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  protected async createSession(sql: string): Promise<DriverSession> {
+    if (!this.db) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    // The database is a single connection already
+    return {
+      execute: (statement, maxRows, signal) =>
+        this.executeQuery(statement, undefined, maxRows, undefined, signal),
+      release: async () => undefined,
+    };
+  }
+
+  /**
+   * Each open cursor holds its own connection to the database file, and
+   * keeps a read transaction open. Only in WAL mode does that not block
+   * writers, so other databases are never paged; nor are in-memory ones,
+   * which are private to the source's connection.
+   */
+  protected override get maxOpenCursors(): number {
+    if (!this.db || this.db.memory || this.db.pragma('journal_mode', { simple: true }) !== 'wal') {
+      return 0;
+    }
+    return super.maxOpenCursors;
+  }
+
+  /**
+   * Iterates a read query on a read-only connection of its own: an open
+   * iterator keeps its connection busy, so the source's connection stays
+   * free for other statements. Databases ATTACHed on the source's
+   * connection are not visible to it.
+   */
+  protected async createCursor(
+    sql: string,
+    params: unknown[] | undefined
+  ): Promise<DriverCursor> {
+    if (!this.db) {
+      throw new QueryError(this.sourceId, sql, new Error('Not connected'));
+    }
+
+    let db: SqliteDatabase | null = null;
+    try {
+      db = new Database!(this.getDatabasePath(), {
+        readonly: true,
+        fileMustExist: true,
+        ...(this.options.connectionTimeout !== undefined && {
+          timeout: this.options.connectionTimeout,
+        }),
+      });
+
+      const statement = db.prepare(sql);
+      const columnInfo = statement.columns();
+      const rows = statement.iterate(...(params ?? [])) as IterableIterator<
+        Record<string, unknown>
+      >;
+      const connection = db;
+
+      return {
+        columns: columnInfo.map((col) => col.name),
+        ...columnMetadata(columnInfo),
+        read: async (count) => {
+          const batch: Record<string, unknown>[] = [];
+          try {
+            while (batch.length < count) {
+              const next = rows.next();
+              if (next.done) break;
+              batch.push(next.value);
+            }
+          } catch (error) {
+            throw new QueryError(
+              this.sourceId,
+              sql,
+              error instanceof Error ? error : new Error(String(error))
+            );
+          }
+          return batch;
+        },
+        close: async () => {
+          rows.return?.();
+          connection.close();
+        },
+      };
+    } catch (error) {
+      db?.close();
+      throw new QueryError(
+        this.sourceId,
+        sql,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  protected async explainQuery(sql: string, options: ExplainOptions): Promise<PlanNode> {
+    // EXPLAIN QUERY PLAN never executes the statement and has no analyze mode
+    this.assertNoAnalyze(sql, options);
+
+    const result = await this.execute(`EXPLAIN QUERY PLAN ${sql}`, {
+      params: options.params,
+      timeout: options.timeout,
+    });
+
+    return parseSqlitePlan(result.rows as Array<{ id: number; parent: number; detail: string }>);
+  }
+
+  async findTables(name: string): Promise<string[]> {
+    if (!this.db) {
+      throw new Error('Not connected');
+    }
+
+    return this.getSchemas().filter((schema) =>
+      this.db!
+        .prepare(
+          `SELECT 1
+           FROM ${quoteIdentifier(schema)}.sqlite_master
+           WHERE type IN ('table', 'view')
+           AND name = ? COLLATE NOCASE`
+        )
+        .get(name)
+    );
+  }
+
+  async searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]> {
+    if (!this.db) {
+      throw new Error('Not connected');
+    }
+
+    const objects: SchemaObject[] = [];
+    const pattern = options?.pattern ? `%${options.pattern}%` : '%';
+
+    // Search schemas (attached databases in SQLite)
+    if (!options?.objectType || options.objectType === 'schema') {
+      const rows = this.db
+        .prepare(`SELECT name FROM pragma_database_list WHERE name LIKE ? ORDER BY seq`)
+        .all(pattern) as Array<{ name: string }>;
+
+      for (const row of rows) {
+        objects.push({
+          type: 'schema',
+          name: row.name,
+        });
+      }
+    }
+
+    // Search tables
+    if (!options?.objectType || options.objectType === 'table') {
+      for (const schema of this.getSchemas(options?.schema)) {
+        const rows = this.db
+          .prepare(
+            `SELECT name
+             FROM ${quoteIdentifier(schema)}.sqlite_master
+             WHERE type = 'table'
+             AND name NOT LIKE 'sqlite_%'
+             AND name LIKE ?
+             ORDER BY name LIMIT 100`
+          )
+          .all(pattern) as Array<{ name: string }>;
+
+        for (const row of rows) {
+          objects.push({
+            type: 'table',
+            name: row.name,
+            schema,
+          });
+        }
+      }
+    }
+
+    // Search columns
+    if (options?.objectType === 'column' && options.table) {
+      const schema = options.schema ?? 'main';
+      const rows = this.db
+        .prepare(
+          `SELECT name, type, "notnull", pk
+           FROM pragma_table_info(?, ?)
+           WHERE name LIKE ?
+           ORDER BY cid`
+        )
+        .all(options.table, schema, pattern) as Array<{
+        name: string;
+        type: string;
+        notnull: number;
+        pk: number;
+      }>;
+
+      for (const row of rows) {
+        objects.push({
+          type: 'column',
+          name: row.name,
+          schema,
+          table: options.table,
+          dataType: row.type,
+          nullable: row.notnull === 0 && row.pk === 0,
+          primaryKey: row.pk > 0,
+        });
+      }
+    }
+
+    // Search indexes
+    if (options?.objectType === 'index') {
+      for (const schema of this.getSchemas(options.schema)) {
+        let query = `
+          SELECT name, tbl_name
+          FROM ${quoteIdentifier(schema)}.sqlite_master
+          WHERE type = 'index'
+          AND name LIKE ?
+        `;
+        const params: string[] = [pattern];
+
+        if (options.table) {
+          query += ' AND tbl_name = ?';
+          params.push(options.table);
+        }
+
+        query += ' ORDER BY tbl_name, name LIMIT 100';
+
+        const rows = this.db.prepare(query).all(...params) as Array<{
+          name: string;
+          tbl_name: string;
+        }>;
+
+        for (const row of rows) {
+          objects.push({
+            type: 'index',
+            name: row.name,
+            schema,
+            table: row.tbl_name,
+          });
+        }
+      }
+    }
+
+    // SQLite has no stored procedures
+
+    return objects;
+  }
+
+  async describeTable(table: string, schema = 'main'): Promise<TableDescription> {
+    if (!this.db) {
+      throw new Error('Not connected');
+    }
+
+    const db = this.db;
+    const master = `${quoteIdentifier(schema)}.sqlite_master`;
+
+    const tableRow = db
+      .prepare(`SELECT sql FROM ${master} WHERE type IN ('table', 'view') AND name = ?`)
+      .get(table) as { sql: string | null } | undefined;
+
+    if (!tableRow) {
+      throw new Error(`Table not found: ${schema}.${table}`);
+    }
+
+    const columnRows = db
+      .prepare(
+        `SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?, ?) ORDER BY cid`
+      )
+      .all(table, schema) as Array<{
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: string | null;
+      pk: number;
+    }>;
+
+    const primaryKeyColumns = columnRows
+      .filter((row) => row.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((row) => row.name);
+
+    // Index columns; expression index parts have no name
+    const indexRows = db
+      .prepare(`SELECT name, "unique", origin FROM pragma_index_list(?, ?) ORDER BY name`)
+      .all(table, schema) as Array<{ name: string; unique: number; origin: string }>;
+
+    const indexes = indexRows.map((row) => ({
+      name: row.name,
+      unique: row.unique === 1,
+      origin: row.origin,
+      columns: (
+        db
+          .prepare(`SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno`)
+          .all(row.name, schema) as Array<{ name: string | null }>
+      ).map((col) => col.name ?? '<expression>'),
+    }));
+
+    return {
+      name: table,
+      schema,
+      columns: columnRows.map((row) => ({
+        name: row.name,
+        dataType: row.type,
+        nullable: row.notnull === 0 && row.pk === 0,
+        defaultValue: row.dflt_value ?? undefined,
+      })),
+      primaryKey: primaryKeyColumns.length > 0 ? { columns: primaryKeyColumns } : undefined,
+      uniqueConstraints: indexes
+        .filter((index) => index.origin === 'u')
+        .map((index) => ({ name: index.name, columns: index.columns })),
+      foreignKeys: this.getForeignKeys(table, schema),
+      indexes: indexes.map(({ name, columns, unique }) => ({ name, columns, unique })),
+      checkConstraints: tableRow.sql ? extractCheckConstraints(tableRow.sql) : [],
+      approximateRowCount: this.getRowEstimate(table, schema),
+      sizeBytes: this.getTableSize(table, schema),
+    };
+  }
+
+  async getRelationships(schema?: string): Promise<Relationship[]> {
+    if (!this.db) {
+      throw new Error('Not connected');
+    }
+
+    const relationships: Relationship[] = [];
+
+    for (const database of this.getSchemas(schema)) {
+      const tables = this.db
+        .prepare(
+          `SELECT name FROM ${quoteIdentifier(database)}.sqlite_master
+           WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+           ORDER BY name`
+        )
+        .all() as Array<{ name: string }>;
+
+      for (const { name } of tables) {
+        for (const key of this.getForeignKeys(name, database)) {
+          relationships.push({ ...key, schema: database, table: name });
+        }
+      }
+    }
+
+    return relationships;
+  }
+
+  /**
+   * Reads a table's foreign keys. SQLite foreign keys always reference a
+   * table in the same database.
+   */
+  private getForeignKeys(table: string, schema: string): ForeignKeyDescription[] {
+    const db = this.db!;
+
+    const rows = db
+      .prepare(
+        `SELECT id, "table", "from", "to" FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq`
+      )
+      .all(table, schema) as Array<{ id: number; table: string; from: string; to: string | null }>;
+
+    const foreignKeys = new Map<number, ForeignKeyDescription>();
+    for (const row of rows) {
+      const key = foreignKeys.get(row.id) ?? {
+        columns: [],
+        referencedSchema: schema,
+        referencedTable: row.table,
+        referencedColumns: [],
+      };
+      key.columns.push(row.from);
+      if (row.to !== null) key.referencedColumns.push(row.to);
+      foreignKeys.set(row.id, key);
+    }
+
+    // REFERENCES parent without a column list points at the parent's primary key
+    for (const key of foreignKeys.values()) {
+      if (key.referencedColumns.length === 0) {
+        key.referencedColumns = (
+          db
+            .prepare(`SELECT name FROM pragma_table_info(?, ?) WHERE pk > 0 ORDER BY pk`)
+            .all(key.referencedTable, schema) as Array<{ name: string }>
+        ).map((row) => row.name);
+      }
+    }
+
+    return Array.from(foreignKeys.values());
+  }
+
+  /**
+   * Reads the row count recorded by ANALYZE in sqlite_stat1, if any
+   */
+  private getRowEstimate(table: string, schema: string): number | undefined {
+    try {
+      const row = this.db!
+        .prepare(`SELECT stat FROM ${quoteIdentifier(schema)}.sqlite_stat1 WHERE tbl = ? LIMIT 1`)
+        .get(table) as { stat: string } | undefined;
+      return row ? Number.parseInt(row.stat, 10) : undefined;
+    } catch {
+      // sqlite_stat1 only exists once ANALYZE has run
+      return undefined;
+    }
+  }
+
+  /**
+   * Sums the pages used by a table and its indexes via the dbstat virtual table
+   */
+  private getTableSize(table: string, schema: string): number | undefined {
+    try {
+      const row = this.db!
+        .prepare(
+          `SELECT SUM(pgsize) AS size FROM dbstat
+           WHERE schema = ?
+           AND name IN (SELECT name FROM ${quoteIdentifier(schema)}.sqlite_master WHERE tbl_name = ?)`
+        )
+        .get(schema, table) as { size: number | null };
+      return row.size ?? undefined;
+    } catch {
+      // dbstat requires SQLITE_ENABLE_DBSTAT_VTAB
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the given schema, or every attached database when none is given
+   */
+  private getSchemas(schema?: string): string[] {
+    if (schema) {
+      return [schema];
+    }
+
+    const rows = this.db!
+      .prepare(`SELECT name FROM pragma_database_list ORDER BY seq`)
+      .all() as Array<{ name: string }>;
+
+    return rows.map((row) => row.name);
+  }
+
+  /**
+   * Resolves the database file from a path or sqlite:// DSN
+   */
+  private getDatabasePath(): string {
+    const config = this.config;
+
+    const rawPath =
+      'dsn' in config
+        ? (config as DsnSourceConfig).dsn.replace(/^sqlite:\/\//, '')
+        : (config as SqliteSourceConfig).path;
+
+    // Accept both sqlite://:memory: and sqlite:///:memory:
+    if (rawPath === MEMORY_DATABASE || rawPath === `/${MEMORY_DATABASE}`) {
+      return MEMORY_DATABASE;
+    }
+
+    return path.resolve(rawPath);
+  }
+}
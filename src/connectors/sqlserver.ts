@@ -3,16 +3,125 @@
  */
 
 import * as sql from 'mssql';
-import { BaseConnector } from './base.js';
-import type { SchemaSearchOptions } from './types.js';
+import { BaseConnector, type TransactionCommands } from './base.js';
+import { StreamCursor } from './cursor.js';
+import type {
+  DriverCursor,
+  DriverSession,
+  ExplainOptions,
+  PoolStats,
+  SchemaSearchOptions,
+} from './types.js';
 import type { SourceConfig, DsnSourceConfig, HostBasedSourceConfig } from '../config/types.js';
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  ColumnType,
+  SchemaObject,
+  QueryResult,
+  PlanNode,
+  TableDescription,
+  KeyDescription,
+  ForeignKeyDescription,
+  IndexDescription,
+  Relationship,
+} from '../utils/formatters.js';
+import { parseSqlServerPlan } from '../utils/query-plan.js';
+import { columnType } from '../utils/value-normalizer.js';
 import { ConnectionError, QueryError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 import { DEFAULT_PORTS } from '../constants.js';
 
+// mssql's own connection check, which a pool validate option replaces. tarn
+// awaits it, although its types only allow a boolean.
+interface PoolValidator {
+  _poolValidate(connection: sql.Connection): boolean | Promise<boolean>;
+}
+
+// Untyped side of mssql's pool that Transaction uses to hold a connection
+interface PoolLeasing {
+  config: sql.config;
+  acquire(requester: unknown): Promise<TediousConnection>;
+  release(connection: TediousConnection): void;
+}
+
+interface TediousConnection {
+  close(): void;
+}
+
+/**
+ * Holds one pooled connection for the statements of a script. mssql requests
+ * take their connection from their parent, so requests on a lease share one
+ * connection, like requests on a Transaction but without its BEGIN.
+ */
+class ConnectionLease {
+  constructor(
+    private readonly pool: sql.ConnectionPool,
+    private readonly connection: TediousConnection
+  ) {}
+
+  static async acquire(pool: sql.ConnectionPool): Promise<ConnectionLease> {
+    const leasing = pool as unknown as PoolLeasing;
+    return new ConnectionLease(pool, await leasing.acquire(pool));
+  }
+
+  // Read by requests from their parent
+  get config(): sql.config {
+    return (this.pool as unknown as PoolLeasing).config;
+  }
+
+  get connected(): boolean {
+    return this.pool.connected;
+  }
+
+  get collation(): unknown {
+    return (this.pool as unknown as { collation?: unknown }).collation;
+  }
+
+  acquire(
+    _request: unknown,
+    callback: (error: Error | null, connection: TediousConnection, config: sql.config) => void
+  ): this {
+    setImmediate(callback, null, this.connection, this.config);
+    return this;
+  }
+
+  // Requests hand the connection back when done; the lease keeps it
+  release(): this {
+    return this;
+  }
+
+  request(): sql.Request {
+    return new sql.Request(this as unknown as sql.ConnectionPool);
+  }
+
+  /**
+   * Returns the connection to the pool. A closed connection fails the pool's
+   * validation and is replaced.
+   */
+  end(discard: boolean): void {
+    if (discard) {
+      this.connection.close();
+    }
+    (this.pool as unknown as PoolLeasing).release(this.connection);
+  }
+}
+
+/**
+ * Names the SQL type of each recordset column, from the declaration mssql
+ * keeps on its type objects, with the nullability TDS reports
+ */
+function recordsetTypes(columns: sql.IColumnMetadata): ColumnType[] {
+  return Object.values(columns)
+    .sort((a, b) => a.index - b.index)
+    .map((column) => {
+      const type = column.type as { declaration?: string };
+      return columnType(type.declaration ?? 'unknown', column.nullable);
+    });
+}
+
 export class SqlServerConnector extends BaseConnector {
   private pool: sql.ConnectionPool | null = null;
+  // When each pooled connection was opened, for max_lifetime
+  private readonly connectionCreated = new WeakMap<object, number>();
 
   get dbType(): string {
     return 'sqlserver';
@@ -23,8 +132,26 @@ export class SqlServerConnector extends BaseConnector {
 
     try {
       const connectionConfig = this.getConnectionConfig();
-      this.pool = new sql.ConnectionPool(connectionConfig);
-      await this.pool.connect();
+      const { min, max, idleTimeout, acquireTimeout, maxLifetime } = this.poolOptions;
+
+      const pool: sql.ConnectionPool = new sql.ConnectionPool({
+        ...connectionConfig,
+        pool: {
+          min,
+          max,
+          idleTimeoutMillis: idleTimeout,
+          acquireTimeoutMillis: acquireTimeout,
+          // Connections past max_lifetime fail validation and are replaced
+          validate: maxLifetime
+            ? (connection): boolean =>
+                Date.now() - (this.connectionCreated.get(connection) ?? 0) < maxLifetime &&
+                ((pool as unknown as PoolValidator)._poolValidate(connection) as boolean)
+            : undefined,
+        },
+        beforeConnect: (connection) => this.connectionCreated.set(connection, Date.now()),
+      });
+      this.pool = pool;
+      await pool.connect();
 
       this._isConnected = true;
       logger.info(`Connected to SQL Server: ${this.sourceId}`);
@@ -45,6 +172,21 @@ export class SqlServerConnector extends BaseConnector {
     }
   }
 
+  override getPoolStats(): PoolStats | null {
+    if (!this.pool) {
+      return null;
+    }
+
+    const { min, max } = this.poolOptions;
+    return {
+      size: this.pool.size,
+      idle: this.pool.available,
+      waiting: this.pool.pending,
+      min,
+      max,
+    };
+  }
+
   protected override wrapWithLimit(sqlQuery: string, maxRows: number): string {
     const normalized = sqlQuery.trim().toUpperCase();
 
@@ -65,41 +207,251 @@ export class SqlServerConnector extends BaseConnector {
     sqlQuery: string,
     params: unknown[] | undefined,
     maxRows: number,
-    _timeout: number | undefined
+    _timeout: number | undefined,
+    signal: AbortSignal
   ): Promise<QueryResult> {
     if (!this.pool) {
       throw new QueryError(this.sourceId, sqlQuery, new Error('Not connected'));
     }
 
     try {
-      const wrappedSql = this.wrapWithLimit(sqlQuery, maxRows + 1);
+      const { request, done } = await this.statementRequest(this.pool);
+      try {
+        return await this.runQuery(request, sqlQuery, params, maxRows, signal);
+      } finally {
+        await done();
+      }
+    } catch (error) {
+      throw new QueryError(
+        this.sourceId,
+        sqlQuery,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  protected async createSession(sqlQuery: string): Promise<DriverSession> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sqlQuery, new Error('Not connected'));
+    }
 
-      const request = this.pool.request();
+    const pool = this.pool;
+    const lease = await this.traceAcquire(() => ConnectionLease.acquire(pool));
+    const { readonly } = this.options;
+    const commands = Object.values(this.transactionCommands);
 
-      // Add parameters
-      if (params) {
-        params.forEach((param, index) => {
-          request.input(`p${index}`, param);
-        });
-      }
+    return {
+      execute: async (statement, maxRows, signal) => {
+        try {
+          if (readonly) {
+            // Read-only scripts run in one transaction, rolled back on release,
+            // which the transaction mode's own commands must not end
+            if (commands.includes(statement)) {
+              return { columns: [], rows: [], rowCount: 0, truncated: false };
+            }
+            // An error under XACT_ABORT rolls it back, so start another
+            await lease.request().batch('IF @@TRANCOUNT = 0 BEGIN TRANSACTION');
+          }
+          return await this.runQuery(lease.request(), statement, undefined, maxRows, signal);
+        } catch (error) {
+          throw new QueryError(
+            this.sourceId,
+            statement,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      },
+      release: async (discard) => {
+        // A discarded connection rolls back on the server
+        if (readonly && !discard) {
+          await lease.request().batch('IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION');
+        }
+        lease.end(discard);
+      },
+    };
+  }
+
+  protected override get transactionCommands(): TransactionCommands {
+    // Errors under XACT_ABORT have already rolled the transaction back
+    return {
+      begin: 'BEGIN TRANSACTION',
+      commit: 'COMMIT TRANSACTION',
+      rollback: 'IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION',
+    };
+  }
 
-      const result = await request.query(wrappedSql);
+  /**
+   * Runs a query through a request on the pool or a lease
+   */
+  private async runQuery(
+    request: sql.Request,
+    sqlQuery: string,
+    params: unknown[] | undefined,
+    maxRows: number,
+    signal: AbortSignal
+  ): Promise<QueryResult> {
+    const wrappedSql = this.wrapWithLimit(sqlQuery, maxRows + 1);
 
-      const columns = result.recordset?.columns
-        ? Object.keys(result.recordset.columns)
-        : result.recordset?.[0]
-          ? Object.keys(result.recordset[0])
-          : [];
+    // Add parameters
+    if (params) {
+      params.forEach((param, index) => {
+        request.input(`p${index}`, param);
+      });
+    }
 
-      const { rows, truncated } = this.formatRows(result.recordset || [], maxRows);
+    const disposeCancel = this.onAbort(signal, async () => request.cancel());
 
-      return {
-        columns,
-        rows,
-        rowCount: result.rowsAffected[0] ?? rows.length,
-        truncated,
-      };
+    let result: sql.IResult<Record<string, unknown>>;
+    try {
+      result = await request.query(wrappedSql);
+    } finally {
+      disposeCancel();
+    }
+
+    const columns = result.recordset?.columns
+      ? Object.keys(result.recordset.columns)
+      : result.recordset?.[0]
+        ? Object.keys(result.recordset[0])
+        : [];
+
+    const { rows, truncated } = this.formatRows(result.recordset || [], maxRows);
+
+    return {
+      columns,
+      rows,
+      rowCount: result.rowsAffected[0] ?? rows.length,
+      truncated,
+      columnTypes: result.recordset?.columns ? recordsetTypes(result.recordset.columns) : undefined,
+    };
+  }
+
+  protected async createCursor(
+    sqlQuery: string,
+    params: unknown[] | undefined
+  ): Promise<DriverCursor> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sqlQuery, new Error('Not connected'));
+    }
+
+    // Stream rows, pausing the request between pages
+    const { request, done } = await this.statementRequest(this.pool);
+    request.stream = true;
+
+    if (params) {
+      params.forEach((param, index) => {
+        request.input(`p${index}`, param);
+      });
+    }
+
+    const cursor = new StreamCursor({
+      pause: () => request.pause(),
+      resume: () => request.resume(),
+      cancel: async () => request.cancel(),
+      // mssql returns the connection to the pool when the request completes
+      release: () => undefined,
+    });
+
+    request.on('recordset', (columns: sql.IColumnMetadata) =>
+      cursor.setColumns(Object.keys(columns), undefined, recordsetTypes(columns))
+    );
+    request.on('row', (row: Record<string, unknown>) => cursor.push(row));
+    request.on('error', (error: Error) => cursor.fail(new QueryError(this.sourceId, sqlQuery, error)));
+    request.on('done', () => cursor.end());
+
+    // Streaming requests settle once the rows are read or the request is cancelled
+    void request.query(sqlQuery).then(done, done);
+
+    return cursor;
+  }
+
+  /**
+   * A request for one statement, and what to run once it has finished.
+   * Read-only sources run the statement in a transaction that is then rolled
+   * back, so writes the SQL classifier misses are undone: SQL Server has no
+   * read-only transactions that would refuse them.
+   */
+  private async statementRequest(
+    pool: sql.ConnectionPool
+  ): Promise<{ request: sql.Request; done: () => Promise<void> }> {
+    if (!this.options.readonly) {
+      return { request: pool.request(), done: async () => undefined };
+    }
+
+    const transaction = new sql.Transaction(pool);
+    await this.traceAcquire(() => transaction.begin());
+
+    return {
+      request: new sql.Request(transaction),
+      done: async () => {
+        try {
+          await transaction.rollback();
+        } catch (error) {
+          // An error under XACT_ABORT has rolled the transaction back already
+          if ((error as { code?: string }).code !== 'EABORT') {
+            logger.warn(`Failed to roll back a read-only transaction on ${this.sourceId}`, error);
+          }
+        }
+      },
+    };
+  }
+
+  protected async explainQuery(sqlQuery: string, options: ExplainOptions): Promise<PlanNode> {
+    if (!this.pool) {
+      throw new QueryError(this.sourceId, sqlQuery, new Error('Not connected'));
+    }
+
+    const pool = this.pool;
+
+    try {
+      const xml = await this.withTimeout(sqlQuery, options.timeout ?? 0, async (signal) => {
+        if (options.analyze) {
+          // STATISTICS XML executes the query and adds the actual plan as a result set
+          const { request, done } = await this.statementRequest(pool);
+          options.params?.forEach((param, index) => request.input(`p${index}`, param));
+
+          const disposeCancel = this.onAbort(signal, async () => request.cancel());
+          try {
+            const result = await request.query(
+              `SET STATISTICS XML ON;\n${sqlQuery};\nSET STATISTICS XML OFF;`
+            );
+            return this.findShowplan(
+              result.recordsets as sql.IRecordSet<Record<string, unknown>>[]
+            );
+          } finally {
+            disposeCancel();
+            await done();
+          }
+        }
+
+        // SHOWPLAN_XML must be set in its own batch, so pin a connection with a transaction
+        const transaction = new sql.Transaction(pool);
+        await transaction.begin();
+        try {
+          await new sql.Request(transaction).batch('SET SHOWPLAN_XML ON');
+          try {
+            const request = new sql.Request(transaction);
+            options.params?.forEach((param, index) => request.input(`p${index}`, param));
+
+            const disposeCancel = this.onAbort(signal, async () => request.cancel());
+            try {
+              const result = await request.query(sqlQuery);
+              return this.findShowplan(
+              result.recordsets as sql.IRecordSet<Record<string, unknown>>[]
+            );
+            } finally {
+              disposeCancel();
+            }
+          } finally {
+            await new sql.Request(transaction).batch('SET SHOWPLAN_XML OFF');
+          }
+        } finally {
+          await transaction.rollback();
+        }
+      });
+
+      return parseSqlServerPlan(xml);
     } catch (error) {
+      if (error instanceof QueryError) throw error;
       throw new QueryError(
         this.sourceId,
         sqlQuery,
@@ -108,6 +460,38 @@ export class SqlServerConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Returns the XML showplan from the last result set that carries one
+   */
+  private findShowplan(recordsets: sql.IRecordSet<Record<string, unknown>>[]): string {
+    for (const recordset of [...recordsets].reverse()) {
+      const row = recordset[0];
+      const column = row && Object.keys(row).find((name) => name.includes('Showplan'));
+      if (column) {
+        return String(row[column]);
+      }
+    }
+
+    throw new Error('SQL Server did not return an XML showplan');
+  }
+
+  async findTables(name: string): Promise<string[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    // Tables, views and synonyms
+    const result = await this.pool.request().input('name', name).query(
+      `SELECT DISTINCT s.name AS schema_name
+       FROM sys.objects o
+       JOIN sys.schemas s ON o.schema_id = s.schema_id
+       WHERE o.type IN ('U', 'V', 'SN')
+       AND LOWER(o.name) = LOWER(@name)`
+    );
+
+    return result.recordset.map((row) => row.schema_name);
+  }
+
   async searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]> {
     if (!this.pool) {
       throw new Error('Not connected');
@@ -282,6 +666,230 @@ export class SqlServerConnector extends BaseConnector {
     return objects;
   }
 
+  async describeTable(table: string, schema?: string): Promise<TableDescription> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    // Without a schema, use the user's default schema
+    const tableResult = await this.pool.request()
+      .input('table', table)
+      .input('schema', schema ?? null)
+      .query(`
+        SELECT t.object_id, s.name as schema_name,
+               CAST(ep.value AS nvarchar(max)) as comment,
+               (SELECT SUM(p.rows) FROM sys.partitions p
+                WHERE p.object_id = t.object_id AND p.index_id IN (0, 1)) as row_count,
+               (SELECT SUM(a.total_pages) * 8192 FROM sys.partitions p
+                JOIN sys.allocation_units a ON a.container_id = p.partition_id
+                WHERE p.object_id = t.object_id) as size_bytes
+        FROM sys.tables t
+        JOIN sys.schemas s ON t.schema_id = s.schema_id
+        LEFT JOIN sys.extended_properties ep
+          ON ep.major_id = t.object_id AND ep.minor_id = 0 AND ep.name = 'MS_Description'
+        WHERE t.name = @table AND s.name = COALESCE(@schema, SCHEMA_NAME())
+      `);
+
+    const tableRow = tableResult.recordset[0];
+    if (!tableRow) {
+      throw new Error(`Table not found: ${schema ? `${schema}.${table}` : table}`);
+    }
+
+    const objectId = tableRow.object_id;
+
+    const columnsResult = await this.pool.request()
+      .input('objectId', objectId)
+      .query(`
+        SELECT c.name, TYPE_NAME(c.user_type_id) as type_name, c.max_length, c.precision,
+               c.scale, c.is_nullable, dc.definition as default_value,
+               CAST(ep.value AS nvarchar(max)) as comment
+        FROM sys.columns c
+        LEFT JOIN sys.default_constraints dc ON dc.object_id = c.default_object_id
+        LEFT JOIN sys.extended_properties ep
+          ON ep.major_id = c.object_id AND ep.minor_id = c.column_id AND ep.name = 'MS_Description'
+        WHERE c.object_id = @objectId
+        ORDER BY c.column_id
+      `);
+
+    // Primary key and unique constraints are backed by indexes
+    const indexesResult = await this.pool.request()
+      .input('objectId', objectId)
+      .query(`
+        SELECT i.name as index_name, i.is_unique, i.is_primary_key, i.is_unique_constraint,
+               c.name as column_name
+        FROM sys.indexes i
+        JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+        JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+        WHERE i.object_id = @objectId AND i.type > 0 AND ic.is_included_column = 0
+        ORDER BY i.name, ic.key_ordinal
+      `);
+
+    const foreignKeysResult = await this.pool.request()
+      .input('objectId', objectId)
+      .query(`
+        SELECT fk.name as constraint_name,
+               COL_NAME(fkc.parent_object_id, fkc.parent_column_id) as column_name,
+               OBJECT_SCHEMA_NAME(fkc.referenced_object_id) as referenced_schema,
+               OBJECT_NAME(fkc.referenced_object_id) as referenced_table,
+               COL_NAME(fkc.referenced_object_id, fkc.referenced_column_id) as referenced_column
+        FROM sys.foreign_keys fk
+        JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+        WHERE fk.parent_object_id = @objectId
+        ORDER BY fk.name, fkc.constraint_column_id
+      `);
+
+    const checksResult = await this.pool.request()
+      .input('objectId', objectId)
+      .query(`
+        SELECT name, definition
+        FROM sys.check_constraints
+        WHERE parent_object_id = @objectId
+        ORDER BY name
+      `);
+
+    const description: TableDescription = {
+      name: table,
+      schema: tableRow.schema_name,
+      comment: tableRow.comment ?? undefined,
+      columns: columnsResult.recordset.map((row) => ({
+        name: row.name,
+        dataType: this.formatColumnType(row),
+        nullable: row.is_nullable,
+        defaultValue: row.default_value ?? undefined,
+        comment: row.comment ?? undefined,
+      })),
+      uniqueConstraints: [],
+      foreignKeys: [],
+      indexes: [],
+      checkConstraints: checksResult.recordset.map((row) => ({
+        name: row.name,
+        definition: row.definition,
+      })),
+      approximateRowCount: tableRow.row_count === null ? undefined : Number(tableRow.row_count),
+      sizeBytes: tableRow.size_bytes === null ? undefined : Number(tableRow.size_bytes),
+    };
+
+    const indexes = new Map<string, IndexDescription>();
+    const uniqueKeys = new Map<string, KeyDescription>();
+
+    for (const row of indexesResult.recordset) {
+      const index: IndexDescription = indexes.get(row.index_name) ?? {
+        name: row.index_name,
+        columns: [],
+        unique: row.is_unique,
+      };
+      index.columns.push(row.column_name);
+      indexes.set(row.index_name, index);
+
+      if (row.is_primary_key) {
+        description.primaryKey ??= { name: row.index_name, columns: [] };
+        description.primaryKey.columns.push(row.column_name);
+      } else if (row.is_unique_constraint) {
+        const key: KeyDescription = uniqueKeys.get(row.index_name) ?? {
+          name: row.index_name,
+          columns: [],
+        };
+        key.columns.push(row.column_name);
+        uniqueKeys.set(row.index_name, key);
+      }
+    }
+
+    const foreignKeys = new Map<string, ForeignKeyDescription>();
+    for (const row of foreignKeysResult.recordset) {
+      const key: ForeignKeyDescription = foreignKeys.get(row.constraint_name) ?? {
+        name: row.constraint_name,
+        columns: [],
+        referencedSchema: row.referenced_schema,
+        referencedTable: row.referenced_table,
+        referencedColumns: [],
+      };
+      key.columns.push(row.column_name);
+      key.referencedColumns.push(row.referenced_column);
+      foreignKeys.set(row.constraint_name, key);
+    }
+
+    description.uniqueConstraints = Array.from(uniqueKeys.values());
+    description.foreignKeys = Array.from(foreignKeys.values());
+    description.indexes = Array.from(indexes.values());
+
+    return description;
+  }
+
+  async getRelationships(schema?: string): Promise<Relationship[]> {
+    if (!this.pool) {
+      throw new Error('Not connected');
+    }
+
+    const request = this.pool.request();
+
+    let query = `
+      SELECT fk.object_id, fk.name as constraint_name,
+             OBJECT_SCHEMA_NAME(fk.parent_object_id) as schema_name,
+             OBJECT_NAME(fk.parent_object_id) as table_name,
+             COL_NAME(fkc.parent_object_id, fkc.parent_column_id) as column_name,
+             OBJECT_SCHEMA_NAME(fk.referenced_object_id) as referenced_schema,
+             OBJECT_NAME(fk.referenced_object_id) as referenced_table,
+             COL_NAME(fkc.referenced_object_id, fkc.referenced_column_id) as referenced_column
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+    `;
+
+    if (schema) {
+      query += ` WHERE OBJECT_SCHEMA_NAME(fk.parent_object_id) = @schema
+                 OR OBJECT_SCHEMA_NAME(fk.referenced_object_id) = @schema`;
+      request.input('schema', schema);
+    }
+
+    query += ' ORDER BY schema_name, table_name, constraint_name, fkc.constraint_column_id';
+
+    const result = await request.query(query);
+
+    const relationships = new Map<number, Relationship>();
+    for (const row of result.recordset) {
+      const relationship: Relationship = relationships.get(row.object_id) ?? {
+        name: row.constraint_name,
+        schema: row.schema_name,
+        table: row.table_name,
+        columns: [],
+        referencedSchema: row.referenced_schema,
+        referencedTable: row.referenced_table,
+        referencedColumns: [],
+      };
+      relationship.columns.push(row.column_name);
+      relationship.referencedColumns.push(row.referenced_column);
+      relationships.set(row.object_id, relationship);
+    }
+
+    return Array.from(relationships.values());
+  }
+
+  /**
+   * Formats a sys.columns type with its length, precision or scale
+   */
+  private formatColumnType(column: {
+    type_name: string;
+    max_length: number;
+    precision: number;
+    scale: number;
+  }): string {
+    const type = column.type_name;
+
+    if (['varchar', 'char', 'varbinary', 'binary'].includes(type)) {
+      return `${type}(${column.max_length === -1 ? 'max' : column.max_length})`;
+    }
+
+    // max_length is in bytes; Unicode types store two bytes per character
+    if (['nvarchar', 'nchar'].includes(type)) {
+      return `${type}(${column.max_length === -1 ? 'max' : column.max_length / 2})`;
+    }
+
+    if (['decimal', 'numeric'].includes(type)) {
+      return `${type}(${column.precision},${column.scale})`;
+    }
+
+    return type;
+  }
+
   private getConnectionConfig(): sql.config {
     const config = this.config;
 
@@ -300,6 +908,8 @@ export class SqlServerConnector extends BaseConnector {
           encrypt: true,
           trustServerCertificate: true,
         },
+        // Query timeouts are enforced by BaseConnector
+        requestTimeout: 0,
       };
     }
 
@@ -315,6 +925,8 @@ export class SqlServerConnector extends BaseConnector {
         trustServerCertificate: true,
       },
       connectionTimeout: this.options.connectionTimeout,
+      // Query timeouts are enforced by BaseConnector
+      requestTimeout: 0,
     };
   }
 }
@@ -2,19 +2,73 @@
  * Connector interface types
  */
 
-import type { SchemaObject, QueryResult } from '../utils/formatters.js';
+import type {
+  ColumnOrigin,
+  ColumnType,
+  SchemaObject,
+  QueryResult,
+  QueryPlan,
+  ScriptResult,
+  TransactionMode,
+  TableDescription,
+  Relationship,
+} from '../utils/formatters.js';
 
 export interface ConnectorOptions {
   readonly: boolean;
   maxRows: number;
   queryTimeout?: number;
   connectionTimeout?: number;
+  // Ceilings for per-call maxRows/timeout overrides (default to maxRows/queryTimeout)
+  maxRowsLimit?: number;
+  queryTimeoutLimit?: number;
+  // Called after a connection-level query failure; resolves true once the
+  // source has reconnected and the statement may be retried
+  onConnectionLost?: (sourceId: string, error: unknown) => Promise<boolean>;
+}
+
+export interface PoolOptions {
+  min: number;
+  max: number;
+  idleTimeout: number;
+  // Unset means wait for a connection until the query times out
+  acquireTimeout?: number;
+  maxLifetime?: number;
+}
+
+export interface PoolStats {
+  // Open connections, busy or idle (sessions on Hive/Impala)
+  size: number;
+  idle: number;
+  // Callers waiting for a connection
+  waiting: number;
+  min: number;
+  max: number;
 }
 
 export interface ExecuteOptions {
   params?: unknown[];
   maxRows?: number;
   timeout?: number;
+  // Read up to maxRows even past the source's max_rows_limit, for callers
+  // with row limits of their own
+  exceedRowsLimit?: boolean;
+}
+
+export interface ScriptOptions {
+  transaction?: TransactionMode;
+  // Run the remaining statements after one fails
+  continueOnError?: boolean;
+  // Limits for each statement
+  maxRows?: number;
+  timeout?: number;
+}
+
+export interface ExplainOptions {
+  params?: unknown[];
+  timeout?: number;
+  // Execute the statement and report actual row counts and timings
+  analyze?: boolean;
 }
 
 export interface SchemaSearchOptions {
@@ -24,14 +78,68 @@ export interface SchemaSearchOptions {
   pattern?: string;
 }
 
+/**
+ * Driver-level cursor over a running query
+ */
+export interface DriverCursor {
+  // Column names, available after the first read
+  readonly columns: string[];
+  // Table column behind each result column, when the driver reports it
+  readonly origins?: Array<ColumnOrigin | null>;
+  // Type of each result column, when the driver reports it
+  readonly columnTypes?: Array<ColumnType | null>;
+  // Reads up to count rows; fewer rows than requested means the result is exhausted
+  read(count: number, signal: AbortSignal): Promise<Record<string, unknown>[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Pooled connection held for the statements of a script
+ */
+export interface DriverSession {
+  // Runs one statement, returning at most maxRows rows
+  execute(sql: string, maxRows: number, signal: AbortSignal): Promise<QueryResult>;
+  // Returns the connection to the pool, or closes it when discard is set
+  release(discard: boolean): Promise<void>;
+}
+
+/**
+ * Paged cursor returned by IConnector.openCursor
+ */
+export interface QueryCursor {
+  readonly sourceId: string;
+  // Reads the next page; truncated is true while more rows remain
+  nextPage(): Promise<QueryResult>;
+  // Puts the last count rows of the page just read back, to start the next page
+  unread(count: number): void;
+  close(): Promise<void>;
+}
+
 export interface IConnector {
   readonly sourceId: string;
   readonly dbType: string;
   readonly isConnected: boolean;
+  readonly supportsCursors: boolean;
 
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   execute(sql: string, options?: ExecuteOptions): Promise<QueryResult>;
+  openCursor(sql: string, options?: ExecuteOptions): Promise<QueryCursor | null>;
+  // Runs each statement of a script in order on one connection
+  executeScript(sql: string, options?: ScriptOptions): Promise<ScriptResult>;
+  explain(sql: string, options?: ExplainOptions): Promise<QueryPlan>;
   searchObjects(options?: SchemaSearchOptions): Promise<SchemaObject[]>;
+  // Schemas where an unqualified name may find a table or view of that name
+  findTables(name: string): Promise<string[]>;
+  // Uses the connection's default schema/database when schema is omitted
+  describeTable(table: string, schema?: string): Promise<TableDescription>;
+  // Foreign keys in a schema, or in all user schemas when schema is omitted
+  getRelationships(schema?: string): Promise<Relationship[]>;
+  // Connection pool usage, or null for sources without a pool or not connected
+  getPoolStats(): PoolStats | null;
+  // Whether the source's Kerberos ticket is valid, or null without keytab authentication
+  isKerberosTicketValid(): boolean | null;
+  // When the source's Kerberos ticket expires, or null without keytab authentication or a known expiry
+  getKerberosTicketExpiry(): Date | null;
   testConnection(): Promise<boolean>;
 }
@@ -14,6 +14,74 @@ export const DEFAULT_QUERY_TIMEOUT = 30_000;
 // Default connection timeout in milliseconds
 export const DEFAULT_CONNECTION_TIMEOUT = 10_000;
 
+// Default connection pool size per source, and idle time before extra connections close
+export const DEFAULT_POOL_MAX = 5;
+export const DEFAULT_POOL_IDLE_TIMEOUT = 30_000;
+
+// Default interval between health probes of each source, in milliseconds
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 30_000;
+
+// Default longest wait between reconnect attempts, in milliseconds
+export const DEFAULT_RECONNECT_MAX_DELAY = 60_000;
+
+// Longest a readiness check waits for each source's connection probe, in milliseconds
+export const READINESS_PROBE_TIMEOUT = 5_000;
+
+// How long readiness probe results are served before sources are probed again,
+// in milliseconds; longer than READINESS_PROBE_TIMEOUT so probes never overlap
+export const READINESS_CACHE_TTL = 10_000;
+
+// Default idle time before an open result cursor is closed, in milliseconds
+export const DEFAULT_CURSOR_IDLE_TTL = 300_000;
+
+// Default maximum open result cursors per MCP session
+export const DEFAULT_MAX_CURSORS_PER_SESSION = 5;
+
+// Leading bytes of a binary value shown in query results
+export const BINARY_PREVIEW_BYTES = 32;
+
+// Characters of each statement shown in execute_script results
+export const SQL_PREVIEW_LENGTH = 120;
+
+// Default time schema search results are cached, in milliseconds
+export const DEFAULT_SCHEMA_CACHE_TTL = 300_000;
+
+// Default maximum cached schema searches across all sources
+export const DEFAULT_SCHEMA_CACHE_MAX_ENTRIES = 1000;
+
+// Default audit log file size before rotation, in bytes, and rotated files kept
+export const DEFAULT_AUDIT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+// Default most rows and bytes written by one export_query call
+export const DEFAULT_EXPORT_MAX_ROWS = 1_000_000;
+export const DEFAULT_EXPORT_MAX_BYTES = 100 * 1024 * 1024;
+
+// Default age at which exported files are deleted, in milliseconds
+export const DEFAULT_EXPORT_FILE_TTL = 24 * 60 * 60 * 1000;
+
+// Largest exported file served as an MCP resource, in bytes
+export const EXPORT_RESOURCE_MAX_BYTES = 10 * 1024 * 1024;
+
+// Rows per page read from the driver while exporting
+export const EXPORT_PAGE_SIZE = 1000;
+
+// Rows shown in export_query's preview of the exported data
+export const EXPORT_PREVIEW_ROWS = 5;
+
+// Default OTLP/HTTP traces endpoint: a collector on the local host
+export const DEFAULT_OTLP_TRACES_ENDPOINT = 'http://localhost:4318/v1/traces';
+
+// Default name-based relationship heuristics for sources without foreign keys
+export const DEFAULT_FOREIGN_KEY_PATTERNS = ['{table}_id'];
+export const DEFAULT_KEY_COLUMNS = ['id', '{table}_id'];
+
+// Maximum tables described when inferring relationships from column names
+export const MAX_HEURISTIC_TABLES = 200;
+
+// Maximum tables whose columns are included in a prompt's schema context
+export const MAX_PROMPT_CONTEXT_TABLES = 25;
+
 // Server name and version
 export const SERVER_NAME = 'opendb-mcp-server';
 export const SERVER_VERSION = '1.0.0';
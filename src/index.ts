@@ -6,7 +6,7 @@
  * SQL Server, SQLite, Hive, and Impala with Kerberos authentication.
  */
 
-import { loadConfig, createConfigFromDsn } from './config/loader.js';
+import { loadConfig, createConfigFromDsn, parseAuthTokens } from './config/loader.js';
 import { createServer } from './server.js';
 import { logger } from './utils/logger.js';
 import { SERVER_NAME, SERVER_VERSION } from './constants.js';
@@ -89,6 +89,7 @@ OPTIONS:
 ENVIRONMENT VARIABLES:
   TRANSPORT             Transport type: stdio (default) or http
   PORT                  HTTP port (default: 3000)
+  AUTH_TOKENS           HTTP bearer tokens: principal:token[,principal:token...]
   LOG_LEVEL             Log level: debug, info, warn, error
 
 EXAMPLES:
@@ -151,6 +152,12 @@ async function main(): Promise<void> {
 
     logger.info(`Configured ${config.sources.size} database source(s)`);
 
+    // Static bearer tokens can also come from the environment, e.g. in DSN mode
+    if (process.env.AUTH_TOKENS) {
+      const tokens = parseAuthTokens(process.env.AUTH_TOKENS);
+      config.auth = { ...config.auth, tokens: [...(config.auth?.tokens ?? []), ...tokens] };
+    }
+
     // Create and start server
     const { start, stop } = await createServer({
       config,
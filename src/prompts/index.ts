@@ -0,0 +1,181 @@
+/**
+ * Prompt registration module
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import type { PromptTemplate } from '../config/types.js';
+import type { ConnectorManager } from '../connectors/index.js';
+import type { IConnector, SchemaSearchOptions } from '../connectors/types.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AccessControl, Authorization } from '../services/access-control.js';
+import type { SchemaObject } from '../utils/formatters.js';
+import { BUILTIN_PROMPTS } from './templates.js';
+import { logger } from '../utils/logger.js';
+import { MAX_PROMPT_CONTEXT_TABLES } from '../constants.js';
+
+export interface PromptContext {
+  connectorManager: ConnectorManager;
+  schemaCache: SchemaCache;
+  accessControl: AccessControl;
+  // Custom templates from the config; they replace built-ins with the same name
+  templates?: PromptTemplate[];
+}
+
+/**
+ * Formats columns as a Markdown list
+ */
+function formatColumns(columns: SchemaObject[]): string {
+  if (columns.length === 0) {
+    return '_Table not found or has no columns_';
+  }
+
+  return columns
+    .map((column) => {
+      const notes = [column.dataType];
+      if (column.primaryKey) notes.push('primary key');
+      if (column.nullable === false) notes.push('not null');
+      return `- ${column.name} (${notes.filter(Boolean).join(', ')})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Builds the live schema context for a prompt: the given table's columns, or
+ * the source's tables and their columns when no table is given
+ */
+async function buildSchemaContext(
+  connector: IConnector,
+  schemaCache: SchemaCache,
+  authorization: Authorization,
+  table?: string
+): Promise<string> {
+  // Tables the caller may not see are left out
+  const search = async (options: SchemaSearchOptions) =>
+    authorization.filterObjects(
+      connector.sourceId,
+      (await schemaCache.searchObjects(connector, options)).objects
+    );
+
+  let output = `## Schema of source ${connector.sourceId} (${connector.dbType})\n\n`;
+
+  if (table) {
+    // Accept schema.table
+    const dot = table.indexOf('.');
+    const schema = dot === -1 ? undefined : table.slice(0, dot);
+    const name = dot === -1 ? table : table.slice(dot + 1);
+
+    const columns = await search({ objectType: 'column', schema, table: name });
+    return output + `### ${table}\n\n${formatColumns(columns)}`;
+  }
+
+  const tables = await search({ objectType: 'table' });
+  if (tables.length === 0) {
+    return output + '_No tables found_';
+  }
+
+  for (const object of tables.slice(0, MAX_PROMPT_CONTEXT_TABLES)) {
+    const columns = await search({
+      objectType: 'column',
+      schema: object.schema,
+      table: object.name,
+    });
+    const name = object.schema ? `${object.schema}.${object.name}` : object.name;
+    output += `### ${name}\n\n${formatColumns(columns)}\n\n`;
+  }
+
+  const remaining = tables.slice(MAX_PROMPT_CONTEXT_TABLES);
+  if (remaining.length > 0) {
+    const names = remaining.map((object) =>
+      object.schema ? `${object.schema}.${object.name}` : object.name
+    );
+    output += `_Columns not shown for ${remaining.length} more tables (use search_objects): ${names.join(', ')}_`;
+  }
+
+  return output.trim();
+}
+
+/**
+ * Replaces {{name}} placeholders; unknown placeholders become empty
+ */
+function renderTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => values[name] ?? '');
+}
+
+/**
+ * Register all prompts with the MCP server
+ */
+export function registerPrompts(server: McpServer, context: PromptContext): void {
+  const { connectorManager, schemaCache, accessControl, templates = [] } = context;
+
+  const prompts = new Map<string, PromptTemplate>();
+  for (const template of [...BUILTIN_PROMPTS, ...templates]) {
+    prompts.set(template.name, template);
+  }
+
+  for (const prompt of prompts.values()) {
+    // Prompt arguments are always strings
+    const argsSchema: Record<string, z.ZodTypeAny> = {};
+    for (const argument of prompt.arguments ?? []) {
+      let schema: z.ZodTypeAny = argument.required ? z.string() : z.string().optional();
+      if (argument.description) {
+        schema = schema.describe(argument.description);
+      }
+      if (argument.name === 'source_id') {
+        schema = completable(schema, (value) =>
+          connectorManager.listSourceIds().filter((id) => id.startsWith(value ?? ''))
+        );
+      }
+      argsSchema[argument.name] = schema;
+    }
+
+    server.prompt(
+      prompt.name,
+      prompt.description ?? prompt.name,
+      argsSchema,
+      async (args: Record<string, string | undefined>, extra) => {
+        logger.debug(`Prompt requested: ${prompt.name}`, args);
+
+        const values: Record<string, string | undefined> = { ...args };
+
+        // Only sources referenced by the template are touched
+        if (/\{\{\s*(schema_context|source_id)\s*\}\}/.test(prompt.template)) {
+          try {
+            const authorization = accessControl.forPrincipal(extra.authInfo?.clientId);
+            const connector = authorization.resolve(connectorManager, args.source_id);
+            values.source_id = connector.sourceId;
+
+            if (/\{\{\s*schema_context\s*\}\}/.test(prompt.template)) {
+              // Ensure connected
+              if (!connector.isConnected) {
+                await connector.connect();
+              }
+              values.schema_context = await buildSchemaContext(
+                connector,
+                schemaCache,
+                authorization,
+                args.table
+              );
+            }
+          } catch (error) {
+            logger.error(`Prompt ${prompt.name} failed`, error);
+            throw error;
+          }
+        }
+
+        return {
+          description: prompt.description,
+          messages: [
+            {
+              role: 'user',
+              content: { type: 'text', text: renderTemplate(prompt.template, values) },
+            },
+          ],
+        };
+      }
+    );
+  }
+
+  logger.info(`Registered MCP prompts: ${Array.from(prompts.keys()).join(', ')}`);
+}
@@ -0,0 +1,72 @@
+/**
+ * Built-in prompt templates. Templates from the [prompts] config section
+ * replace built-ins with the same name.
+ */
+
+import type { PromptTemplate } from '../config/types.js';
+
+const sourceArgument = {
+  name: 'source_id',
+  description: 'Database source ID (optional if single db configured)',
+};
+
+const tableArgument = {
+  name: 'table',
+  description: 'Table name, optionally qualified as schema.table',
+  required: true,
+};
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'profile_table',
+    description: 'Profile a table: row count, nulls, cardinality and value ranges per column',
+    arguments: [sourceArgument, tableArgument],
+    template: `Profile the table {{table}} on source {{source_id}}.
+
+Using read-only queries with execute_sql, report:
+- the total row count
+- for each column: null count and percentage, and distinct value count
+- min and max for numeric and date/time columns
+- the most frequent values for low-cardinality columns
+
+Combine measurements into as few queries as practical, and summarize anything
+surprising at the end. Use only the columns listed below.
+
+{{schema_context}}`,
+  },
+  {
+    name: 'find_data_quality_issues',
+    description: 'Look for data quality problems in a table',
+    arguments: [sourceArgument, tableArgument],
+    template: `Find data quality issues in the table {{table}} on source {{source_id}}.
+
+Using read-only queries with execute_sql, check for:
+- nulls or empty strings in columns that look mandatory
+- duplicate rows and duplicate values in key-like columns
+- foreign key values with no matching parent row
+- out-of-range, future or placeholder values (e.g. 1900-01-01, -1, 'N/A')
+- inconsistent formats or casing within text columns
+
+For each issue, give the query you ran, the number of affected rows and a few
+examples. Use only the columns listed below.
+
+{{schema_context}}`,
+  },
+  {
+    name: 'write_query',
+    description: 'Write a SQL query that answers a question using only existing tables and columns',
+    arguments: [
+      sourceArgument,
+      { name: 'question', description: 'Question the query should answer', required: true },
+    ],
+    template: `Write a SQL query for source {{source_id}} that answers:
+
+{{question}}
+
+Use only the tables and columns listed below; never guess a name. If the schema
+cannot answer the question, say what is missing instead of writing a query.
+Check the query with explain_query before running it with execute_sql.
+
+{{schema_context}}`,
+  },
+];
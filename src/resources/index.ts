@@ -0,0 +1,233 @@
+/**
+ * Resource registration module
+ */
+
+import * as fs from 'fs';
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { ConnectorManager } from '../connectors/index.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AccessControl } from '../services/access-control.js';
+import { EXPORT_MIME_TYPES, type ResultExporter } from '../services/result-export.js';
+import { formatTableDdl, type SchemaObject } from '../utils/formatters.js';
+import { logger } from '../utils/logger.js';
+import { EXPORT_RESOURCE_MAX_BYTES } from '../constants.js';
+
+export interface ResourceContext {
+  connectorManager: ConnectorManager;
+  schemaCache: SchemaCache;
+  accessControl: AccessControl;
+  // Serves exported files when the [export] section enables resources
+  resultExporter?: ResultExporter;
+}
+
+export interface SchemaResources {
+  /**
+   * Re-lists a source's tables (through the schema cache, so invalidate it
+   * first) and notifies clients when the set changed.
+   * Returns true if a list-changed notification was sent.
+   */
+  refresh(sourceId: string): Promise<boolean>;
+}
+
+// opendb://{source_id}/{schema}/{table}
+const TABLE_URI_TEMPLATE = 'opendb://{source_id}/{schema}/{table}';
+const TABLE_MIME_TYPE = 'application/sql';
+
+// opendb-export://{file}
+const EXPORT_URI_TEMPLATE = 'opendb-export://{file}';
+
+/**
+ * Builds the resource URI for a table
+ */
+export function tableResourceUri(sourceId: string, schema: string, table: string): string {
+  return `opendb://${[sourceId, schema, table].map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Reads a template variable, which the SDK leaves percent-encoded
+ */
+function templateVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Register all resources with the MCP server
+ */
+export function registerResources(server: McpServer, context: ResourceContext): SchemaResources {
+  const { connectorManager, schemaCache, accessControl, resultExporter } = context;
+
+  // Tables last listed, per source, as schema.table keys
+  const knownTables = new Map<string, Set<string>>();
+
+  // Lists every table of a source; callers filter them by principal
+  const listTables = async (sourceId: string): Promise<SchemaObject[]> => {
+    const connector = connectorManager.resolve(sourceId);
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    const { objects } = await schemaCache.searchObjects(connector, { objectType: 'table' });
+    const tables = objects.filter((object) => object.type === 'table' && object.schema);
+
+    knownTables.set(sourceId, new Set(tables.map((table) => `${table.schema}.${table.name}`)));
+    return tables;
+  };
+
+  // Register table resources
+  server.resource(
+    'table',
+    new ResourceTemplate(TABLE_URI_TEMPLATE, {
+      list: async (extra) => {
+        const authorization = accessControl.forPrincipal(extra.authInfo?.clientId);
+        const resources: Resource[] = [];
+
+        // One unreachable source should not hide the others
+        for (const sourceId of connectorManager.listSourceIds()) {
+          if (!authorization.canUseSource(sourceId)) continue;
+
+          try {
+            const dbType = connectorManager.resolve(sourceId).dbType;
+            const tables = authorization.filterObjects(sourceId, await listTables(sourceId));
+            resources.push(
+              ...tables.map((table) => ({
+                uri: tableResourceUri(sourceId, table.schema!, table.name),
+                name: `${sourceId}/${table.schema}.${table.name}`,
+                description: `${dbType} table ${table.schema}.${table.name}`,
+                mimeType: TABLE_MIME_TYPE,
+              }))
+            );
+          } catch (error) {
+            logger.warn(`Could not list tables for ${sourceId}`, error);
+          }
+        }
+
+        return { resources };
+      },
+      complete: {
+        source_id: (value) =>
+          connectorManager.listSourceIds().filter((sourceId) => sourceId.startsWith(value)),
+      },
+    }),
+    {
+      description: 'Table definition rendered as DDL: columns, keys, constraints and indexes',
+      mimeType: TABLE_MIME_TYPE,
+    },
+    async (uri, variables, extra) => {
+      const sourceId = templateVariable(variables.source_id);
+      const schema = templateVariable(variables.schema);
+      const table = templateVariable(variables.table);
+
+      logger.debug('Resource read: table', { sourceId, schema, table });
+
+      try {
+        const authorization = accessControl.forPrincipal(extra.authInfo?.clientId);
+        const connector = authorization.resolve(connectorManager, sourceId);
+        authorization.checkTable(sourceId, { schema, name: table });
+
+        // Ensure connected
+        if (!connector.isConnected) {
+          await connector.connect();
+        }
+
+        const description = await connector.describeTable(table, schema);
+
+        return {
+          contents: [{ uri: uri.href, mimeType: TABLE_MIME_TYPE, text: formatTableDdl(description) }],
+        };
+      } catch (error) {
+        logger.error('Table resource read failed', error);
+        throw error;
+      }
+    }
+  );
+
+  // Register exported files, visible only to the principal that exported them
+  if (resultExporter?.exposesResources) {
+    server.resource(
+      'export',
+      new ResourceTemplate(EXPORT_URI_TEMPLATE, {
+        list: async (extra) => {
+          const { principal } = accessControl.forPrincipal(extra.authInfo?.clientId);
+          return {
+            resources: resultExporter.list(principal).map((file) => ({
+              uri: resultExporter.resourceUri(file),
+              name: file.name,
+              description: `${file.rows} rows exported from ${file.sourceId} at ${file.createdAt}`,
+              mimeType: EXPORT_MIME_TYPES[file.format],
+            })),
+          };
+        },
+      }),
+      {
+        description: 'File written by export_query, as CSV, JSON Lines or Parquet',
+      },
+      async (uri, variables, extra) => {
+        const name = templateVariable(variables.file);
+
+        logger.debug('Resource read: export', { name });
+
+        const { principal } = accessControl.forPrincipal(extra.authInfo?.clientId);
+        const file = resultExporter.get(name, principal);
+        if (!file) {
+          throw new Error(`Export not found: ${name}`);
+        }
+
+        try {
+          // Resource contents are sent whole, so large exports are only read from disk
+          const { size } = await fs.promises.stat(file.path);
+          if (size > EXPORT_RESOURCE_MAX_BYTES) {
+            throw new Error(
+              `Export ${name} is ${size} bytes, over the ${EXPORT_RESOURCE_MAX_BYTES} bytes ` +
+                `served as a resource; read it from ${file.path}`
+            );
+          }
+
+          const data = await fs.promises.readFile(file.path);
+          const mimeType = EXPORT_MIME_TYPES[file.format];
+
+          // Parquet is binary, so it is sent base64-encoded
+          return {
+            contents: [
+              file.format === 'parquet'
+                ? { uri: uri.href, mimeType, blob: data.toString('base64') }
+                : { uri: uri.href, mimeType, text: data.toString('utf8') },
+            ],
+          };
+        } catch (error) {
+          logger.error('Export resource read failed', error);
+          throw error;
+        }
+      }
+    );
+  }
+
+  logger.info(
+    `Registered MCP resources: table${resultExporter?.exposesResources ? ', export' : ''}`
+  );
+
+  return {
+    async refresh(sourceId: string): Promise<boolean> {
+      const previous = knownTables.get(sourceId);
+      await listTables(sourceId);
+      const current = knownTables.get(sourceId)!;
+
+      // Clients that never listed this source have nothing stale to update
+      if (!previous) {
+        return false;
+      }
+
+      const changed =
+        previous.size !== current.size || [...current].some((name) => !previous.has(name));
+
+      if (changed) {
+        logger.info(`Tables changed on ${sourceId}; sending resource list changed notification`);
+        server.sendResourceListChanged();
+      }
+
+      return changed;
+    },
+  };
+}
@@ -7,16 +7,93 @@ import { z } from 'zod';
 // Response format enum
 export const responseFormatSchema = z.enum(['markdown', 'json']).default('markdown');
 
+// Query result format enum
+export const queryResultFormatSchema = z
+  .enum(['markdown', 'json', 'csv', 'tsv', 'json_compact'])
+  .default('markdown');
+
 // Execute SQL tool input schema
 export const executeSqlSchema = z.object({
   source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
   sql: z.string().min(1).describe('SQL query to execute'),
   params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
-  response_format: responseFormatSchema.describe('Output format (markdown or json)'),
+  max_rows: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum rows to return (capped by the source limit)'),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Query timeout in milliseconds (capped by the source limit)'),
+  response_format: queryResultFormatSchema.describe('Output format (markdown, json, csv, tsv or json_compact)'),
 });
 
 export type ExecuteSqlInput = z.infer<typeof executeSqlSchema>;
 
+// Execute script tool input schema
+export const executeScriptSchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().min(1).describe('SQL script of one or more statements'),
+  transaction: z
+    .enum(['none', 'all', 'statement'])
+    .default('none')
+    .describe('Run without a transaction, all statements in one, or each in its own'),
+  on_error: z
+    .enum(['stop', 'continue'])
+    .default('stop')
+    .describe('Stop at the first failed statement or run the rest (not with transaction "all")'),
+  max_rows: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum rows to return per statement (capped by the source limit)'),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Timeout in milliseconds for each statement (capped by the source limit)'),
+  response_format: responseFormatSchema.describe('Output format'),
+});
+
+export type ExecuteScriptInput = z.infer<typeof executeScriptSchema>;
+
+// Fetch more tool input schema
+export const fetchMoreSchema = z.object({
+  cursor: z
+    .string()
+    .min(1)
+    .describe('Continuation token returned by execute_sql or a previous fetch_more'),
+  response_format: queryResultFormatSchema.describe('Output format (markdown, json, csv, tsv or json_compact)'),
+});
+
+export type FetchMoreInput = z.infer<typeof fetchMoreSchema>;
+
+// Explain query tool input schema
+export const explainQuerySchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().min(1).describe('Single SQL statement to explain'),
+  params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
+  analyze: z
+    .boolean()
+    .default(false)
+    .describe('Execute the statement and report actual rows and timings (read-only statements only)'),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Timeout in milliseconds (capped by the source limit)'),
+  response_format: responseFormatSchema.describe('Output format (markdown or json)'),
+});
+
+export type ExplainQueryInput = z.infer<typeof explainQuerySchema>;
+
 // Search objects tool input schema
 export const searchObjectsSchema = z.object({
   source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
@@ -32,6 +109,64 @@ export const searchObjectsSchema = z.object({
 
 export type SearchObjectsInput = z.infer<typeof searchObjectsSchema>;
 
+// Refresh schema tool input schema
+export const refreshSchemaSchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  schema: z
+    .string()
+    .optional()
+    .describe('Only refresh this schema/database (default: the whole source)'),
+});
+
+export type RefreshSchemaInput = z.infer<typeof refreshSchemaSchema>;
+
+// Describe table tool input schema
+export const describeTableSchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  table: z.string().min(1).describe('Table name'),
+  schema: z
+    .string()
+    .optional()
+    .describe('Schema/database name (defaults to the connection default)'),
+  response_format: responseFormatSchema.describe('Output format (markdown or json)'),
+});
+
+export type DescribeTableInput = z.infer<typeof describeTableSchema>;
+
+// Get relationships tool input schema
+export const getRelationshipsSchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  schema: z
+    .string()
+    .optional()
+    .describe('Schema/database name (defaults to all schemas, or the default database on Hive/Impala)'),
+  from_table: z.string().optional().describe('Table to join from (requires to_table)'),
+  to_table: z.string().optional().describe('Table to join to (requires from_table)'),
+  response_format: z
+    .enum(['markdown', 'json', 'mermaid'])
+    .default('markdown')
+    .describe('Output format (mermaid only for the full graph)'),
+});
+
+export type GetRelationshipsInput = z.infer<typeof getRelationshipsSchema>;
+
+// Export query tool input schema
+export const exportQuerySchema = z.object({
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().min(1).describe('Single read-only SQL query whose full result is exported'),
+  params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
+  format: z.enum(['csv', 'jsonl', 'parquet']).default('csv').describe('File format'),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Timeout in milliseconds for each page read (capped by the source limit)'),
+  response_format: responseFormatSchema.describe('Output format (markdown or json)'),
+});
+
+export type ExportQueryInput = z.infer<typeof exportQuerySchema>;
+
 // List sources tool input schema
 export const listSourcesSchema = z.object({
   response_format: responseFormatSchema.describe('Output format (markdown or json)'),
@@ -8,9 +8,27 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import express from 'express';
 import type { ParsedConfig } from './config/types.js';
 import { ConnectorManager } from './connectors/index.js';
+import { CursorStore } from './services/cursor-store.js';
+import { SchemaCache } from './services/schema-cache.js';
+import { createAuditLog } from './services/audit-log.js';
+import { HttpAuth } from './services/http-auth.js';
+import { AccessControl } from './services/access-control.js';
+import { DataMasking } from './services/data-masking.js';
+import { Metrics, METRICS_CONTENT_TYPE } from './services/metrics.js';
+import { createTracing, type Tracing } from './services/tracing.js';
+import { createResultExporter } from './services/result-export.js';
 import { registerTools } from './tools/index.js';
+import { registerResources } from './resources/index.js';
+import { registerPrompts } from './prompts/index.js';
 import { logger } from './utils/logger.js';
-import { SERVER_NAME, SERVER_VERSION } from './constants.js';
+import {
+  SERVER_NAME,
+  SERVER_VERSION,
+  DEFAULT_CURSOR_IDLE_TTL,
+  DEFAULT_MAX_CURSORS_PER_SESSION,
+  DEFAULT_SCHEMA_CACHE_TTL,
+  DEFAULT_SCHEMA_CACHE_MAX_ENTRIES,
+} from './constants.js';
 
 export interface ServerOptions {
   config: ParsedConfig;
@@ -24,22 +42,99 @@ export interface ServerOptions {
 export async function createServer(options: ServerOptions): Promise<{
   server: McpServer;
   connectorManager: ConnectorManager;
+  // Set when the [tracing] config section enables tracing
+  tracing: Tracing | null;
   start: () => Promise<void>;
   stop: () => Promise<void>;
 }> {
   const { config, transport, port = 3000 } = options;
 
+  // OpenTelemetry tracing, if enabled in [tracing]; registered first so
+  // connecting to sources is traced too
+  const tracing = createTracing(config.tracing);
+
   // Create connector manager
   const connectorManager = new ConnectorManager(config);
 
+  // Open result cursors for fetch_more pagination
+  const cursorStore = new CursorStore({
+    idleTtl: config.settings.cursor_idle_ttl ?? DEFAULT_CURSOR_IDLE_TTL,
+    maxPerSession: config.settings.max_cursors_per_session ?? DEFAULT_MAX_CURSORS_PER_SESSION,
+  });
+
+  // Cached schema searches, optionally persisted so restarts start warm
+  const sourceTtls = new Map<string, number>();
+  for (const source of config.sources.values()) {
+    if (source.schema_cache_ttl !== undefined) {
+      sourceTtls.set(source.id, source.schema_cache_ttl);
+    }
+  }
+  const schemaCache = new SchemaCache({
+    ttl: config.settings.schema_cache_ttl ?? DEFAULT_SCHEMA_CACHE_TTL,
+    sourceTtls,
+    maxEntries: config.settings.schema_cache_max_entries ?? DEFAULT_SCHEMA_CACHE_MAX_ENTRIES,
+    path: config.settings.schema_cache_path,
+  });
+  schemaCache.load(Array.from(config.sources.keys()));
+
+  // Audit log of executed statements, if enabled in [audit]
+  const auditLog = await createAuditLog(config.audit);
+
+  // Bearer token authentication for HTTP; built up front so a bad JWKS fails startup
+  const httpAuth = transport === 'http' && config.auth ? new HttpAuth(config.auth) : null;
+
+  // Per-principal source and table access from [[policies]]
+  const accessControl = new AccessControl(config.policies);
+
+  // Per-source column masking from [[sources.masking]]
+  const dataMasking = new DataMasking(config.sources.values());
+
+  // Query, tool and source metrics served at /metrics
+  const metrics = new Metrics(connectorManager);
+
+  // File exports for export_query, if enabled in [export]
+  const resultExporter = createResultExporter(config.export, config.sources.values());
+
   // Create MCP server
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
+  // Register resources
+  const schemaResources = registerResources(server, {
+    connectorManager,
+    schemaCache,
+    accessControl,
+    resultExporter: resultExporter ?? undefined,
+  });
+
+  // Re-list tables for resource clients whenever cached schema is dropped
+  schemaCache.onInvalidate((sourceId) => {
+    schemaResources.refresh(sourceId).catch((error) => {
+      logger.warn(`Schema refresh failed for ${sourceId}`, error);
+    });
+  });
+
+  // Register prompts, including custom templates from [prompts]
+  registerPrompts(server, {
+    connectorManager,
+    schemaCache,
+    accessControl,
+    templates: config.prompts,
+  });
+
   // Register tools
-  registerTools(server, { connectorManager });
+  registerTools(server, {
+    connectorManager,
+    cursorStore,
+    schemaCache,
+    auditLog: auditLog ?? undefined,
+    accessControl,
+    dataMasking,
+    metrics,
+    resultExporter: resultExporter ?? undefined,
+  });
 
   // Transport-specific setup
   let transportInstance: StdioServerTransport | null = null;
@@ -63,13 +158,64 @@ export async function createServer(options: ServerOptions): Promise<{
       httpServer = express();
       httpServer.use(express.json());
 
-      // Health check endpoint
+      // Health check endpoints, open to load balancers and platform health checks
+
+      // Per-source health as tracked by the health supervisor
       httpServer.get('/health', (_req, res) => {
+        const sources = Object.fromEntries(
+          connectorManager
+            .listSourceIds()
+            .map((sourceId) => [sourceId, connectorManager.health.get(sourceId).status])
+        );
+        const degraded = Object.values(sources).some((status) => status !== 'healthy');
+        res.json({ status: degraded ? 'degraded' : 'ok', version: SERVER_VERSION, sources });
+      });
+
+      // The process is up and serving HTTP
+      httpServer.get('/health/live', (_req, res) => {
         res.json({ status: 'ok', version: SERVER_VERSION });
       });
 
+      // Probes every source now; ?require=any is ready while at least one source is up
+      httpServer.get('/health/ready', async (req, res) => {
+        const require = req.query.require ?? 'all';
+        if (require !== 'any' && require !== 'all') {
+          res.status(400).json({ error: 'require must be "any" or "all"' });
+          return;
+        }
+
+        const report = await connectorManager.health.readiness(require);
+        res.status(report.ready ? 200 : 503).json({
+          status: report.ready ? 'ready' : 'unavailable',
+          version: SERVER_VERSION,
+          require: report.require,
+          sources: report.sources,
+        });
+      });
+
+      // Prometheus metrics, open to scrapers like the health checks
+      httpServer.get('/metrics', (_req, res) => {
+        res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+      });
+
+      // Everything registered after this requires a bearer token
+      if (httpAuth) {
+        httpServer.use('/mcp', httpAuth.middleware());
+      } else {
+        logger.warn(
+          `HTTP transport has no [auth] configured: anyone who can reach port ${port} can run SQL`
+        );
+      }
+
       // Map to store transports by session ID
       const transports = new Map<string, StreamableHTTPServerTransport>();
+      metrics.countSessions(() => transports.size);
+
+      // Principal that opened each session; other principals may not use it
+      const sessionPrincipals = new Map<string, string | undefined>();
+
+      const ownsSession = (sessionId: string, req: express.Request): boolean =>
+        sessionPrincipals.get(sessionId) === req.auth?.clientId;
 
       // Streamable HTTP endpoint
       httpServer.post('/mcp', async (req, res) => {
@@ -77,13 +223,23 @@ export async function createServer(options: ServerOptions): Promise<{
         let transport: StreamableHTTPServerTransport;
 
         if (sessionId && transports.has(sessionId)) {
+          if (!ownsSession(sessionId, req)) {
+            res.status(403).json({ error: 'Session belongs to another principal' });
+            return;
+          }
           transport = transports.get(sessionId)!;
         } else {
+          const principal = req.auth?.clientId;
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => crypto.randomUUID(),
             onsessioninitialized: (id) => {
               transports.set(id, transport);
-              logger.info(`MCP session initialized: ${id}`);
+              sessionPrincipals.set(id, principal);
+              logger.info(
+                principal
+                  ? `MCP session initialized: ${id} (principal ${principal})`
+                  : `MCP session initialized: ${id}`
+              );
             },
           });
 
@@ -91,6 +247,8 @@ export async function createServer(options: ServerOptions): Promise<{
             const id = transport.sessionId;
             if (id) {
               transports.delete(id);
+              sessionPrincipals.delete(id);
+              void cursorStore.closeSession(id);
               logger.info(`MCP session closed: ${id}`);
             }
           };
@@ -105,7 +263,9 @@ export async function createServer(options: ServerOptions): Promise<{
       httpServer.get('/mcp', async (req, res) => {
         const sessionId = req.headers['mcp-session-id'] as string;
         const transport = transports.get(sessionId);
-        if (transport) {
+        if (transport && !ownsSession(sessionId, req)) {
+          res.status(403).json({ error: 'Session belongs to another principal' });
+        } else if (transport) {
           await transport.handleRequest(req, res);
         } else {
           res.status(400).json({ error: 'No active session' });
@@ -115,18 +275,26 @@ export async function createServer(options: ServerOptions): Promise<{
       httpServer.delete('/mcp', async (req, res) => {
         const sessionId = req.headers['mcp-session-id'] as string;
         const transport = transports.get(sessionId);
-        if (transport) {
+        if (transport && !ownsSession(sessionId, req)) {
+          res.status(403).json({ error: 'Session belongs to another principal' });
+        } else if (transport) {
           await transport.handleRequest(req, res);
           transports.delete(sessionId);
+          sessionPrincipals.delete(sessionId);
         } else {
           res.status(400).json({ error: 'No active session' });
         }
       });
 
-      httpServerInstance = httpServer.listen(port, '0.0.0.0', () => {
-        logger.info(`MCP server started with HTTP transport on port ${port}`);
-        logger.info(`Streamable HTTP endpoint: http://0.0.0.0:${port}/mcp`);
-        logger.info(`Health check: http://0.0.0.0:${port}/health`);
+      // Started once the port is bound
+      await new Promise<void>((resolve, reject) => {
+        httpServerInstance = httpServer!.listen(port, '0.0.0.0', () => {
+          logger.info(`MCP server started with HTTP transport on port ${port}`);
+          logger.info(`Streamable HTTP endpoint: http://0.0.0.0:${port}/mcp`);
+          logger.info(`Health check: http://0.0.0.0:${port}/health`);
+          resolve();
+        });
+        httpServerInstance.once('error', reject);
       });
     }
   };
@@ -145,11 +313,26 @@ export async function createServer(options: ServerOptions): Promise<{
       });
     }
 
+    // Close open cursors before their connections go away
+    await cursorStore.closeAll();
+
+    // Stop sweeping expired exports
+    resultExporter?.close();
+
+    // Write out the schema cache for the next start
+    await schemaCache.close();
+
+    // Flush and close audit sinks
+    await auditLog?.close();
+
     // Disconnect all databases
     await connectorManager.disconnectAll();
 
+    // Export the remaining spans
+    await tracing?.shutdown();
+
     logger.info('MCP server stopped');
   };
 
-  return { server, connectorManager, start, stop };
+  return { server, connectorManager, tracing, start, stop };
 }
@@ -0,0 +1,357 @@
+/**
+ * Per-principal access control over sources, schemas and tables
+ */
+
+import type { PolicyConfig } from '../config/types.js';
+import type { ConnectorManager, IConnector } from '../connectors/index.js';
+import type { Relationship, SchemaObject } from '../utils/formatters.js';
+import {
+  classifySql,
+  dialectForDbType,
+  functionsReadingTables,
+  referencedTables,
+  type TableReference,
+} from '../utils/sql-classifier.js';
+import { AuthorizationError } from '../utils/error-handler.js';
+import { globToRegExp } from '../utils/glob.js';
+
+// Principal of callers that did not authenticate (stdio, or HTTP without [auth])
+const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+interface TablePattern {
+  // Absent for patterns without a schema part, which match in any schema
+  schema?: RegExp;
+  anySchema: boolean;
+  table: RegExp;
+}
+
+function tablePattern(pattern: string): TablePattern {
+  const dot = pattern.indexOf('.');
+  if (dot === -1) {
+    return { anySchema: true, table: globToRegExp(pattern) };
+  }
+
+  const schema = pattern.slice(0, dot);
+  return {
+    schema: globToRegExp(schema),
+    anySchema: schema === '*',
+    table: globToRegExp(pattern.slice(dot + 1)),
+  };
+}
+
+function qualifiedName(reference: TableReference): string {
+  return reference.schema ? `${reference.schema}.${reference.name}` : reference.name;
+}
+
+/**
+ * One compiled [[policies]] entry
+ */
+class Grant {
+  readonly readonly: boolean;
+  private readonly allowSchemas?: RegExp[];
+  private readonly denySchemas: RegExp[];
+  private readonly allowTables?: TablePattern[];
+  private readonly denyTables: TablePattern[];
+
+  constructor(private readonly policy: PolicyConfig) {
+    this.readonly = policy.readonly;
+    this.allowSchemas = policy.allow_schemas?.map(globToRegExp);
+    this.denySchemas = (policy.deny_schemas ?? []).map(globToRegExp);
+    this.allowTables = policy.allow_tables?.map(tablePattern);
+    this.denyTables = (policy.deny_tables ?? []).map(tablePattern);
+  }
+
+  appliesTo(principal: string): boolean {
+    return this.policy.principals.some((name) => name === '*' || name === principal);
+  }
+
+  covers(sourceId: string): boolean {
+    return this.policy.sources.some((id) => id === '*' || id === sourceId);
+  }
+
+  // True when the policy limits schemas or tables rather than granting the whole source
+  get restrictsObjects(): boolean {
+    return (
+      this.allowSchemas !== undefined ||
+      this.denySchemas.length > 0 ||
+      this.allowTables !== undefined ||
+      this.denyTables.length > 0
+    );
+  }
+
+  allowsSchema(schema: string): boolean {
+    if (this.denySchemas.some((pattern) => pattern.test(schema))) {
+      return false;
+    }
+    return !this.allowSchemas || this.allowSchemas.some((pattern) => pattern.test(schema));
+  }
+
+  /**
+   * A table without a schema is one that could not be found in any schema,
+   * so it may be in a denied one: it fails any deny rule or schema
+   * allow-list, and only passes table patterns whose schema part is *
+   */
+  allowsTable(reference: TableReference): boolean {
+    if (reference.schema !== undefined) {
+      if (!this.allowsSchema(reference.schema)) return false;
+    } else if (this.allowSchemas || this.denySchemas.length > 0 || this.denyTables.length > 0) {
+      return false;
+    }
+
+    const matches = (pattern: TablePattern) => {
+      if (!pattern.table.test(reference.name)) return false;
+      if (!pattern.schema) return true;
+      if (reference.schema === undefined) return pattern.anySchema;
+      return pattern.schema.test(reference.schema);
+    };
+
+    if (this.denyTables.some(matches)) {
+      return false;
+    }
+    return !this.allowTables || this.allowTables.some(matches);
+  }
+}
+
+// Stands in for policies when access is unrestricted
+const FULL_ACCESS = new Grant({ principals: ['*'], sources: ['*'], readonly: false });
+
+/**
+ * What one principal may do. Each policy matching the principal and a source
+ * is a grant: a table is usable if any grant allows it, and statements that
+ * write need a grant without readonly.
+ */
+export class Authorization {
+  // Grants everything; used when no policies are configured
+  static readonly unrestricted = new Authorization(ANONYMOUS_PRINCIPAL, null);
+
+  constructor(
+    readonly principal: string,
+    // Policies that apply to the principal, or null when access is unrestricted
+    private readonly grants: Grant[] | null
+  ) {}
+
+  canUseSource(sourceId: string): boolean {
+    return this.grantsFor(sourceId).length > 0;
+  }
+
+  /**
+   * True when every grant on the source is read-only
+   */
+  isReadonly(sourceId: string): boolean {
+    return this.grants !== null && this.grantsFor(sourceId).every((grant) => grant.readonly);
+  }
+
+  /**
+   * ConnectorManager.resolve() limited to the sources the principal may use
+   */
+  resolve(connectorManager: ConnectorManager, sourceId?: string): IConnector {
+    if (this.grants === null) {
+      return connectorManager.resolve(sourceId);
+    }
+
+    const allowed = connectorManager.listSourceIds().filter((id) => this.canUseSource(id));
+
+    if (sourceId) {
+      const connector = connectorManager.get(sourceId);
+      if (!connector) {
+        throw new Error(`Unknown source: ${sourceId}. Available sources: ${allowed.join(', ')}`);
+      }
+      if (!this.canUseSource(sourceId)) {
+        throw this.denied(`may not use source ${sourceId}`);
+      }
+      return connector;
+    }
+
+    if (allowed.length === 0) {
+      throw this.denied('may not use any source');
+    }
+    if (allowed.length === 1 || allowed.includes('default')) {
+      return connectorManager.get(allowed.length === 1 ? allowed[0] : 'default')!;
+    }
+    throw new Error(
+      `Multiple sources configured. Please specify source_id. Available: ${allowed.join(', ')}`
+    );
+  }
+
+  /**
+   * Throws unless the principal may see the schema
+   */
+  checkSchema(sourceId: string, schema: string): void {
+    if (!this.grantsFor(sourceId).some((grant) => grant.allowsSchema(schema))) {
+      throw this.denied(`may not access schema ${schema} on ${sourceId}`);
+    }
+  }
+
+  /**
+   * Throws unless the principal may see the table
+   */
+  checkTable(sourceId: string, reference: TableReference): void {
+    if (!this.grantsFor(sourceId).some((grant) => grant.allowsTable(reference))) {
+      throw this.denied(`may not access table ${qualifiedName(reference)} on ${sourceId}`);
+    }
+  }
+
+  /**
+   * Throws unless the principal may run the SQL: writes need a grant without
+   * readonly, and every referenced table must be allowed. Unqualified names
+   * are checked in every schema that has a table or view of that name.
+   * Grants limited to some schemas or tables refuse functions that read
+   * tables no check can see.
+   */
+  async checkSql(connector: IConnector, sql: string): Promise<void> {
+    if (this.grants === null) {
+      return;
+    }
+
+    const { sourceId } = connector;
+    const dialect = dialectForDbType(connector.dbType);
+    const statements = classifySql(sql, dialect);
+
+    const writes = statements.some((statement) => statement.type !== 'read');
+    const grants = this.grantsFor(sourceId).filter((grant) => !writes || !grant.readonly);
+    if (grants.length === 0) {
+      throw this.denied(`has read-only access to ${sourceId}`);
+    }
+
+    if (grants.some((grant) => !grant.restrictsObjects)) {
+      return;
+    }
+
+    // CALL, EXEC, DO and the like can touch any table
+    const unknown = statements.find((statement) => statement.type === 'unknown');
+    if (unknown) {
+      throw this.denied(
+        `may only run statements whose tables can be checked on ${sourceId}; ${unknown.keyword || 'this statement'} cannot be`
+      );
+    }
+
+    // Table functions and functions running SQL text may read any table
+    const functions = functionsReadingTables(sql, dialect);
+    if (functions.length > 0) {
+      throw this.denied(
+        `may only run statements whose tables can be checked on ${sourceId}; ${functions[0]}() cannot be`
+      );
+    }
+
+    // A FROM clause the parser can't follow may hide any table
+    const references = referencedTables(sql, dialect);
+    if (references === null) {
+      throw this.denied(
+        `may only run statements whose tables can be checked on ${sourceId}; the FROM clause of this statement cannot be`
+      );
+    }
+
+    for (const reference of references) {
+      for (const resolved of await this.resolveSchemas(connector, reference)) {
+        if (!grants.some((grant) => grant.allowsTable(resolved))) {
+          throw this.denied(`may not access table ${qualifiedName(resolved)} on ${sourceId}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drops schema objects the principal may not see
+   */
+  filterObjects(sourceId: string, objects: SchemaObject[]): SchemaObject[] {
+    if (this.grants === null) {
+      return objects;
+    }
+
+    const grants = this.grantsFor(sourceId);
+    return objects.filter((object) => {
+      switch (object.type) {
+        case 'schema':
+          return grants.some((grant) => grant.allowsSchema(object.name));
+        case 'table':
+          return grants.some((grant) =>
+            grant.allowsTable({ schema: object.schema, name: object.name })
+          );
+        case 'column':
+        case 'index':
+          return grants.some((grant) =>
+            grant.allowsTable({ schema: object.schema, name: object.table ?? object.name })
+          );
+        default:
+          return !object.schema || grants.some((grant) => grant.allowsSchema(object.schema!));
+      }
+    });
+  }
+
+  /**
+   * Drops relationships where either table is hidden from the principal
+   */
+  filterRelationships(sourceId: string, relationships: Relationship[]): Relationship[] {
+    if (this.grants === null) {
+      return relationships;
+    }
+
+    const grants = this.grantsFor(sourceId);
+    const visible = (reference: TableReference) =>
+      grants.some((grant) => grant.allowsTable(reference));
+
+    return relationships.filter(
+      (relationship) =>
+        visible({ schema: relationship.schema, name: relationship.table }) &&
+        visible({ schema: relationship.referencedSchema, name: relationship.referencedTable })
+    );
+  }
+
+  private grantsFor(sourceId: string): Grant[] {
+    if (this.grants === null) {
+      return [FULL_ACCESS];
+    }
+    return this.grants.filter((grant) => grant.covers(sourceId));
+  }
+
+  /**
+   * The schemas an unqualified name may refer to, read from the database
+   * rather than the schema cache so new tables and views are never missed
+   */
+  private async resolveSchemas(
+    connector: IConnector,
+    reference: TableReference
+  ): Promise<TableReference[]> {
+    if (reference.schema !== undefined) {
+      return [reference];
+    }
+
+    const schemas = await connector.findTables(reference.name);
+
+    return schemas.length > 0
+      ? schemas.map((schema) => ({ schema, name: reference.name }))
+      : [reference];
+  }
+
+  private denied(action: string): AuthorizationError {
+    return new AuthorizationError(`Principal ${this.principal} ${action}`, this.principal);
+  }
+}
+
+/**
+ * Resolves principals to their Authorization from the [[policies]] config.
+ * Without policies every principal may use every source.
+ */
+export class AccessControl {
+  private readonly grants: Grant[];
+
+  constructor(policies: PolicyConfig[] = []) {
+    this.grants = policies.map((policy) => new Grant(policy));
+  }
+
+  /**
+   * True when policies are configured
+   */
+  get enabled(): boolean {
+    return this.grants.length > 0;
+  }
+
+  forPrincipal(principal?: string): Authorization {
+    if (!this.enabled) {
+      return Authorization.unrestricted;
+    }
+
+    const name = principal ?? ANONYMOUS_PRINCIPAL;
+    return new Authorization(name, this.grants.filter((grant) => grant.appliesTo(name)));
+  }
+}
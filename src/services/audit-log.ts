@@ -0,0 +1,302 @@
+/**
+ * Audit log of statements executed through the server
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { AuditConfig } from '../config/types.js';
+import {
+  classifySql,
+  dialectForDbType,
+  mostRestrictive,
+  redactLiterals,
+  type StatementType,
+} from '../utils/sql-classifier.js';
+import { logger } from '../utils/logger.js';
+import { DEFAULT_AUDIT_MAX_FILE_SIZE, DEFAULT_AUDIT_MAX_FILES } from '../constants.js';
+
+export interface AuditRecord {
+  timestamp: string;
+  session_id?: string;
+  source_id: string;
+  tool: string;
+  sql: string;
+  // SHA-256 of the JSON-encoded parameters; values themselves are never logged
+  params_hash?: string;
+  // Most restrictive classification in the batch, and each statement's keyword
+  statement_type: StatementType;
+  keywords: string[];
+  row_count?: number;
+  duration_ms: number;
+  outcome: 'success' | 'error';
+  error_class?: string;
+  // Omitted when literals are redacted, as driver messages often quote values
+  error_message?: string;
+}
+
+/**
+ * Destination for audit records
+ */
+export interface AuditSink {
+  write(record: AuditRecord): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Describes a statement about to be executed
+ */
+export interface AuditContext {
+  tool: string;
+  sessionId?: string;
+  sourceId: string;
+  dbType: string;
+  sql: string;
+  params?: unknown[];
+}
+
+/**
+ * Hashes statement parameters so records can be correlated without storing values
+ */
+function hashParams(params: unknown[] | undefined): string | undefined {
+  if (!params || params.length === 0) {
+    return undefined;
+  }
+
+  // JSON.stringify rejects BigInt, which some drivers accept as a parameter
+  const json = JSON.stringify(params, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+  return createHash('sha256').update(json).digest('hex');
+}
+
+/**
+ * Appends records as JSON lines, rotating the file once it reaches maxSize:
+ * audit.jsonl becomes audit.jsonl.1, audit.jsonl.1 becomes audit.jsonl.2, and
+ * so on, keeping at most maxFiles rotated files.
+ */
+export class JsonlAuditSink implements AuditSink {
+  private size: number;
+
+  constructor(
+    private readonly file: string,
+    private readonly maxSize: number,
+    private readonly maxFiles: number
+  ) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+  }
+
+  // Written synchronously so records keep their order and survive a crash
+  write(record: AuditRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      this.rotate();
+    }
+
+    fs.appendFileSync(this.file, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  async close(): Promise<void> {
+    // Nothing is buffered
+  }
+
+  private rotate(): void {
+    const oldest = `${this.file}.${this.maxFiles}`;
+    if (fs.existsSync(oldest)) {
+      fs.unlinkSync(oldest);
+    }
+
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const from = `${this.file}.${index}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.file}.${index + 1}`);
+      }
+    }
+
+    fs.renameSync(this.file, `${this.file}.1`);
+    this.size = 0;
+  }
+}
+
+/**
+ * Inserts records into an audit_log table in a SQLite database
+ */
+export class SqliteAuditSink implements AuditSink {
+  private constructor(
+    private readonly db: import('better-sqlite3').Database,
+    private readonly insert: import('better-sqlite3').Statement
+  ) {}
+
+  static async open(file: string): Promise<SqliteAuditSink> {
+    let Database: typeof import('better-sqlite3');
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error(
+        'better-sqlite3 package is not installed. Install it with: npm install better-sqlite3'
+      );
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        session_id TEXT,
+        source_id TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        sql TEXT NOT NULL,
+        params_hash TEXT,
+        statement_type TEXT NOT NULL,
+        keywords TEXT NOT NULL,
+        row_count INTEGER,
+        duration_ms INTEGER NOT NULL,
+        outcome TEXT NOT NULL,
+        error_class TEXT,
+        error_message TEXT
+      )
+    `);
+
+    const insert = db.prepare(`
+      INSERT INTO audit_log (
+        timestamp, session_id, source_id, tool, sql, params_hash, statement_type,
+        keywords, row_count, duration_ms, outcome, error_class, error_message
+      ) VALUES (
+        @timestamp, @session_id, @source_id, @tool, @sql, @params_hash, @statement_type,
+        @keywords, @row_count, @duration_ms, @outcome, @error_class, @error_message
+      )
+    `);
+
+    return new SqliteAuditSink(db, insert);
+  }
+
+  write(record: AuditRecord): void {
+    this.insert.run({
+      ...record,
+      session_id: record.session_id ?? null,
+      params_hash: record.params_hash ?? null,
+      keywords: record.keywords.join(','),
+      row_count: record.row_count ?? null,
+      error_class: record.error_class ?? null,
+      error_message: record.error_message ?? null,
+    });
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+/**
+ * Records statements to every configured sink. Sink failures are logged and
+ * never fail the statement being audited.
+ */
+export class AuditLog {
+  constructor(
+    private readonly sinks: AuditSink[],
+    private readonly redact: boolean
+  ) {}
+
+  /**
+   * Runs an operation and records its outcome. rowCount extracts the number
+   * of rows from a successful result, if it has one.
+   */
+  async track<T>(
+    context: AuditContext,
+    operation: () => Promise<T>,
+    rowCount?: (result: T) => number | undefined
+  ): Promise<T> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await operation();
+      this.write(context, startedAt, { outcome: 'success', row_count: rowCount?.(result) });
+      return result;
+    } catch (error) {
+      this.write(context, startedAt, {
+        outcome: 'error',
+        error_class: error instanceof Error ? error.name : typeof error,
+        error_message:
+          this.redact ? undefined : error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await sink.close();
+      } catch (error) {
+        logger.warn('Failed to close audit sink', error);
+      }
+    }
+  }
+
+  private write(
+    context: AuditContext,
+    startedAt: number,
+    result: Pick<AuditRecord, 'outcome' | 'row_count' | 'error_class' | 'error_message'>
+  ): void {
+    const dialect = dialectForDbType(context.dbType);
+    const statements = classifySql(context.sql, dialect);
+
+    const record: AuditRecord = {
+      timestamp: new Date(startedAt).toISOString(),
+      session_id: context.sessionId,
+      source_id: context.sourceId,
+      tool: context.tool,
+      sql: this.redact ? redactLiterals(context.sql, dialect) : context.sql,
+      params_hash: hashParams(context.params),
+      statement_type: mostRestrictive(statements)?.type ?? 'unknown',
+      keywords: statements.map((statement) => statement.keyword),
+      duration_ms: Date.now() - startedAt,
+      ...result,
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        logger.error('Failed to write audit record', error);
+      }
+    }
+  }
+}
+
+/**
+ * Creates the audit log described by the [audit] config section, or null
+ * when auditing is off
+ */
+export async function createAuditLog(config?: AuditConfig): Promise<AuditLog | null> {
+  if (!config?.enabled) {
+    return null;
+  }
+
+  const sinks: AuditSink[] = [];
+
+  if (config.path) {
+    sinks.push(
+      new JsonlAuditSink(
+        config.path,
+        config.max_file_size ?? DEFAULT_AUDIT_MAX_FILE_SIZE,
+        config.max_files ?? DEFAULT_AUDIT_MAX_FILES
+      )
+    );
+  }
+
+  if (config.sqlite_path) {
+    sinks.push(await SqliteAuditSink.open(config.sqlite_path));
+  }
+
+  const destinations = [config.path, config.sqlite_path].filter(Boolean).join(', ');
+  logger.info(`Audit logging enabled: ${destinations}`);
+
+  return new AuditLog(sinks, config.redact_literals);
+}
@@ -0,0 +1,181 @@
+/**
+ * Session-scoped registry of open query cursors for paginated results
+ */
+
+import { randomBytes } from 'crypto';
+import type { QueryCursor } from '../connectors/types.js';
+import type { QueryResult } from '../utils/formatters.js';
+import { logger } from '../utils/logger.js';
+
+// Session key used for transports without session IDs (stdio)
+const DEFAULT_SESSION = 'default';
+
+// How often idle cursors are swept, at most
+const MAX_SWEEP_INTERVAL = 60_000;
+
+export interface CursorStoreOptions {
+  idleTtl: number;
+  maxPerSession: number;
+}
+
+interface CursorEntry {
+  cursor: QueryCursor;
+  session: string;
+  lastUsed: number;
+  busy: boolean;
+}
+
+/**
+ * Hands out opaque continuation tokens for open cursors. Cursors are closed
+ * when exhausted, after idling longer than the TTL, when their session ends,
+ * or when the session opens more than its cap (oldest first).
+ */
+export class CursorStore {
+  private readonly cursors = new Map<string, CursorEntry>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(private readonly options: CursorStoreOptions) {
+    this.sweepTimer = setInterval(
+      () => void this.sweep(),
+      Math.min(options.idleTtl, MAX_SWEEP_INTERVAL)
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Registers a cursor and returns its continuation token. The session's
+   * least recently used cursors are closed first if it is at its cap.
+   */
+  async register(cursor: QueryCursor, sessionId?: string): Promise<string> {
+    const session = sessionId ?? DEFAULT_SESSION;
+
+    await this.evict(session);
+
+    const token = randomBytes(18).toString('base64url');
+    this.cursors.set(token, { cursor, session, lastUsed: Date.now(), busy: false });
+    logger.debug(`Opened cursor ${token} on ${cursor.sourceId}`);
+
+    return token;
+  }
+
+  /**
+   * Reads the next page for a token. fit tells how many leading rows of the
+   * page, given with its token, the response has room for; the rest are
+   * put back to start the following page. The cursor is closed once
+   * exhausted or on error; otherwise the result carries the token for the
+   * following page.
+   */
+  async nextPage(
+    token: string,
+    sessionId?: string,
+    fit: (page: QueryResult) => number = (page) => page.rows.length
+  ): Promise<QueryResult> {
+    const entry = this.cursors.get(token);
+
+    if (!entry || entry.session !== (sessionId ?? DEFAULT_SESSION)) {
+      throw new Error('Cursor not found or expired. Re-run the query with execute_sql.');
+    }
+
+    if (entry.busy) {
+      throw new Error('Cursor is already fetching a page. Wait for it to finish.');
+    }
+
+    entry.busy = true;
+    entry.lastUsed = Date.now();
+
+    try {
+      const page = await entry.cursor.nextPage();
+      entry.busy = false;
+      entry.lastUsed = Date.now();
+
+      // A first row too long to fit on its own would never be sent, so it
+      // alone is skipped and the response reports it as cut off
+      const kept = Math.max(fit({ ...page, nextCursor: token }), 1);
+      if (kept < page.rows.length) {
+        entry.cursor.unread(page.rows.length - kept);
+        const rows = page.rows.slice(0, kept);
+        return { ...page, rows, rowCount: rows.length, truncated: true, nextCursor: token };
+      }
+
+      if (page.truncated) {
+        return { ...page, nextCursor: token };
+      }
+
+      await this.close(token);
+      return page;
+    } catch (error) {
+      await this.close(token);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes a cursor and forgets its token
+   */
+  async close(token: string): Promise<void> {
+    const entry = this.cursors.get(token);
+    if (!entry) return;
+
+    this.cursors.delete(token);
+
+    try {
+      await entry.cursor.close();
+    } catch (error) {
+      logger.warn(`Failed to close cursor on ${entry.cursor.sourceId}`, error);
+    }
+  }
+
+  /**
+   * Closes all cursors opened by a session
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    for (const [token, entry] of this.cursors) {
+      if (entry.session === sessionId) {
+        await this.close(token);
+      }
+    }
+  }
+
+  /**
+   * Closes all cursors and stops the idle sweeper
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const token of Array.from(this.cursors.keys())) {
+      await this.close(token);
+    }
+  }
+
+  /**
+   * Number of open cursors
+   */
+  get size(): number {
+    return this.cursors.size;
+  }
+
+  /**
+   * Evicts the least recently used cursors once the session is at its cap
+   */
+  private async evict(session: string): Promise<void> {
+    const owned = Array.from(this.cursors.entries())
+      .filter(([, entry]) => entry.session === session)
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    while (owned.length >= this.options.maxPerSession) {
+      const [token] = owned.shift()!;
+      logger.info(`Evicting cursor ${token}: session has ${this.options.maxPerSession} open cursors`);
+      await this.close(token);
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    const cutoff = Date.now() - this.options.idleTtl;
+
+    for (const [token, entry] of this.cursors) {
+      if (!entry.busy && entry.lastUsed < cutoff) {
+        logger.debug(`Closing idle cursor ${token} on ${entry.cursor.sourceId}`);
+        await this.close(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Column-level masking of query results
+ */
+
+import { createHash } from 'crypto';
+import type { MaskingRule, MaskingStrategy, SourceConfig } from '../config/types.js';
+import type { IConnector, QueryCursor } from '../connectors/index.js';
+import type { SchemaCache } from './schema-cache.js';
+import type { ColumnOrigin, QueryResult } from '../utils/formatters.js';
+import {
+  classifySql,
+  dialectForDbType,
+  functionsReadingTables,
+  referencedNames,
+  referencedTables,
+  type TableReference,
+} from '../utils/sql-classifier.js';
+import { globToRegExp } from '../utils/glob.js';
+
+// Replaces values under the redact strategy
+const REDACTED = '[REDACTED]';
+
+// Trailing characters the partial strategy leaves visible
+const PARTIAL_VISIBLE = 4;
+
+// Hex digits of the SHA-256 kept by the hash strategy
+const HASH_LENGTH = 16;
+
+// Masking rule applied to each result column, by column name
+type MaskingPlan = Map<string, MaskRule>;
+
+interface MaskedTableColumn {
+  origin: ColumnOrigin;
+  rule: MaskRule;
+}
+
+/**
+ * Text form of a value for hashing and partial masking
+ */
+function valueText(value: unknown): string {
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * A result column name without the table prefix Hive adds
+ */
+function bareName(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+}
+
+function isSameTable(reference: TableReference, origin: ColumnOrigin): boolean {
+  return (
+    reference.name.toLowerCase() === origin.table.toLowerCase() &&
+    (reference.schema === undefined ||
+      origin.schema === undefined ||
+      reference.schema.toLowerCase() === origin.schema.toLowerCase())
+  );
+}
+
+/**
+ * One compiled masking rule
+ */
+class MaskRule {
+  readonly strategy: MaskingStrategy;
+  private readonly schema?: RegExp;
+  private readonly table?: RegExp;
+  private readonly column?: RegExp;
+  private readonly pattern?: RegExp;
+
+  constructor(private readonly rule: MaskingRule) {
+    this.strategy = rule.strategy;
+
+    if (rule.column) {
+      const parts = rule.column.split('.').map(globToRegExp);
+      this.column = parts.pop();
+      this.table = parts.pop();
+      this.schema = parts.pop();
+    } else {
+      this.pattern = new RegExp(rule.pattern!, 'i');
+    }
+  }
+
+  /**
+   * Matches a table column. An unknown schema matches any schema part, so
+   * the rule errs towards masking.
+   */
+  matchesColumn(origin: ColumnOrigin): boolean {
+    if (this.pattern) {
+      return this.pattern.test(origin.column);
+    }
+
+    return (
+      this.column!.test(origin.column) &&
+      (!this.table || this.table.test(origin.table)) &&
+      (!this.schema || origin.schema === undefined || this.schema.test(origin.schema))
+    );
+  }
+
+  /**
+   * Matches a result column by the name it was returned under; only pattern
+   * rules do, as that name may be an alias
+   */
+  matchesName(name: string): boolean {
+    return this.pattern?.test(name) ?? false;
+  }
+
+  mask(value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    switch (this.strategy) {
+      case 'null':
+        return null;
+      case 'redact':
+        return REDACTED;
+      case 'hash':
+        return createHash('sha256')
+          .update((this.rule.salt ?? '') + valueText(value))
+          .digest('hex')
+          .slice(0, HASH_LENGTH);
+      case 'partial': {
+        // Values too short to hide anything are masked entirely
+        const text = valueText(value);
+        const visible = text.length > PARTIAL_VISIBLE ? text.slice(-PARTIAL_VISIBLE) : '';
+        return '*'.repeat(text.length - visible.length) + visible;
+      }
+    }
+  }
+}
+
+function maskResult(result: QueryResult, plan: MaskingPlan): QueryResult {
+  if (plan.size === 0) {
+    return result;
+  }
+
+  const rows = result.rows.map((row) => {
+    const masked = { ...row };
+    for (const [name, rule] of plan) {
+      if (name in masked) {
+        masked[name] = rule.mask(masked[name]);
+      }
+    }
+    return masked;
+  });
+
+  return {
+    ...result,
+    rows,
+    maskedColumns: result.columns
+      .filter((name) => plan.has(name))
+      .map((name) => ({ name, strategy: plan.get(name)!.strategy })),
+  };
+}
+
+/**
+ * Applies each source's masking rules to query results. A result column is
+ * traced to the table column it reads through driver metadata where the
+ * driver reports it, and otherwise by name against the tables the statement
+ * references. Columns that can't be traced are masked when a referenced
+ * table has a masked column, as their values may be derived from it.
+ */
+export class DataMasking {
+  private readonly rules = new Map<string, MaskRule[]>();
+
+  constructor(sources: Iterable<SourceConfig>) {
+    for (const source of sources) {
+      if (source.masking?.length) {
+        this.rules.set(source.id, source.masking.map((rule) => new MaskRule(rule)));
+      }
+    }
+  }
+
+  /**
+   * Masks the rows of a statement's result
+   */
+  async apply(
+    connector: IConnector,
+    sql: string,
+    result: QueryResult,
+    schemaCache?: SchemaCache
+  ): Promise<QueryResult> {
+    const rules = this.rules.get(connector.sourceId);
+    if (!rules) {
+      return result;
+    }
+
+    return maskResult(result, await this.plan(connector, sql, result, rules, schemaCache));
+  }
+
+  /**
+   * Wraps a cursor so every page it reads is masked. Columns are traced
+   * once, from the first page.
+   */
+  wrapCursor(
+    connector: IConnector,
+    sql: string,
+    cursor: QueryCursor,
+    schemaCache?: SchemaCache
+  ): QueryCursor {
+    const rules = this.rules.get(connector.sourceId);
+    if (!rules) {
+      return cursor;
+    }
+
+    let plan: Promise<MaskingPlan> | undefined;
+
+    return {
+      sourceId: cursor.sourceId,
+      nextPage: async () => {
+        const page = await cursor.nextPage();
+        plan ??= this.plan(connector, sql, page, rules, schemaCache);
+        return maskResult(page, await plan);
+      },
+      // The rows go back unmasked, and are masked again when read
+      unread: (count) => cursor.unread(count),
+      close: () => cursor.close(),
+    };
+  }
+
+  private async plan(
+    connector: IConnector,
+    sql: string,
+    result: QueryResult,
+    rules: MaskRule[],
+    schemaCache?: SchemaCache
+  ): Promise<MaskingPlan> {
+    const plan: MaskingPlan = new Map();
+    const dialect = dialectForDbType(connector.dbType);
+    const tables = referencedTables(sql, dialect);
+    const untraced: string[] = [];
+
+    result.columns.forEach((name, index) => {
+      const origin = result.origins?.[index] ?? null;
+      const rule = rules.find(
+        (rule) => rule.matchesName(name) || (origin !== null && rule.matchesColumn(origin))
+      );
+
+      if (rule) {
+        plan.set(name, rule);
+      } else if (!origin || !tables?.some((table) => isSameTable(table, origin))) {
+        // Origins outside the statement's tables come from views or derived tables
+        untraced.push(name);
+      }
+    });
+
+    // Writes report counts, unless they return rows with RETURNING or OUTPUT
+    const names = referencedNames(sql, dialect);
+    const returnsRows =
+      classifySql(sql, dialect).some((statement) => statement.type === 'read') ||
+      names.has('returning') ||
+      names.has('output');
+
+    if (untraced.length === 0 || !returnsRows) {
+      return plan;
+    }
+
+    // Untraced columns may come from any table the parser missed
+    if (tables === null) {
+      throw new Error(
+        'Cannot tell which tables this query reads to mask its result. Simplify the FROM clause.'
+      );
+    }
+
+    // Or from a table that a table function or a function running SQL text reads
+    const functions = functionsReadingTables(sql, dialect);
+    if (functions.length > 0) {
+      throw new Error(
+        `Cannot tell which tables ${functions[0]}() reads to mask this query's result.`
+      );
+    }
+    if (tables.length === 0) {
+      return plan;
+    }
+
+    const columns = await this.tableColumns(connector, tables, schemaCache);
+    const masked: MaskedTableColumn[] = [];
+    for (const origin of columns) {
+      const rule = rules.find((rule) => rule.matchesColumn(origin));
+      if (rule) {
+        masked.push({ origin, rule });
+      }
+    }
+
+    // Masked columns the statement uses anywhere, e.g. in an expression or under an alias
+    const used = masked.filter(({ origin }) => names.has(origin.column.toLowerCase()));
+    const returned = new Set(result.columns.map(bareName));
+
+    for (const name of untraced) {
+      const bare = bareName(name);
+
+      // A masked column returned under its own name
+      let rule = masked.find(({ origin }) => origin.column.toLowerCase() === bare)?.rule;
+
+      if (!rule) {
+        // Without driver origins a table column's name is taken at its word,
+        // unless a masked column the statement uses is missing from the result
+        const isTableColumn =
+          !result.origins && columns.some((origin) => origin.column.toLowerCase() === bare);
+        const sources = isTableColumn
+          ? used.filter(({ origin }) => !returned.has(origin.column.toLowerCase()))
+          : used;
+
+        // Anything else may hold a whole row, as row_to_json(u), u::text and
+        // FOR JSON do, so it is masked when any referenced table has a masked column
+        rule = sources[0]?.rule ?? (isTableColumn ? undefined : masked[0]?.rule);
+      }
+
+      if (rule) {
+        plan.set(name, rule);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Lists the columns of the referenced tables. Unqualified tables are
+   * searched in every schema.
+   */
+  private async tableColumns(
+    connector: IConnector,
+    tables: TableReference[],
+    schemaCache?: SchemaCache
+  ): Promise<ColumnOrigin[]> {
+    const search = async (schema: string | undefined, table: string) => {
+      const options = { objectType: 'column' as const, schema, table };
+      return schemaCache
+        ? (await schemaCache.searchObjects(connector, options)).objects
+        : connector.searchObjects(options);
+    };
+
+    const columns: ColumnOrigin[] = [];
+    for (const table of tables) {
+      let objects = await search(table.schema, table.name);
+
+      // Unquoted names are stored in lower case on PostgreSQL
+      if (objects.length === 0 && table.name !== table.name.toLowerCase()) {
+        objects = await search(table.schema?.toLowerCase(), table.name.toLowerCase());
+      }
+
+      for (const object of objects) {
+        if (object.type === 'column') {
+          columns.push({
+            schema: object.schema ?? table.schema,
+            table: object.table ?? table.name,
+            column: object.name,
+          });
+        }
+      }
+    }
+    return columns;
+  }
+}
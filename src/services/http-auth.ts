@@ -0,0 +1,172 @@
+/**
+ * Bearer token authentication for the HTTP transport
+ */
+
+import * as fs from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createLocalJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+import type { AuthConfig, JwtAuthConfig } from '../config/types.js';
+import { AuthenticationError, ConfigurationError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+// Same augmentation as the SDK's bearer auth middleware: the Streamable HTTP
+// transport reads req.auth into each handler's extra.authInfo
+declare module 'express-serve-static-core' {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+interface TokenEntry {
+  principal: string;
+  digest: Buffer;
+}
+
+/**
+ * Digests a token so comparisons run over equal-length buffers
+ */
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Reads scopes from the standard scope claim or the scp array some issuers use
+ */
+function scopesFromClaims(payload: JWTPayload): string[] {
+  if (typeof payload.scope === 'string') {
+    return payload.scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(payload.scp)) {
+    return payload.scp.filter((scope): scope is string => typeof scope === 'string');
+  }
+  return [];
+}
+
+/**
+ * Verifies bearer tokens against static tokens and, optionally, JWTs signed
+ * by a key in a local JWKS file. Each token resolves to a principal, exposed
+ * to MCP handlers as authInfo.clientId.
+ */
+export class HttpAuth {
+  private readonly tokens: TokenEntry[] = [];
+  private readonly jwks: JWTVerifyGetKey | null = null;
+
+  constructor(private readonly config: AuthConfig) {
+    for (const { principal, token } of config.tokens ?? []) {
+      const entry = { principal, digest: digest(token) };
+      if (this.tokens.some((existing) => existing.digest.equals(entry.digest))) {
+        throw new ConfigurationError(
+          `Token for ${principal} is already assigned to another principal`
+        );
+      }
+      this.tokens.push(entry);
+    }
+
+    if (config.jwt) {
+      this.jwks = HttpAuth.loadJwks(config.jwt);
+    }
+  }
+
+  private static loadJwks(config: JwtAuthConfig): JWTVerifyGetKey {
+    if (!fs.existsSync(config.jwks_path)) {
+      throw new ConfigurationError(`JWKS file not found: ${config.jwks_path}`);
+    }
+
+    try {
+      return createLocalJWKSet(JSON.parse(fs.readFileSync(config.jwks_path, 'utf-8')));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Invalid JWKS file ${config.jwks_path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Resolves a bearer token to the principal it belongs to
+   */
+  async verify(token: string): Promise<AuthInfo> {
+    // Compare against every token so timing doesn't reveal which one matched
+    const candidate = digest(token);
+    let principal: string | undefined;
+    for (const entry of this.tokens) {
+      if (timingSafeEqual(entry.digest, candidate)) {
+        principal = entry.principal;
+      }
+    }
+
+    if (principal) {
+      return { token, clientId: principal, scopes: [], extra: { method: 'token' } };
+    }
+
+    // A JWT is three base64url segments
+    if (this.jwks && this.config.jwt && token.split('.').length === 3) {
+      return this.verifyJwt(token, this.jwks, this.config.jwt);
+    }
+
+    throw new AuthenticationError('Unknown bearer token');
+  }
+
+  /**
+   * Express middleware that rejects requests without a valid bearer token and
+   * sets req.auth, which the MCP transport passes on to handlers
+   */
+  middleware(): RequestHandler {
+    return async (req, res, next) => {
+      const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+
+      try {
+        if (!match) {
+          throw new AuthenticationError('Missing bearer token');
+        }
+        req.auth = await this.verify(match[1]);
+        next();
+      } catch (error) {
+        logger.warn(
+          `Rejected HTTP request from ${req.ip}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        res
+          .status(401)
+          .set('WWW-Authenticate', 'Bearer realm="opendb"')
+          .json({ error: 'Unauthorized' });
+      }
+    };
+  }
+
+  private async verifyJwt(
+    token: string,
+    jwks: JWTVerifyGetKey,
+    config: JwtAuthConfig
+  ): Promise<AuthInfo> {
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, jwks, {
+        issuer: config.issuer,
+        audience: config.audience,
+        algorithms: config.algorithms,
+        clockTolerance: config.clock_tolerance,
+        // Tokens that never expire can't be revoked by waiting them out
+        requiredClaims: ['exp'],
+      }));
+    } catch (error) {
+      throw new AuthenticationError(
+        `Invalid JWT: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const principal = payload[config.principal_claim];
+    if (typeof principal !== 'string' || principal === '') {
+      throw new AuthenticationError(`JWT has no ${config.principal_claim} claim`);
+    }
+
+    return {
+      token,
+      clientId: principal,
+      scopes: scopesFromClaims(payload),
+      expiresAt: payload.exp,
+      extra: { method: 'jwt', claims: payload },
+    };
+  }
+}
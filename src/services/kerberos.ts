@@ -5,8 +5,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { spawn } from 'child_process';
+import type { Attributes } from '@opentelemetry/api';
 import { KerberosError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
+import { SPAN_ATTRIBUTES, withSpan } from './tracing.js';
 
 export interface KerberosConfig {
   keytab: string;
@@ -29,6 +31,13 @@ export class KerberosAuth {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
+    await withSpan('kerberos.initialize', this.spanAttributes, () => this.kinitFromKeytab());
+  }
+
+  /**
+   * Obtains the first ticket and schedules its refresh
+   */
+  private async kinitFromKeytab(): Promise<void> {
     const keytabPath = path.resolve(this.config.keytab);
 
     // Validate keytab file exists
@@ -84,6 +93,17 @@ export class KerberosAuth {
     return new Date() < this.ticketExpiry;
   }
 
+  private get spanAttributes(): Attributes {
+    return { [SPAN_ATTRIBUTES.kerberosPrincipal]: this.config.principal };
+  }
+
+  /**
+   * When the current ticket expires, or null if unknown
+   */
+  get expiresAt(): Date | null {
+    return this.ticketExpiry;
+  }
+
   /**
    * Refresh Kerberos ticket if needed
    */
@@ -93,8 +113,10 @@ export class KerberosAuth {
       return;
     }
 
-    const keytabPath = path.resolve(this.config.keytab);
-    await this.kinit(keytabPath, this.config.principal);
+    await withSpan('kerberos.refresh', this.spanAttributes, async () => {
+      const keytabPath = path.resolve(this.config.keytab);
+      await this.kinit(keytabPath, this.config.principal);
+    });
     this.scheduleRefresh();
   }
 
@@ -0,0 +1,323 @@
+/**
+ * Prometheus metrics for queries, tool calls, sessions and sources
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+
+// Upper bounds of the query latency histogram buckets, in seconds
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+// Content type of the text exposition format
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+export interface MetricsContext {
+  sourceId: string;
+  // Tool the query ran for
+  tool: string;
+}
+
+export interface QueryOutcome {
+  rows?: number;
+  truncated?: boolean;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelText(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * One metric family; series are keyed by their label values, which callers
+ * always pass in the same order
+ */
+abstract class Metric<S> {
+  protected readonly series = new Map<string, { labels: Labels; value: S }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].flatMap(({ labels, value }) => this.samples(labels, value)),
+    ].join('\n');
+  }
+
+  protected entry(labels: Labels, initial: () => S): { labels: Labels; value: S } {
+    const key = JSON.stringify(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract samples(labels: Labels, value: S): string[];
+}
+
+class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels, by = 1): void {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${labelText(labels)} ${formatValue(value)}`];
+  }
+}
+
+class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /**
+   * Drops every series, e.g. before setting those of sources still present
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${labelText(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  // Observations per bucket, not cumulative
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram extends Metric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly bounds: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    const bucket = this.bounds.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      entry.buckets[bucket]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected samples(labels: Labels, value: HistogramValue): string[] {
+    let cumulative = 0;
+    const buckets = this.bounds.map((bound, index) => {
+      cumulative += value.buckets[index];
+      return `${this.name}_bucket${labelText({ ...labels, le: formatValue(bound) })} ${cumulative}`;
+    });
+
+    return [
+      ...buckets,
+      `${this.name}_bucket${labelText({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${labelText(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${labelText(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * Collects server metrics and renders them in the Prometheus text format.
+ * Queries are counted as tools run them, so every connector is covered;
+ * source state (pools, Kerberos tickets, health) is read from the
+ * ConnectorManager at scrape time.
+ */
+export class Metrics {
+  private readonly queries = new Counter(
+    'opendb_queries_total',
+    'Queries run, by source and tool'
+  );
+  private readonly queryDuration = new Histogram(
+    'opendb_query_duration_seconds',
+    'Query latency in seconds, by source and tool',
+    DURATION_BUCKETS
+  );
+  private readonly queryErrors = new Counter(
+    'opendb_query_errors_total',
+    'Failed queries, by source, tool and error class'
+  );
+  private readonly rowsReturned = new Counter(
+    'opendb_rows_returned_total',
+    'Rows returned by queries, by source and tool'
+  );
+  private readonly truncatedResults = new Counter(
+    'opendb_truncated_results_total',
+    'Query results cut off at the row limit, by source and tool'
+  );
+  private readonly toolCalls = new Counter(
+    'opendb_tool_calls_total',
+    'MCP tool calls, by tool and outcome'
+  );
+  private readonly activeSessions = new Gauge(
+    'opendb_active_sessions',
+    'Open MCP sessions on the HTTP transport'
+  );
+  private readonly sourceUp = new Gauge(
+    'opendb_source_up',
+    'Whether the source is connected and healthy (1) or not (0)'
+  );
+  private readonly poolConnections = new Gauge(
+    'opendb_pool_connections',
+    'Open pooled connections, by source and state (busy or idle)'
+  );
+  private readonly poolWaiting = new Gauge(
+    'opendb_pool_waiting',
+    'Callers waiting for a pooled connection, by source'
+  );
+  private readonly poolMax = new Gauge(
+    'opendb_pool_max_connections',
+    'Largest number of pooled connections allowed, by source'
+  );
+  private readonly kerberosExpiry = new Gauge(
+    'opendb_kerberos_ticket_expiry_seconds',
+    'Seconds until the Kerberos ticket expires, by source; negative once expired'
+  );
+
+  private sessionCount: () => number = () => 0;
+
+  constructor(private readonly connectorManager: ConnectorManager) {}
+
+  /**
+   * Times a query and counts its outcome. Errors are counted by their class
+   * and rethrown.
+   */
+  async track<T>(
+    context: MetricsContext,
+    run: () => Promise<T>,
+    outcome?: (result: T) => QueryOutcome
+  ): Promise<T> {
+    const labels = { source: context.sourceId, tool: context.tool };
+    const startedAt = performance.now();
+
+    this.queries.inc(labels);
+    try {
+      const result = await run();
+      const { rows, truncated } = outcome?.(result) ?? {};
+      if (rows !== undefined) {
+        this.rowsReturned.inc(labels, rows);
+      }
+      if (truncated) {
+        this.truncatedResults.inc(labels);
+      }
+      return result;
+    } catch (error) {
+      this.queryErrors.inc({
+        ...labels,
+        error: error instanceof Error ? error.name : typeof error,
+      });
+      throw error;
+    } finally {
+      this.queryDuration.observe(labels, (performance.now() - startedAt) / 1000);
+    }
+  }
+
+  /**
+   * Counts a tool call by whether it returned an error
+   */
+  toolCalled(tool: string, isError?: boolean): void {
+    this.toolCalls.inc({ tool, outcome: isError ? 'error' : 'success' });
+  }
+
+  /**
+   * Sets where the number of open sessions is read from at scrape time
+   */
+  countSessions(count: () => number): void {
+    this.sessionCount = count;
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    this.collectSources();
+    this.activeSessions.set({}, this.sessionCount());
+
+    return (
+      [
+        this.queries,
+        this.queryDuration,
+        this.queryErrors,
+        this.rowsReturned,
+        this.truncatedResults,
+        this.toolCalls,
+        this.activeSessions,
+        this.sourceUp,
+        this.poolConnections,
+        this.poolWaiting,
+        this.poolMax,
+        this.kerberosExpiry,
+      ]
+        .map((metric) => metric.render())
+        .join('\n') + '\n'
+    );
+  }
+
+  private collectSources(): void {
+    const gauges = [
+      this.sourceUp,
+      this.poolConnections,
+      this.poolWaiting,
+      this.poolMax,
+      this.kerberosExpiry,
+    ];
+    for (const gauge of gauges) {
+      gauge.reset();
+    }
+
+    for (const source of this.connectorManager.listSources()) {
+      const labels = { source: source.id };
+      this.sourceUp.set(labels, source.connected && source.health.status === 'healthy' ? 1 : 0);
+
+      if (source.pool) {
+        const { size, idle, waiting, max } = source.pool;
+        this.poolConnections.set({ ...labels, state: 'busy' }, size - idle);
+        this.poolConnections.set({ ...labels, state: 'idle' }, idle);
+        this.poolWaiting.set(labels, waiting);
+        this.poolMax.set(labels, max);
+      }
+
+      const expiresAt = this.connectorManager.get(source.id)?.getKerberosTicketExpiry();
+      if (expiresAt) {
+        this.kerberosExpiry.set(labels, (expiresAt.getTime() - Date.now()) / 1000);
+      }
+    }
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * Streams query results to CSV, JSON Lines and Parquet files for export_query
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { randomBytes } from 'crypto';
+import {
+  ParquetWriter,
+  fileWriter,
+  schemaFromColumnData,
+  type BasicType,
+  type ColumnSource,
+  type Writer,
+} from 'hyparquet-writer';
+import type { ExportConfig, SourceConfig } from '../config/types.js';
+import type { QueryCursor } from '../connectors/index.js';
+import { csvField, jsonReplacer, valueText, type QueryResult } from '../utils/formatters.js';
+import {
+  DEFAULT_EXPORT_FILE_TTL,
+  DEFAULT_EXPORT_MAX_BYTES,
+  DEFAULT_EXPORT_MAX_ROWS,
+} from '../constants.js';
+import { logger } from '../utils/logger.js';
+
+// Resource URI scheme of exported files
+const EXPORT_URI_PREFIX = 'opendb-export://';
+
+// Names given by exportFileName, which the sweep may delete
+const EXPORT_FILE_NAME = /^[\w.-]+-\d{8}T\d{6}Z-[0-9a-f]{8}\.(csv|jsonl|parquet)$/;
+
+// How often expired exports are swept, at most
+const MAX_SWEEP_INTERVAL = 10 * 60_000;
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/jsonl',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+// Which limit an export stopped at before the result ran out
+export type ExportLimit = 'rows' | 'bytes';
+
+export interface ExportedFile {
+  name: string;
+  path: string;
+  format: ExportFormat;
+  sourceId: string;
+  // Principal that ran the export; only they can read it as a resource
+  principal: string;
+  rows: number;
+  bytes: number;
+  truncated?: ExportLimit;
+  createdAt: string;
+}
+
+export interface ExportLimits {
+  maxRows: number;
+  maxBytes: number;
+}
+
+/**
+ * Appends pages of rows to an export file
+ */
+interface ExportWriter {
+  // Bytes written so far
+  readonly bytes: number;
+  /**
+   * Writes rows while the file stays within maxBytes and returns how many
+   * were written. Parquet writes whole pages, so its files may go over by
+   * one page.
+   */
+  write(columns: string[], rows: Record<string, unknown>[], maxBytes: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * Writes line-oriented text formats through a file stream
+ */
+abstract class TextExportWriter implements ExportWriter {
+  bytes = 0;
+  private readonly stream: fs.WriteStream;
+  private started = false;
+
+  constructor(filePath: string) {
+    this.stream = fs.createWriteStream(filePath, { mode: 0o600 });
+  }
+
+  async write(
+    columns: string[],
+    rows: Record<string, unknown>[],
+    maxBytes: number
+  ): Promise<number> {
+    let chunk = '';
+    let size = this.bytes;
+
+    if (!this.started) {
+      const header = this.header(columns);
+      chunk += header;
+      size += Buffer.byteLength(header);
+      this.started = true;
+    }
+
+    let written = 0;
+    for (const row of rows) {
+      const line = this.line(columns, row);
+      const lineSize = Buffer.byteLength(line);
+      if (size + lineSize > maxBytes) break;
+      chunk += line;
+      size += lineSize;
+      written++;
+    }
+
+    this.bytes = size;
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+    return written;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.stream.once('error', reject);
+      this.stream.end(resolve);
+    });
+  }
+
+  protected abstract header(columns: string[]): string;
+  protected abstract line(columns: string[], row: Record<string, unknown>): string;
+}
+
+class CsvExportWriter extends TextExportWriter {
+  protected header(columns: string[]): string {
+    return columns.map(csvField).join(',') + '\r\n';
+  }
+
+  protected line(columns: string[], row: Record<string, unknown>): string {
+    return columns.map((column) => csvField(row[column])).join(',') + '\r\n';
+  }
+}
+
+class JsonlExportWriter extends TextExportWriter {
+  protected header(): string {
+    return '';
+  }
+
+  protected line(columns: string[], row: Record<string, unknown>): string {
+    // Keep the result's column order
+    const ordered = Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+    return JSON.stringify(ordered, jsonReplacer) + '\n';
+  }
+}
+
+/**
+ * Parquet column type for the values of a column's first page. Columns of
+ * mixed or unknown kind are written as strings.
+ */
+function parquetType(values: unknown[]): BasicType {
+  const kinds = new Set<BasicType>();
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === 'boolean') kinds.add('BOOLEAN');
+    else if (typeof value === 'number') kinds.add('DOUBLE');
+    else if (typeof value === 'bigint') kinds.add('INT64');
+    else if (value instanceof Date) kinds.add('TIMESTAMP');
+    else if (Buffer.isBuffer(value)) kinds.add('BYTE_ARRAY');
+    else kinds.add('STRING');
+  }
+  return kinds.size === 1 ? [...kinds][0] : 'STRING';
+}
+
+/**
+ * Converts a value to its column's Parquet type, failing on values that
+ * would lose data
+ */
+function parquetValue(value: unknown, type: BasicType, column: string): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'STRING':
+      return valueText(value);
+    case 'BOOLEAN':
+      if (typeof value === 'boolean') return value;
+      break;
+    case 'DOUBLE':
+      if (typeof value === 'number') return value;
+      break;
+    case 'INT64':
+      if (typeof value === 'bigint') return value;
+      if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+      break;
+    case 'TIMESTAMP':
+      if (value instanceof Date) return value;
+      break;
+    case 'BYTE_ARRAY':
+      if (Buffer.isBuffer(value)) return new Uint8Array(value);
+      break;
+  }
+  throw new Error(
+    `Column ${column} changed type mid-export (${type} expected); use csv or jsonl, or cast the column in SQL`
+  );
+}
+
+/**
+ * Writes one row group per page, with column types taken from the first page
+ */
+class ParquetExportWriter implements ExportWriter {
+  private readonly fileWriter: Writer;
+  private writer?: ParquetWriter;
+  private types: BasicType[] = [];
+
+  constructor(filePath: string) {
+    this.fileWriter = fileWriter(filePath);
+  }
+
+  get bytes(): number {
+    return this.fileWriter.offset;
+  }
+
+  async write(
+    columns: string[],
+    rows: Record<string, unknown>[],
+    maxBytes: number
+  ): Promise<number> {
+    if (!this.writer) {
+      this.types = columns.map((column) => parquetType(rows.map((row) => row[column])));
+      this.writer = new ParquetWriter({
+        writer: this.fileWriter,
+        schema: schemaFromColumnData({ columnData: this.columnData(columns, []) }),
+      });
+    }
+
+    if (rows.length === 0 || this.bytes >= maxBytes) {
+      return 0;
+    }
+
+    await this.writer.write({ columnData: this.columnData(columns, rows), rowGroupSize: rows.length });
+    return rows.length;
+  }
+
+  async close(): Promise<void> {
+    // A result without columns never reached write()
+    this.writer ??= new ParquetWriter({
+      writer: this.fileWriter,
+      schema: schemaFromColumnData({ columnData: [] }),
+    });
+    await this.writer.finish();
+  }
+
+  private columnData(columns: string[], rows: Record<string, unknown>[]): ColumnSource[] {
+    return columns.map((name, index) => ({
+      name,
+      type: this.types[index],
+      nullable: true,
+      data: rows.map((row) => parquetValue(row[name], this.types[index], name)),
+    }));
+  }
+}
+
+function createWriter(format: ExportFormat, filePath: string): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvExportWriter(filePath);
+    case 'jsonl':
+      return new JsonlExportWriter(filePath);
+    case 'parquet':
+      return new ParquetExportWriter(filePath);
+  }
+}
+
+/**
+ * File name for a new export: source, time and a random suffix, so names
+ * can't be guessed or collide
+ */
+function exportFileName(sourceId: string, format: ExportFormat): string {
+  const safeSourceId = sourceId.replace(/[^\w.-]/g, '_');
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${safeSourceId}-${timestamp}-${randomBytes(4).toString('hex')}.${format}`;
+}
+
+/**
+ * Writes query results to files in the [export] directory, within per-source
+ * row and byte limits, and keeps track of the files written by this process
+ * so they can be served as resources to the principal that exported them.
+ * Exports older than the file TTL are deleted, including those left by
+ * earlier runs.
+ */
+export class ResultExporter {
+  private readonly files = new Map<string, ExportedFile>();
+  private readonly sourceLimits = new Map<string, Partial<ExportLimits>>();
+  private readonly fileTtl: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    private readonly config: ExportConfig,
+    sources: Iterable<SourceConfig>
+  ) {
+    for (const source of sources) {
+      this.sourceLimits.set(source.id, {
+        maxRows: source.export_max_rows,
+        maxBytes: source.export_max_bytes,
+      });
+    }
+
+    this.fileTtl = config.file_ttl ?? DEFAULT_EXPORT_FILE_TTL;
+    this.sweepTimer = setInterval(
+      () => void this.sweep(),
+      Math.min(this.fileTtl, MAX_SWEEP_INTERVAL)
+    );
+    this.sweepTimer.unref();
+    void this.sweep();
+  }
+
+  /**
+   * True when exported files are exposed as MCP resources
+   */
+  get exposesResources(): boolean {
+    return this.config.resources;
+  }
+
+  limits(sourceId: string): ExportLimits {
+    const source = this.sourceLimits.get(sourceId);
+    return {
+      maxRows: source?.maxRows ?? this.config.max_rows ?? DEFAULT_EXPORT_MAX_ROWS,
+      maxBytes: source?.maxBytes ?? this.config.max_bytes ?? DEFAULT_EXPORT_MAX_BYTES,
+    };
+  }
+
+  /**
+   * Reads the cursor page by page into a new file until the result or a
+   * limit runs out, and closes the cursor. Without a cursor the whole result
+   * is passed instead, read up to the export's row limit.
+   * Returns the file and its first page. A failed export leaves no file
+   * behind.
+   */
+  async write(
+    sourceId: string,
+    source: QueryCursor | QueryResult,
+    format: ExportFormat,
+    principal: string
+  ): Promise<{ file: ExportedFile; firstPage: QueryResult }> {
+    const { maxRows, maxBytes } = this.limits(sourceId);
+    const cursor = 'nextPage' in source ? source : undefined;
+
+    await fs.promises.mkdir(this.config.directory, { recursive: true, mode: 0o700 });
+    const name = exportFileName(sourceId, format);
+    const filePath = path.join(this.config.directory, name);
+    const writer = createWriter(format, filePath);
+
+    let firstPage: QueryResult | undefined;
+    let rows = 0;
+    let truncated: ExportLimit | undefined;
+
+    try {
+      for (;;) {
+        const page = cursor ? await cursor.nextPage() : (source as QueryResult);
+        firstPage ??= page;
+
+        const wanted = page.rows.slice(0, maxRows - rows);
+        const written = await writer.write(page.columns, wanted, maxBytes);
+        rows += written;
+
+        if (written < wanted.length) {
+          truncated = 'bytes';
+        } else if (
+          wanted.length < page.rows.length ||
+          (page.truncated && (rows >= maxRows || !cursor))
+        ) {
+          truncated = 'rows';
+        }
+        if (truncated || !page.truncated) break;
+      }
+      await writer.close();
+
+      // The Parquet library creates files with default permissions
+      await fs.promises.chmod(filePath, 0o600);
+    } catch (error) {
+      await writer.close().catch(() => undefined);
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    } finally {
+      await cursor?.close();
+    }
+
+    const file: ExportedFile = {
+      name,
+      path: filePath,
+      format,
+      sourceId,
+      principal,
+      rows,
+      bytes: writer.bytes,
+      truncated,
+      createdAt: new Date().toISOString(),
+    };
+    this.files.set(name, file);
+
+    logger.info(`Exported ${rows} rows from ${sourceId} to ${filePath}`);
+    return { file, firstPage: firstPage! };
+  }
+
+  /**
+   * Resource URI of an exported file
+   */
+  resourceUri(file: ExportedFile): string {
+    return `${EXPORT_URI_PREFIX}${encodeURIComponent(file.name)}`;
+  }
+
+  /**
+   * Files the principal exported that still exist
+   */
+  list(principal: string): ExportedFile[] {
+    return [...this.files.values()].filter(
+      (file) => file.principal === principal && fs.existsSync(file.path)
+    );
+  }
+
+  /**
+   * A file the principal exported, by name
+   */
+  get(name: string, principal: string): ExportedFile | undefined {
+    const file = this.files.get(name);
+    return file?.principal === principal ? file : undefined;
+  }
+
+  /**
+   * Stops sweeping expired exports. Exported files are left in place.
+   */
+  close(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Deletes exports in the directory last written before the file TTL
+   */
+  private async sweep(): Promise<void> {
+    const cutoff = Date.now() - this.fileTtl;
+
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.config.directory);
+    } catch {
+      // Not created until the first export
+      return;
+    }
+
+    for (const name of names.filter((name) => EXPORT_FILE_NAME.test(name))) {
+      const filePath = path.join(this.config.directory, name);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        if (stats.mtimeMs < cutoff) {
+          await fs.promises.rm(filePath, { force: true });
+          this.files.delete(name);
+          logger.debug(`Deleted expired export ${filePath}`);
+        }
+      } catch (error) {
+        logger.warn(`Could not delete expired export ${filePath}`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Creates the exporter described by the [export] config section, or null
+ * when exports are not configured
+ */
+export function createResultExporter(
+  config: ExportConfig | undefined,
+  sources: Iterable<SourceConfig>
+): ResultExporter | null {
+  if (!config) {
+    return null;
+  }
+
+  logger.info(`Query exports enabled: ${config.directory}`);
+  return new ResultExporter(config, sources);
+}
@@ -0,0 +1,257 @@
+/**
+ * Per-source cache of schema search results with optional disk persistence
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IConnector, SchemaSearchOptions } from '../connectors/types.js';
+import type { SchemaObject } from '../utils/formatters.js';
+import { logger } from '../utils/logger.js';
+
+// Version of the persisted file layout; other versions are ignored
+const PERSIST_VERSION = 1;
+
+// Delay before writing changes to disk, so bursts of misses are written once
+const PERSIST_DELAY = 1_000;
+
+export interface SchemaCacheOptions {
+  // Time to live in milliseconds; 0 disables caching
+  ttl: number;
+  // Per-source TTL overrides
+  sourceTtls?: Map<string, number>;
+  maxEntries: number;
+  // File the cache is persisted to, if any
+  path?: string;
+}
+
+export interface CachedSearch {
+  objects: SchemaObject[];
+  // True when served from the cache rather than the database
+  hit: boolean;
+  // When the objects were read from the database (epoch milliseconds)
+  cachedAt: number;
+}
+
+interface CacheEntry {
+  sourceId: string;
+  options: SchemaSearchOptions;
+  objects: SchemaObject[];
+  cachedAt: number;
+}
+
+type InvalidateListener = (sourceId: string, schema?: string) => void;
+
+/**
+ * Caches IConnector.searchObjects results per source and search options.
+ * Entries expire after the source's TTL, and the least recently used entries
+ * are evicted beyond maxEntries.
+ */
+export class SchemaCache {
+  // Insertion order doubles as recency order: hits are re-inserted at the end
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<CachedSearch>>();
+  private readonly listeners: InvalidateListener[] = [];
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: SchemaCacheOptions) {}
+
+  /**
+   * Returns a connector's search results, from the cache when fresh
+   */
+  async searchObjects(
+    connector: IConnector,
+    options: SchemaSearchOptions = {}
+  ): Promise<CachedSearch> {
+    const ttl = this.ttlFor(connector.sourceId);
+    if (ttl === 0) {
+      return { objects: await connector.searchObjects(options), hit: false, cachedAt: Date.now() };
+    }
+
+    const key = this.key(connector.sourceId, options);
+    const entry = this.entries.get(key);
+
+    if (entry && entry.cachedAt + ttl > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return { objects: entry.objects, hit: true, cachedAt: entry.cachedAt };
+    }
+
+    // Concurrent misses for the same key share one database round trip
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const load: Promise<CachedSearch> = connector
+      .searchObjects(options)
+      .then((objects) => {
+        const cachedAt = Date.now();
+        // Results loaded across an invalidation may already be stale
+        if (this.pending.get(key) === load) {
+          this.set(key, { sourceId: connector.sourceId, options, objects, cachedAt });
+        }
+        return { objects, hit: false, cachedAt };
+      })
+      .finally(() => {
+        if (this.pending.get(key) === load) {
+          this.pending.delete(key);
+        }
+      });
+
+    this.pending.set(key, load);
+    return load;
+  }
+
+  /**
+   * Drops a source's cached entries. With a schema, only entries searched in
+   * that schema and unfiltered entries (which may include it) are dropped.
+   * Returns the number of entries removed.
+   */
+  invalidate(sourceId: string, schema?: string): number {
+    const matches = (entrySourceId: string, entrySchema: string | undefined) =>
+      entrySourceId === sourceId &&
+      (schema === undefined || entrySchema === undefined || entrySchema === schema);
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (matches(entry.sourceId, entry.options.schema)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    for (const key of this.pending.keys()) {
+      const [entrySourceId, , entrySchema] = JSON.parse(key) as [string, unknown, string | null];
+      if (matches(entrySourceId, entrySchema ?? undefined)) {
+        this.pending.delete(key);
+      }
+    }
+
+    logger.debug(`Invalidated ${removed} schema cache entries for ${sourceId}`, { schema });
+
+    if (removed > 0) {
+      this.schedulePersist();
+    }
+
+    for (const listener of this.listeners) {
+      listener(sourceId, schema);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Registers a listener called after every invalidation
+   */
+  onInvalidate(listener: InvalidateListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Loads persisted entries, skipping expired ones and unknown sources
+   */
+  load(sourceIds: string[]): void {
+    if (!this.options.path || !fs.existsSync(this.options.path)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.options.path, 'utf-8')) as {
+        version?: number;
+        entries?: CacheEntry[];
+      };
+
+      if (data.version !== PERSIST_VERSION || !Array.isArray(data.entries)) {
+        logger.warn(`Ignoring schema cache file with unexpected format: ${this.options.path}`);
+        return;
+      }
+
+      const now = Date.now();
+      for (const entry of data.entries) {
+        if (!sourceIds.includes(entry.sourceId)) continue;
+        if (entry.cachedAt + this.ttlFor(entry.sourceId) <= now) continue;
+        this.set(this.key(entry.sourceId, entry.options), entry, false);
+      }
+
+      logger.info(`Loaded ${this.entries.size} schema cache entries from ${this.options.path}`);
+    } catch (error) {
+      logger.warn(`Failed to load schema cache from ${this.options.path}`, error);
+    }
+  }
+
+  /**
+   * Writes pending changes to disk
+   */
+  async close(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      await this.persist();
+    }
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private ttlFor(sourceId: string): number {
+    return this.options.sourceTtls?.get(sourceId) ?? this.options.ttl;
+  }
+
+  private key(sourceId: string, options: SchemaSearchOptions): string {
+    const { objectType, schema, table, pattern } = options;
+    // Parsed back by invalidate(): [sourceId, objectType, schema, table, pattern]
+    return JSON.stringify([
+      sourceId,
+      objectType ?? null,
+      schema ?? null,
+      table ?? null,
+      pattern ?? null,
+    ]);
+  }
+
+  private set(key: string, entry: CacheEntry, persist = true): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Evict the least recently used entries
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+
+    if (persist) {
+      this.schedulePersist();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.options.path || this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist();
+    }, PERSIST_DELAY);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    const file = this.options.path!;
+    const data = { version: PERSIST_VERSION, entries: Array.from(this.entries.values()) };
+
+    try {
+      // Write then rename, so a crash never leaves a half-written file
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, JSON.stringify(data));
+      await fs.promises.rename(temp, file);
+    } catch (error) {
+      logger.warn(`Failed to persist schema cache to ${file}`, error);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * OpenTelemetry tracing of tool calls, connections and queries
+ */
+
+import {
+  context,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import type { TracingConfig } from '../config/types.js';
+import { DEFAULT_OTLP_TRACES_ENDPOINT, SERVER_NAME, SERVER_VERSION } from '../constants.js';
+import { logger } from '../utils/logger.js';
+
+// Span attributes set by this server
+export const SPAN_ATTRIBUTES = {
+  sourceId: 'opendb.source_id',
+  dbType: 'opendb.db_type',
+  statementType: 'opendb.statement_type',
+  tool: 'opendb.tool',
+  sessionId: 'opendb.session_id',
+  kerberosPrincipal: 'opendb.kerberos.principal',
+  operation: 'db.operation.name',
+} as const;
+
+// Spans go through the global tracer provider, which does nothing until
+// Tracing registers one
+const tracer = trace.getTracer(SERVER_NAME, SERVER_VERSION);
+
+/**
+ * Runs an operation in a child span of the active span. The span records
+ * errors the operation throws and ends when it settles.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  operation: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await operation(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Registers the global tracer provider and exports finished spans over
+ * OTLP/HTTP, or keeps them in memory
+ */
+export class Tracing {
+  private readonly provider: BasicTracerProvider;
+  private readonly memoryExporter?: InMemorySpanExporter;
+  private readonly contextManager = new AsyncLocalStorageContextManager();
+
+  constructor(config: TracingConfig) {
+    const resource = resourceFromAttributes({
+      'service.name': config.service_name ?? SERVER_NAME,
+      'service.version': SERVER_VERSION,
+    });
+
+    let spanProcessor;
+    if (config.exporter === 'memory') {
+      this.memoryExporter = new InMemorySpanExporter();
+      spanProcessor = new SimpleSpanProcessor(this.memoryExporter);
+    } else {
+      spanProcessor = new BatchSpanProcessor(
+        new OTLPTraceExporter({ url: config.endpoint ?? DEFAULT_OTLP_TRACES_ENDPOINT })
+      );
+    }
+
+    this.provider = new BasicTracerProvider({ resource, spanProcessors: [spanProcessor] });
+
+    // Child spans find their parent across awaits
+    context.setGlobalContextManager(this.contextManager.enable());
+    trace.setGlobalTracerProvider(this.provider);
+  }
+
+  /**
+   * Spans finished so far, with the memory exporter; empty otherwise
+   */
+  finishedSpans(): ReadableSpan[] {
+    return this.memoryExporter?.getFinishedSpans() ?? [];
+  }
+
+  /**
+   * Exports pending spans and unregisters the provider
+   */
+  async shutdown(): Promise<void> {
+    try {
+      await this.provider.shutdown();
+    } catch (error) {
+      logger.warn('Failed to export pending spans', error);
+    }
+    trace.disable();
+    context.disable();
+  }
+}
+
+/**
+ * Starts tracing as described by the [tracing] config section, or returns
+ * null when tracing is off
+ */
+export function createTracing(config?: TracingConfig): Tracing | null {
+  if (!config?.enabled) {
+    return null;
+  }
+
+  const destination =
+    config.exporter === 'memory' ? 'in memory' : (config.endpoint ?? DEFAULT_OTLP_TRACES_ENDPOINT);
+  logger.info(`Tracing enabled: ${destination}`);
+
+  return new Tracing(config);
+}
@@ -0,0 +1,80 @@
+/**
+ * opendb_describe_table tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import { Authorization } from '../services/access-control.js';
+import { formatTableDescription, type ResponseFormat } from '../utils/formatters.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface DescribeTableInput {
+  source_id?: string;
+  table: string;
+  schema?: string;
+  response_format?: 'markdown' | 'json';
+}
+
+export interface DescribeTableResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface DescribeTableOptions {
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+}
+
+export async function describeTable(
+  connectorManager: ConnectorManager,
+  input: DescribeTableInput,
+  options: DescribeTableOptions = {}
+): Promise<DescribeTableResult> {
+  const { source_id, table, schema, response_format = 'markdown' } = input;
+
+  if (!table || table.trim().length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: Table name is required' }],
+      isError: true,
+    };
+  }
+
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    logger.debug(`Describing table on ${connector.sourceId}`, { schema, table });
+
+    if (schema) {
+      authorization.checkSchema(connector.sourceId, schema);
+    }
+
+    const description = await connector.describeTable(table, schema);
+
+    // The schema is only known once the default has been resolved
+    authorization.checkTable(connector.sourceId, {
+      schema: description.schema ?? schema,
+      name: description.name,
+    });
+
+    // Format response
+    const formatted = formatTableDescription(description, response_format as ResponseFormat);
+
+    return {
+      content: [{ type: 'text', text: formatted }],
+    };
+  } catch (error) {
+    logger.error('Table description failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
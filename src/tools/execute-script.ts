@@ -0,0 +1,165 @@
+/**
+ * opendb_execute_script tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AuditLog } from '../services/audit-log.js';
+import type { DataMasking } from '../services/data-masking.js';
+import type { Metrics } from '../services/metrics.js';
+import { Authorization } from '../services/access-control.js';
+import {
+  formatScriptResults,
+  type ResponseFormat,
+  type ScriptResult,
+  type TransactionMode,
+} from '../utils/formatters.js';
+import { changesSchema } from '../utils/sql-classifier.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface ExecuteScriptInput {
+  source_id?: string;
+  sql: string;
+  transaction?: TransactionMode;
+  on_error?: 'stop' | 'continue';
+  max_rows?: number;
+  timeout_ms?: number;
+  response_format?: 'markdown' | 'json';
+}
+
+export interface ExecuteScriptResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface ExecuteScriptOptions {
+  sessionId?: string;
+  // Invalidated for the source after DDL succeeds
+  schemaCache?: SchemaCache;
+  // Records the script and its outcome
+  auditLog?: AuditLog;
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+  // Masks result columns by the source's masking rules
+  dataMasking?: DataMasking;
+  // Counts and times the script
+  metrics?: Metrics;
+}
+
+export async function executeScript(
+  connectorManager: ConnectorManager,
+  input: ExecuteScriptInput,
+  options: ExecuteScriptOptions = {}
+): Promise<ExecuteScriptResult> {
+  const {
+    source_id,
+    sql,
+    transaction = 'none',
+    on_error = 'stop',
+    max_rows,
+    timeout_ms,
+    response_format = 'markdown',
+  } = input;
+
+  if (!sql || sql.trim().length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: SQL script is required' }],
+      isError: true,
+    };
+  }
+
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    logger.debug(`Executing script on ${connector.sourceId}`, {
+      sql: sql.slice(0, 100),
+      transaction,
+    });
+
+    const { sessionId, auditLog, dataMasking, schemaCache, metrics } = options;
+
+    const query = async (): Promise<ScriptResult> => {
+      // Checked here so denials are audited too
+      await authorization.checkSql(connector, sql);
+
+      const script = await connector.executeScript(sql, {
+        transaction,
+        continueOnError: on_error === 'continue',
+        maxRows: max_rows,
+        timeout: timeout_ms,
+      });
+
+      if (!dataMasking) {
+        return script;
+      }
+
+      const statements = await Promise.all(
+        script.statements.map(async (statement) =>
+          statement.result
+            ? {
+                ...statement,
+                result: await dataMasking.apply(connector, statement.sql, statement.result, schemaCache),
+              }
+            : statement
+        )
+      );
+      return { ...script, statements };
+    };
+
+    const rowsOf = (script: ScriptResult) =>
+      script.statements.reduce((sum, statement) => sum + (statement.result?.rows.length ?? 0), 0);
+
+    const run = metrics
+      ? () =>
+          metrics.track({ sourceId: connector.sourceId, tool: 'execute_script' }, query, (script) => ({
+            rows: rowsOf(script),
+            truncated: script.statements.some((statement) => statement.result?.truncated),
+          }))
+      : query;
+
+    const script = auditLog
+      ? await auditLog.track(
+          {
+            tool: 'execute_script',
+            sessionId,
+            sourceId: connector.sourceId,
+            dbType: connector.dbType,
+            sql,
+          },
+          run,
+          (script) =>
+            script.statements.reduce((sum, statement) => sum + (statement.result?.rowCount ?? 0), 0)
+        )
+      : await run();
+
+    // DDL may have added or dropped tables. Some databases commit DDL
+    // implicitly, so a rolled back script may have changed them too.
+    const ran = script.statements.filter((statement) => statement.status === 'ok');
+    if (schemaCache && ran.some((statement) => changesSchema(statement.type))) {
+      schemaCache.invalidate(connector.sourceId);
+    }
+
+    const formatted = formatScriptResults(script, response_format as ResponseFormat);
+    const failed = script.statements.some((statement) => statement.status === 'error');
+
+    return {
+      content: [{ type: 'text', text: formatted }],
+      ...(failed && { isError: true }),
+    };
+  } catch (error) {
+    logger.error('Script execution failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
@@ -3,7 +3,18 @@
  */
 
 import type { ConnectorManager } from '../connectors/index.js';
-import { formatQueryResults, type ResponseFormat } from '../utils/formatters.js';
+import type { CursorStore } from '../services/cursor-store.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AuditLog } from '../services/audit-log.js';
+import type { DataMasking } from '../services/data-masking.js';
+import type { Metrics } from '../services/metrics.js';
+import { Authorization } from '../services/access-control.js';
+import {
+  formatQueryResults,
+  type QueryResult,
+  type QueryResultFormat,
+} from '../utils/formatters.js';
+import { changesSchema, classifySql, dialectForDbType } from '../utils/sql-classifier.js';
 import { formatErrorForResponse } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
 
@@ -11,7 +22,9 @@ export interface ExecuteSqlInput {
   source_id?: string;
   sql: string;
   params?: unknown[];
-  response_format?: 'markdown' | 'json';
+  max_rows?: number;
+  timeout_ms?: number;
+  response_format?: QueryResultFormat;
 }
 
 export interface ExecuteSqlResult {
@@ -19,11 +32,28 @@ export interface ExecuteSqlResult {
   isError?: boolean;
 }
 
+export interface ExecuteSqlOptions {
+  // When set, truncated results keep their cursor open for fetch_more
+  cursorStore?: CursorStore;
+  sessionId?: string;
+  // Invalidated for the source after DDL succeeds
+  schemaCache?: SchemaCache;
+  // Records the statement and its outcome
+  auditLog?: AuditLog;
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+  // Masks result columns by the source's masking rules
+  dataMasking?: DataMasking;
+  // Counts and times the query
+  metrics?: Metrics;
+}
+
 export async function executeSql(
   connectorManager: ConnectorManager,
-  input: ExecuteSqlInput
+  input: ExecuteSqlInput,
+  options: ExecuteSqlOptions = {}
 ): Promise<ExecuteSqlResult> {
-  const { source_id, sql, params, response_format = 'markdown' } = input;
+  const { source_id, sql, params, max_rows, timeout_ms, response_format = 'markdown' } = input;
 
   if (!sql || sql.trim().length === 0) {
     return {
@@ -32,9 +62,11 @@ export async function executeSql(
     };
   }
 
+  const { authorization = Authorization.unrestricted } = options;
+
   try {
-    // Resolve connector
-    const connector = connectorManager.resolve(source_id);
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
 
     // Ensure connected
     if (!connector.isConnected) {
@@ -43,14 +75,73 @@ export async function executeSql(
 
     logger.debug(`Executing SQL on ${connector.sourceId}`, { sql: sql.slice(0, 100) });
 
-    // Execute query
-    const result = await connector.execute(sql, { params });
+    const executeOptions = { params, maxRows: max_rows, timeout: timeout_ms };
+    const format = response_format as QueryResultFormat;
+    const { cursorStore, sessionId, auditLog, dataMasking, schemaCache, metrics } = options;
+
+    const query = async (): Promise<QueryResult> => {
+      // Checked here so denials are audited too
+      await authorization.checkSql(connector, sql);
+
+      // Page through a server-side cursor when the connector supports it
+      const pageable = cursorStore !== undefined && connector.supportsCursors;
+      const opened = pageable ? await connector.openCursor(sql, executeOptions) : null;
+
+      if (!opened || !cursorStore) {
+        const result = await connector.execute(sql, executeOptions);
+        return dataMasking ? dataMasking.apply(connector, sql, result, schemaCache) : result;
+      }
+
+      // Later pages are masked as fetch_more reads them
+      const cursor = dataMasking
+        ? dataMasking.wrapCursor(connector, sql, opened, schemaCache)
+        : opened;
+
+      // Registering evicts the session's oldest cursor if it is at its cap.
+      // Rows that don't fit in the response start the next page; the store
+      // closes the cursor if the first page is the last
+      const token = await cursorStore.register(cursor, sessionId);
+      return cursorStore.nextPage(
+        token,
+        sessionId,
+        (page) => formatQueryResults(page, format).rowsShown
+      );
+    };
+
+    const run = metrics
+      ? () =>
+          metrics.track({ sourceId: connector.sourceId, tool: 'execute_sql' }, query, (page) => ({
+            rows: page.rows.length,
+            truncated: page.truncated,
+          }))
+      : query;
+
+    const result = auditLog
+      ? await auditLog.track(
+          {
+            tool: 'execute_sql',
+            sessionId,
+            sourceId: connector.sourceId,
+            dbType: connector.dbType,
+            sql,
+            params,
+          },
+          run,
+          (page) => page.rowCount
+        )
+      : await run();
+
+    // DDL may have added or dropped tables
+    const statements = classifySql(sql, dialectForDbType(connector.dbType));
+    if (schemaCache && statements.some((statement) => changesSchema(statement.type))) {
+      schemaCache.invalidate(connector.sourceId);
+    }
 
     // Format response
-    const formatted = formatQueryResults(result, response_format as ResponseFormat);
+    const { text, notes } = formatQueryResults(result, format);
 
     return {
-      content: [{ type: 'text', text: formatted }],
+      content: [{ type: 'text', text }, ...(notes ? [{ type: 'text' as const, text: notes }] : [])],
     };
   } catch (error) {
     logger.error('SQL execution failed', error);
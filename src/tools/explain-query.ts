@@ -0,0 +1,95 @@
+/**
+ * opendb_explain_query tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import { formatQueryPlan, type ResponseFormat } from '../utils/formatters.js';
+import type { AuditLog } from '../services/audit-log.js';
+import { Authorization } from '../services/access-control.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface ExplainQueryInput {
+  source_id?: string;
+  sql: string;
+  params?: unknown[];
+  analyze?: boolean;
+  timeout_ms?: number;
+  response_format?: 'markdown' | 'json';
+}
+
+export interface ExplainQueryResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface ExplainQueryOptions {
+  sessionId?: string;
+  // Records the plan command and its outcome
+  auditLog?: AuditLog;
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+}
+
+export async function explainQuery(
+  connectorManager: ConnectorManager,
+  input: ExplainQueryInput,
+  options: ExplainQueryOptions = {}
+): Promise<ExplainQueryResult> {
+  const { source_id, sql, params, analyze = false, timeout_ms, response_format = 'markdown' } = input;
+
+  if (!sql || sql.trim().length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: SQL query is required' }],
+      isError: true,
+    };
+  }
+
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    logger.debug(`Explaining SQL on ${connector.sourceId}`, { sql: sql.slice(0, 100), analyze });
+
+    const { sessionId, auditLog } = options;
+    const run = async () => {
+      await authorization.checkSql(connector, sql);
+      return connector.explain(sql, { params, analyze, timeout: timeout_ms });
+    };
+
+    // ANALYZE executes the statement, so the record shows which form ran
+    const plan = auditLog
+      ? await auditLog.track(
+          {
+            tool: 'explain_query',
+            sessionId,
+            sourceId: connector.sourceId,
+            dbType: connector.dbType,
+            sql: `${analyze ? 'EXPLAIN ANALYZE' : 'EXPLAIN'} ${sql}`,
+            params,
+          },
+          run
+        )
+      : await run();
+
+    // Format response
+    const formatted = formatQueryPlan(plan, response_format as ResponseFormat);
+
+    return {
+      content: [{ type: 'text', text: formatted }],
+    };
+  } catch (error) {
+    logger.error('Query plan failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * opendb_export_query tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AuditLog } from '../services/audit-log.js';
+import type { DataMasking } from '../services/data-masking.js';
+import type { Metrics } from '../services/metrics.js';
+import type { ExportFormat, ResultExporter } from '../services/result-export.js';
+import { Authorization } from '../services/access-control.js';
+import { formatExportSummary, type ResponseFormat } from '../utils/formatters.js';
+import { classifySql, dialectForDbType } from '../utils/sql-classifier.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { EXPORT_PAGE_SIZE, EXPORT_PREVIEW_ROWS } from '../constants.js';
+
+export interface ExportQueryInput {
+  source_id?: string;
+  sql: string;
+  params?: unknown[];
+  format: ExportFormat;
+  timeout_ms?: number;
+  response_format?: 'markdown' | 'json';
+}
+
+export interface ExportQueryResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface ExportQueryOptions {
+  sessionId?: string;
+  // Records the statement and its outcome
+  auditLog?: AuditLog;
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+  // Resolves unqualified table names for masking
+  schemaCache?: SchemaCache;
+  // Masks result columns by the source's masking rules
+  dataMasking?: DataMasking;
+  // Counts and times the query
+  metrics?: Metrics;
+}
+
+export async function exportQuery(
+  connectorManager: ConnectorManager,
+  exporter: ResultExporter,
+  input: ExportQueryInput,
+  options: ExportQueryOptions = {}
+): Promise<ExportQueryResult> {
+  const { source_id, sql, params, format, timeout_ms, response_format = 'markdown' } = input;
+
+  if (!sql || sql.trim().length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: SQL query is required' }],
+      isError: true,
+    };
+  }
+
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    const statements = classifySql(sql, dialectForDbType(connector.dbType));
+    if (statements.length !== 1 || statements[0].type !== 'read') {
+      return {
+        content: [
+          { type: 'text', text: 'Error: export_query only runs a single read-only statement' },
+        ],
+        isError: true,
+      };
+    }
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    logger.debug(`Exporting SQL on ${connector.sourceId}`, { sql: sql.slice(0, 100), format });
+
+    const { sessionId, auditLog, dataMasking, schemaCache, metrics } = options;
+
+    const query = async () => {
+      // Checked here so denials are audited too
+      await authorization.checkSql(connector, sql);
+
+      // Stream through a server-side cursor; the page size only bounds memory
+      const opened = await connector.openCursor(sql, {
+        params,
+        maxRows: EXPORT_PAGE_SIZE,
+        timeout: timeout_ms,
+      });
+
+      // Without a cursor the whole result is read at once, within the export's
+      // limit rather than the source's max_rows_limit
+      if (!opened) {
+        const result = await connector.execute(sql, {
+          params,
+          maxRows: exporter.limits(connector.sourceId).maxRows,
+          timeout: timeout_ms,
+          exceedRowsLimit: true,
+        });
+        const masked = dataMasking
+          ? await dataMasking.apply(connector, sql, result, schemaCache)
+          : result;
+        return exporter.write(connector.sourceId, masked, format, authorization.principal);
+      }
+
+      const cursor = dataMasking
+        ? dataMasking.wrapCursor(connector, sql, opened, schemaCache)
+        : opened;
+      return exporter.write(connector.sourceId, cursor, format, authorization.principal);
+    };
+
+    const run = metrics
+      ? () =>
+          metrics.track({ sourceId: connector.sourceId, tool: 'export_query' }, query, ({ file }) => ({
+            rows: file.rows,
+            truncated: file.truncated !== undefined,
+          }))
+      : query;
+
+    const { file, firstPage } = auditLog
+      ? await auditLog.track(
+          {
+            tool: 'export_query',
+            sessionId,
+            sourceId: connector.sourceId,
+            dbType: connector.dbType,
+            sql,
+            params,
+          },
+          run,
+          ({ file }) => file.rows
+        )
+      : await run();
+
+    const formatted = formatExportSummary(
+      {
+        path: file.path,
+        format: file.format,
+        rows: file.rows,
+        bytes: file.bytes,
+        truncated: file.truncated,
+        resourceUri: exporter.exposesResources ? exporter.resourceUri(file) : undefined,
+      },
+      {
+        ...firstPage,
+        rows: firstPage.rows.slice(0, EXPORT_PREVIEW_ROWS),
+        rowCount: file.rows,
+      },
+      response_format as ResponseFormat
+    );
+
+    return {
+      content: [{ type: 'text', text: formatted }],
+    };
+  } catch (error) {
+    logger.error('Query export failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
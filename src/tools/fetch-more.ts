@@ -0,0 +1,60 @@
+/**
+ * opendb_fetch_more tool implementation
+ */
+
+import type { CursorStore } from '../services/cursor-store.js';
+import { formatQueryResults, type QueryResultFormat } from '../utils/formatters.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface FetchMoreInput {
+  cursor: string;
+  response_format?: QueryResultFormat;
+}
+
+export interface FetchMoreResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export async function fetchMore(
+  cursorStore: CursorStore,
+  input: FetchMoreInput,
+  sessionId?: string
+): Promise<FetchMoreResult> {
+  const { cursor, response_format = 'markdown' } = input;
+
+  if (!cursor || cursor.trim().length === 0) {
+    return {
+      content: [{ type: 'text', text: 'Error: Cursor token is required' }],
+      isError: true,
+    };
+  }
+
+  try {
+    logger.debug('Fetching next page from cursor');
+
+    const format = response_format as QueryResultFormat;
+
+    // Read the next page, keeping the rows that don't fit for the one after;
+    // the store closes the cursor once exhausted
+    const result = await cursorStore.nextPage(
+      cursor,
+      sessionId,
+      (page) => formatQueryResults(page, format).rowsShown
+    );
+
+    // Format response
+    const { text, notes } = formatQueryResults(result, format);
+
+    return {
+      content: [{ type: 'text', text }, ...(notes ? [{ type: 'text' as const, text: notes }] : [])],
+    };
+  } catch (error) {
+    logger.error('Fetch more failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * opendb_get_relationships tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import { Authorization } from '../services/access-control.js';
+import {
+  formatJoinPath,
+  formatRelationships,
+  type ResponseFormat,
+} from '../utils/formatters.js';
+import { findJoinPath, resolveTable } from '../utils/relationship-graph.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface GetRelationshipsInput {
+  source_id?: string;
+  schema?: string;
+  from_table?: string;
+  to_table?: string;
+  response_format?: 'markdown' | 'json' | 'mermaid';
+}
+
+export interface GetRelationshipsResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface GetRelationshipsOptions {
+  // The caller's access; relationships touching hidden tables are left out
+  authorization?: Authorization;
+}
+
+export async function getRelationships(
+  connectorManager: ConnectorManager,
+  input: GetRelationshipsInput,
+  options: GetRelationshipsOptions = {}
+): Promise<GetRelationshipsResult> {
+  const { source_id, schema, from_table, to_table, response_format = 'markdown' } = input;
+
+  if (Boolean(from_table) !== Boolean(to_table)) {
+    return {
+      content: [
+        { type: 'text', text: 'Error: from_table and to_table must be given together' },
+      ],
+      isError: true,
+    };
+  }
+
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    // Ensure connected
+    if (!connector.isConnected) {
+      await connector.connect();
+    }
+
+    logger.debug(`Loading relationships on ${connector.sourceId}`, { schema, from_table, to_table });
+
+    if (schema) {
+      authorization.checkSchema(connector.sourceId, schema);
+    }
+
+    const relationships = authorization.filterRelationships(
+      connector.sourceId,
+      await connector.getRelationships(schema)
+    );
+
+    if (!from_table || !to_table) {
+      return {
+        content: [{ type: 'text', text: formatRelationships(relationships, response_format) }],
+      };
+    }
+
+    // Join path between two tables
+    if (response_format === 'mermaid') {
+      return {
+        content: [
+          { type: 'text', text: 'Error: mermaid output is only available for the full graph' },
+        ],
+        isError: true,
+      };
+    }
+
+    const from = resolveTable(relationships, from_table);
+    const to = resolveTable(relationships, to_table);
+    const steps = findJoinPath(relationships, from, to);
+
+    if (!steps) {
+      return {
+        content: [{ type: 'text', text: `No foreign key path between ${from} and ${to}` }],
+      };
+    }
+
+    return {
+      content: [
+        { type: 'text', text: formatJoinPath(from, to, steps, response_format as ResponseFormat) },
+      ],
+    };
+  } catch (error) {
+    logger.error('Relationship lookup failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
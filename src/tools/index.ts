@@ -3,15 +3,43 @@
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SpanStatusCode } from '@opentelemetry/api';
 import { z } from 'zod';
 import type { ConnectorManager } from '../connectors/index.js';
+import type { CursorStore } from '../services/cursor-store.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { AuditLog } from '../services/audit-log.js';
+import type { AccessControl } from '../services/access-control.js';
+import type { DataMasking } from '../services/data-masking.js';
+import type { Metrics } from '../services/metrics.js';
+import type { ResultExporter } from '../services/result-export.js';
 import { executeSql } from './execute-sql.js';
+import { executeScript } from './execute-script.js';
+import { fetchMore } from './fetch-more.js';
+import { explainQuery } from './explain-query.js';
 import { searchObjects } from './search-objects.js';
+import { refreshSchema } from './refresh-schema.js';
+import { describeTable } from './describe-table.js';
+import { getRelationships } from './get-relationships.js';
 import { listSources } from './list-sources.js';
+import { exportQuery } from './export-query.js';
+import { SPAN_ATTRIBUTES, withSpan } from '../services/tracing.js';
 import { logger } from '../utils/logger.js';
 
 export interface ToolContext {
   connectorManager: ConnectorManager;
+  cursorStore: CursorStore;
+  schemaCache: SchemaCache;
+  // Set when the [audit] config section enables auditing
+  auditLog?: AuditLog;
+  // Resolves the calling principal's [[policies]]
+  accessControl: AccessControl;
+  // Applies each source's masking rules to query results
+  dataMasking: DataMasking;
+  // Counts tool calls and the queries they run
+  metrics: Metrics;
+  // Set when the [export] config section enables export_query
+  resultExporter?: ResultExporter;
 }
 
 // Zod schemas for MCP tool registration
@@ -19,6 +47,32 @@ const executeSqlParamsSchema = {
   source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
   sql: z.string().describe('SQL query to execute'),
   params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
+  max_rows: z.number().int().positive().optional().describe('Maximum rows to return (capped by the source limit)'),
+  timeout_ms: z.number().int().positive().optional().describe('Query timeout in milliseconds (capped by the source limit)'),
+  response_format: z.enum(['markdown', 'json', 'csv', 'tsv', 'json_compact']).default('markdown').describe('Output format (csv, tsv and json_compact fit the most rows)'),
+};
+
+const executeScriptParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().describe('SQL script of one or more statements'),
+  transaction: z.enum(['none', 'all', 'statement']).default('none').describe('Run without a transaction, all statements in one, or each in its own'),
+  on_error: z.enum(['stop', 'continue']).default('stop').describe('Stop at the first failed statement or run the rest (not with transaction "all")'),
+  max_rows: z.number().int().positive().optional().describe('Maximum rows to return per statement (capped by the source limit)'),
+  timeout_ms: z.number().int().positive().optional().describe('Timeout in milliseconds for each statement (capped by the source limit)'),
+  response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
+};
+
+const fetchMoreParamsSchema = {
+  cursor: z.string().describe('Continuation token returned by execute_sql or a previous fetch_more'),
+  response_format: z.enum(['markdown', 'json', 'csv', 'tsv', 'json_compact']).default('markdown').describe('Output format (csv, tsv and json_compact fit the most rows)'),
+};
+
+const explainQueryParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().describe('Single SQL statement to explain'),
+  params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
+  analyze: z.boolean().default(false).describe('Execute the statement and report actual rows and timings (read-only statements only)'),
+  timeout_ms: z.number().int().positive().optional().describe('Timeout in milliseconds (capped by the source limit)'),
   response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
 };
 
@@ -31,6 +85,35 @@ const searchObjectsParamsSchema = {
   response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
 };
 
+const refreshSchemaParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  schema: z.string().optional().describe('Only refresh this schema/database (default: the whole source)'),
+};
+
+const describeTableParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  table: z.string().describe('Table name'),
+  schema: z.string().optional().describe('Schema/database name (defaults to the connection default)'),
+  response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
+};
+
+const getRelationshipsParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  schema: z.string().optional().describe('Schema/database name (defaults to all schemas, or the default database on Hive/Impala)'),
+  from_table: z.string().optional().describe('Table to join from (requires to_table)'),
+  to_table: z.string().optional().describe('Table to join to (requires from_table)'),
+  response_format: z.enum(['markdown', 'json', 'mermaid']).default('markdown').describe('Output format (mermaid only for the full graph)'),
+};
+
+const exportQueryParamsSchema = {
+  source_id: z.string().optional().describe('Database source ID (optional if single db configured)'),
+  sql: z.string().describe('Single read-only SQL query whose full result is exported'),
+  params: z.array(z.unknown()).optional().describe('Prepared statement parameters'),
+  format: z.enum(['csv', 'jsonl', 'parquet']).default('csv').describe('File format'),
+  timeout_ms: z.number().int().positive().optional().describe('Timeout in milliseconds for each page read (capped by the source limit)'),
+  response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
+};
+
 const listSourcesParamsSchema = {
   response_format: z.enum(['markdown', 'json']).default('markdown').describe('Output format'),
 };
@@ -39,57 +122,212 @@ const listSourcesParamsSchema = {
  * Register all tools with the MCP server
  */
 export function registerTools(server: McpServer, context: ToolContext): void {
-  const { connectorManager } = context;
+  const {
+    connectorManager,
+    cursorStore,
+    schemaCache,
+    auditLog,
+    accessControl,
+    dataMasking,
+    metrics,
+    resultExporter,
+  } = context;
+
+  // Runs a tool call in its own span, counting it and handing its result to the SDK
+  const handle = (
+    tool: string,
+    extra: { sessionId?: string },
+    call: () => Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }>
+  ) =>
+    withSpan(
+      `tool ${tool}`,
+      { [SPAN_ATTRIBUTES.tool]: tool, [SPAN_ATTRIBUTES.sessionId]: extra.sessionId },
+      async (span) => {
+        const result = await call();
+        metrics.toolCalled(tool, result.isError);
+        if (result.isError) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: result.content[0]?.text });
+        }
+        return {
+          content: result.content,
+          isError: result.isError,
+        };
+      }
+    );
 
   // Register execute_sql
   server.tool(
     'execute_sql',
-    'Execute SQL queries against configured database sources. Supports prepared statements with parameterized queries.',
+    'Execute SQL queries against configured database sources. Supports prepared statements with parameterized queries. Truncated results include a cursor for fetch_more.',
     executeSqlParamsSchema,
-    async (args) => {
-      logger.debug('Tool called: execute_sql', args);
-      const result = await executeSql(connectorManager, args);
-      return {
-        content: result.content,
-        isError: result.isError,
-      };
-    }
+    (args, extra) =>
+      handle('execute_sql', extra, () => {
+        logger.debug('Tool called: execute_sql', args);
+        return executeSql(connectorManager, args, {
+          cursorStore,
+          sessionId: extra.sessionId,
+          schemaCache,
+          auditLog,
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+          dataMasking,
+          metrics,
+        });
+      })
+  );
+
+  // Register execute_script
+  server.tool(
+    'execute_script',
+    'Execute a script of several SQL statements in order on one connection, optionally in a transaction. Returns the result or error of each statement.',
+    executeScriptParamsSchema,
+    (args, extra) =>
+      handle('execute_script', extra, () => {
+        logger.debug('Tool called: execute_script', args);
+        return executeScript(connectorManager, args, {
+          sessionId: extra.sessionId,
+          schemaCache,
+          auditLog,
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+          dataMasking,
+          metrics,
+        });
+      })
+  );
+
+  // Register fetch_more
+  server.tool(
+    'fetch_more',
+    'Fetch the next page of a truncated execute_sql result using its cursor token. Cursors expire when idle.',
+    fetchMoreParamsSchema,
+    (args, extra) =>
+      handle('fetch_more', extra, () => {
+        logger.debug('Tool called: fetch_more', args);
+        return fetchMore(cursorStore, args, extra.sessionId);
+      })
+  );
+
+  // Register explain_query
+  server.tool(
+    'explain_query',
+    'Show the execution plan for a SQL statement as a tree of operators with estimated rows, cost and relation. Set analyze to run a read-only statement and include actual rows and timings.',
+    explainQueryParamsSchema,
+    (args, extra) =>
+      handle('explain_query', extra, () => {
+        logger.debug('Tool called: explain_query', args);
+        return explainQuery(connectorManager, args, {
+          sessionId: extra.sessionId,
+          auditLog,
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+        });
+      })
   );
 
   // Register search_objects
   server.tool(
     'search_objects',
-    'Explore database schemas with progressive disclosure. Search for schemas, tables, columns, indexes, and stored procedures.',
+    'Explore database schemas with progressive disclosure. Search for schemas, tables, columns, indexes, and stored procedures. Results are cached; use refresh_schema after schema changes.',
     searchObjectsParamsSchema,
-    async (args) => {
-      logger.debug('Tool called: search_objects', args);
-      const result = await searchObjects(connectorManager, args);
-      return {
-        content: result.content,
-        isError: result.isError,
-      };
-    }
+    (args, extra) =>
+      handle('search_objects', extra, () => {
+        logger.debug('Tool called: search_objects', args);
+        return searchObjects(connectorManager, args, {
+          schemaCache,
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+          metrics,
+        });
+      })
+  );
+
+  // Register refresh_schema
+  server.tool(
+    'refresh_schema',
+    'Clear cached search_objects results for a source or one of its schemas, so the next search reads fresh metadata. Use after tables change outside this server.',
+    refreshSchemaParamsSchema,
+    (args, extra) =>
+      handle('refresh_schema', extra, () => {
+        logger.debug('Tool called: refresh_schema', args);
+        return refreshSchema(connectorManager, schemaCache, args, {
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+        });
+      })
+  );
+
+  // Register describe_table
+  server.tool(
+    'describe_table',
+    'Describe a table in one call: columns with defaults and comments, primary key, unique constraints, foreign keys, indexes, check constraints, and approximate row count and size.',
+    describeTableParamsSchema,
+    (args, extra) =>
+      handle('describe_table', extra, () => {
+        logger.debug('Tool called: describe_table', args);
+        return describeTable(connectorManager, args, {
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+        });
+      })
+  );
+
+  // Register get_relationships
+  server.tool(
+    'get_relationships',
+    'List foreign-key relationships between tables, or find the shortest join path between two tables with its join conditions. Can render the graph as a Mermaid ER diagram. Hive and Impala relationships are inferred from column names.',
+    getRelationshipsParamsSchema,
+    (args, extra) =>
+      handle('get_relationships', extra, () => {
+        logger.debug('Tool called: get_relationships', args);
+        return getRelationships(connectorManager, args, {
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+        });
+      })
   );
 
   // Register list_sources
   server.tool(
     'list_sources',
-    'List all configured database connections with their types and status.',
+    'List all configured database connections with their types and health. JSON output includes reconnect state and connection pool usage.',
     listSourcesParamsSchema,
-    async (args) => {
-      logger.debug('Tool called: list_sources', args);
-      const result = await listSources(connectorManager, args);
-      return {
-        content: result.content,
-        isError: result.isError,
-      };
-    }
+    (args, extra) =>
+      handle('list_sources', extra, () => {
+        logger.debug('Tool called: list_sources', args);
+        return listSources(connectorManager, args, {
+          authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+        });
+      })
   );
 
-  logger.info('Registered MCP tools: execute_sql, search_objects, list_sources');
+  // Register export_query
+  if (resultExporter) {
+    server.tool(
+      'export_query',
+      'Export the full result of a read-only query to a CSV, JSON Lines or Parquet file on the server, for results too large to return inline. Returns the file path, row count, size and a preview of the first rows.',
+      exportQueryParamsSchema,
+      (args, extra) =>
+        handle('export_query', extra, () => {
+          logger.debug('Tool called: export_query', args);
+          return exportQuery(connectorManager, resultExporter, args, {
+            sessionId: extra.sessionId,
+            auditLog,
+            authorization: accessControl.forPrincipal(extra.authInfo?.clientId),
+            schemaCache,
+            dataMasking,
+            metrics,
+          });
+        })
+    );
+  }
+
+  logger.info(
+    `Registered MCP tools: execute_sql, execute_script, fetch_more, explain_query, search_objects, refresh_schema, describe_table, get_relationships, list_sources${resultExporter ? ', export_query' : ''}`
+  );
 }
 
 // Re-export tool implementations
 export { executeSql } from './execute-sql.js';
+export { executeScript } from './execute-script.js';
+export { fetchMore } from './fetch-more.js';
+export { explainQuery } from './explain-query.js';
 export { searchObjects } from './search-objects.js';
+export { refreshSchema } from './refresh-schema.js';
+export { describeTable } from './describe-table.js';
+export { getRelationships } from './get-relationships.js';
 export { listSources } from './list-sources.js';
+export { exportQuery } from './export-query.js';
@@ -3,6 +3,7 @@
  */
 
 import type { ConnectorManager } from '../connectors/index.js';
+import { Authorization } from '../services/access-control.js';
 import { formatSourcesList, type ResponseFormat } from '../utils/formatters.js';
 import { formatErrorForResponse } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
@@ -16,17 +17,30 @@ export interface ListSourcesResult {
   isError?: boolean;
 }
 
+export interface ListSourcesOptions {
+  // The caller's access; sources they may not use are hidden
+  authorization?: Authorization;
+}
+
 export async function listSources(
   connectorManager: ConnectorManager,
-  input: ListSourcesInput
+  input: ListSourcesInput,
+  options: ListSourcesOptions = {}
 ): Promise<ListSourcesResult> {
   const { response_format = 'markdown' } = input;
+  const { authorization = Authorization.unrestricted } = options;
 
   try {
     logger.debug('Listing configured database sources');
 
-    // Get all sources
-    const sources = connectorManager.listSources();
+    // Get the sources the caller may use, read-only where all their policies are
+    const sources = connectorManager
+      .listSources()
+      .filter((source) => authorization.canUseSource(source.id))
+      .map((source) => ({
+        ...source,
+        readonly: source.readonly || authorization.isReadonly(source.id),
+      }));
 
     // Format response
     const formatted = formatSourcesList(sources, response_format as ResponseFormat);
@@ -0,0 +1,59 @@
+/**
+ * opendb_refresh_schema tool implementation
+ */
+
+import type { ConnectorManager } from '../connectors/index.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import { Authorization } from '../services/access-control.js';
+import { formatErrorForResponse } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+export interface RefreshSchemaInput {
+  source_id?: string;
+  schema?: string;
+}
+
+export interface RefreshSchemaResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface RefreshSchemaOptions {
+  // The caller's access; unrestricted when omitted
+  authorization?: Authorization;
+}
+
+export async function refreshSchema(
+  connectorManager: ConnectorManager,
+  schemaCache: SchemaCache,
+  input: RefreshSchemaInput,
+  options: RefreshSchemaOptions = {}
+): Promise<RefreshSchemaResult> {
+  const { source_id, schema } = input;
+  const { authorization = Authorization.unrestricted } = options;
+
+  try {
+    // Resolve connector; the cache is keyed by the resolved source ID
+    const connector = authorization.resolve(connectorManager, source_id);
+
+    logger.debug(`Refreshing schema cache for ${connector.sourceId}`, { schema });
+
+    const removed = schemaCache.invalidate(connector.sourceId, schema);
+    const scope = schema ? `schema ${schema} on ${connector.sourceId}` : connector.sourceId;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Cleared ${removed} cached schema ${removed === 1 ? 'entry' : 'entries'} for ${scope}. The next search reads from the database.`,
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Schema refresh failed', error);
+    return {
+      content: [{ type: 'text', text: formatErrorForResponse(error) }],
+      isError: true,
+    };
+  }
+}
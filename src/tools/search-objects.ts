@@ -3,6 +3,9 @@
  */
 
 import type { ConnectorManager } from '../connectors/index.js';
+import type { SchemaCache } from '../services/schema-cache.js';
+import type { Metrics } from '../services/metrics.js';
+import { Authorization } from '../services/access-control.js';
 import { formatSchemaObjects, type ResponseFormat } from '../utils/formatters.js';
 import { formatErrorForResponse } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
@@ -21,9 +24,19 @@ export interface SearchObjectsResult {
   isError?: boolean;
 }
 
+export interface SearchObjectsOptions {
+  // When set, results are served from and stored in the schema cache
+  schemaCache?: SchemaCache;
+  // The caller's access; hidden objects are left out of results
+  authorization?: Authorization;
+  // Counts and times the search
+  metrics?: Metrics;
+}
+
 export async function searchObjects(
   connectorManager: ConnectorManager,
-  input: SearchObjectsInput
+  input: SearchObjectsInput,
+  options: SearchObjectsOptions = {}
 ): Promise<SearchObjectsResult> {
   const { source_id, object_type, schema, table, pattern, response_format = 'markdown' } = input;
 
@@ -35,9 +48,11 @@ export async function searchObjects(
     };
   }
 
+  const { authorization = Authorization.unrestricted } = options;
+
   try {
-    // Resolve connector
-    const connector = connectorManager.resolve(source_id);
+    // Resolve connector among the sources the caller may use
+    const connector = authorization.resolve(connectorManager, source_id);
 
     // Ensure connected
     if (!connector.isConnected) {
@@ -51,16 +66,35 @@ export async function searchObjects(
       pattern,
     });
 
+    // Searching a denied schema or table is an error rather than an empty result
+    if (schema) {
+      authorization.checkSchema(connector.sourceId, schema);
+      if (table) {
+        authorization.checkTable(connector.sourceId, { schema, name: table });
+      }
+    }
+
     // Search objects
-    const objects = await connector.searchObjects({
-      objectType: object_type,
-      schema,
-      table,
-      pattern,
-    });
+    const searchOptions = { objectType: object_type, schema, table, pattern };
+    const { schemaCache, metrics } = options;
+
+    const search = async () => {
+      if (schemaCache) {
+        const { objects, hit, cachedAt } = await schemaCache.searchObjects(connector, searchOptions);
+        const visible = authorization.filterObjects(connector.sourceId, objects);
+        return { visible, cache: { hit, cachedAt: new Date(cachedAt).toISOString() } };
+      }
+
+      const objects = await connector.searchObjects(searchOptions);
+      return { visible: authorization.filterObjects(connector.sourceId, objects) };
+    };
+
+    const metricsContext = { sourceId: connector.sourceId, tool: 'search_objects' };
+    const { visible, cache } = metrics
+      ? await metrics.track(metricsContext, search, (found) => ({ rows: found.visible.length }))
+      : await search();
 
-    // Format response
-    const formatted = formatSchemaObjects(objects, response_format as ResponseFormat);
+    const formatted = formatSchemaObjects(visible, response_format as ResponseFormat, cache);
 
     return {
       content: [{ type: 'text', text: formatted }],
@@ -0,0 +1,182 @@
+/**
+ * Parser for Hive and Impala DESCRIBE FORMATTED output
+ */
+
+import type {
+  ColumnDescription,
+  ForeignKeyDescription,
+  KeyDescription,
+} from './formatters.js';
+
+export interface DescribeFormattedInfo {
+  columns: ColumnDescription[];
+  tableParameters: Record<string, string>;
+  primaryKey?: KeyDescription;
+  uniqueConstraints: KeyDescription[];
+  foreignKeys: ForeignKeyDescription[];
+}
+
+type Section =
+  | 'columns'
+  | 'partitions'
+  | 'details'
+  | 'primaryKey'
+  | 'foreignKeys'
+  | 'uniqueConstraints'
+  | 'notNull'
+  | 'defaults'
+  | 'other';
+
+// "# <title>" rows that start a section
+const SECTION_TITLES: Record<string, Section> = {
+  'Partition Information': 'partitions',
+  'Detailed Table Information': 'details',
+  'Primary Key': 'primaryKey',
+  'Foreign Keys': 'foreignKeys',
+  'Unique Constraints': 'uniqueConstraints',
+  'Not Null Constraints': 'notNull',
+  'Default Constraints': 'defaults',
+};
+
+/**
+ * Returns the text after a "Label:" prefix, or undefined if the value has another label
+ */
+function afterLabel(value: string, label: string): string | undefined {
+  return value.startsWith(label) ? value.slice(label.length).trim() : undefined;
+}
+
+/**
+ * Parses DESCRIBE FORMATTED rows. Each row has three positional values
+ * (name, type, comment) whose meaning depends on the section they are in.
+ */
+export function parseDescribeFormatted(rows: Record<string, unknown>[]): DescribeFormattedInfo {
+  const info: DescribeFormattedInfo = {
+    columns: [],
+    tableParameters: {},
+    uniqueConstraints: [],
+    foreignKeys: [],
+  };
+
+  const notNull = new Set<string>();
+  const defaults = new Map<string, string>();
+  let section: Section = 'columns';
+  let inParameters = false;
+  let currentKey: KeyDescription | null = null;
+  let currentForeignKey: ForeignKeyDescription | null = null;
+
+  for (const row of rows) {
+    const [first = '', second = '', third = ''] = Object.values(row).map((value) =>
+      value === null || value === undefined ? '' : String(value).trim()
+    );
+
+    if (first.startsWith('#')) {
+      const title = first.slice(1).trim();
+      if (title !== 'col_name' && title !== 'name') {
+        section = SECTION_TITLES[title] ?? 'other';
+        inParameters = false;
+      }
+      continue;
+    }
+
+    if (first === '' && second === '' && third === '') {
+      continue;
+    }
+
+    switch (section) {
+      // Partition columns follow the regular columns; some versions list them in both
+      case 'columns':
+      case 'partitions':
+        if (first === '' || info.columns.some((column) => column.name === first)) break;
+        info.columns.push({
+          name: first,
+          dataType: second,
+          nullable: true,
+          comment: third || undefined,
+        });
+        break;
+
+      case 'details':
+        if (first === 'Table Parameters:') {
+          inParameters = true;
+        } else if (first !== '') {
+          inParameters = false;
+        } else if (inParameters && second !== '') {
+          info.tableParameters[second] = third;
+        }
+        break;
+
+      case 'primaryKey':
+        if (first === 'Constraint Name:') {
+          info.primaryKey = { name: second, columns: [] };
+        } else if (first === 'Column Names:' && info.primaryKey) {
+          // Column names may spill over into the following fields
+          const names = [second, third].flatMap((value) => value.split(','));
+          info.primaryKey.columns.push(...names.map((name) => name.trim()).filter(Boolean));
+        }
+        break;
+
+      case 'uniqueConstraints': {
+        const column = afterLabel(first, 'Column Name:');
+        if (first === 'Constraint Name:') {
+          currentKey = { name: second, columns: [] };
+          info.uniqueConstraints.push(currentKey);
+        } else if (column && currentKey) {
+          currentKey.columns.push(column);
+        }
+        break;
+      }
+
+      case 'foreignKeys': {
+        // Parent Column Name:db.table.column | Column Name:column | Key Sequence:n
+        const parent = afterLabel(first, 'Parent Column Name:');
+        if (first === 'Constraint Name:') {
+          currentForeignKey = {
+            name: second,
+            columns: [],
+            referencedTable: '',
+            referencedColumns: [],
+          };
+          info.foreignKeys.push(currentForeignKey);
+        } else if (parent && currentForeignKey) {
+          const parts = parent.split('.');
+          currentForeignKey.referencedColumns.push(parts.pop() ?? '');
+          currentForeignKey.referencedTable = parts.pop() ?? '';
+          currentForeignKey.referencedSchema = parts.pop();
+          currentForeignKey.columns.push(afterLabel(second, 'Column Name:') ?? second);
+        }
+        break;
+      }
+
+      case 'notNull': {
+        const column = afterLabel(first, 'Column Name:');
+        if (column) notNull.add(column);
+        break;
+      }
+
+      case 'defaults': {
+        const column = afterLabel(first, 'Column Name:');
+        const value = afterLabel(second, 'Default Value:');
+        if (column && value !== undefined) defaults.set(column, value);
+        break;
+      }
+    }
+  }
+
+  for (const column of info.columns) {
+    if (notNull.has(column.name)) column.nullable = false;
+    if (defaults.has(column.name)) column.defaultValue = defaults.get(column.name);
+  }
+
+  return info;
+}
+
+/**
+ * Reads a numeric table parameter; Hive and Impala report -1 when statistics are missing
+ */
+export function numericParameter(
+  parameters: Record<string, string>,
+  name: string
+): number | undefined {
+  const value = Number(parameters[name]);
+  return parameters[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -41,6 +41,21 @@ export class QueryError extends DatabaseError {
   }
 }
 
+export class QueryTimeoutError extends QueryError {
+  constructor(
+    sourceId: string,
+    query: string,
+    public readonly timeoutMs: number
+  ) {
+    super(
+      sourceId,
+      query,
+      new Error(`Query exceeded the ${timeoutMs}ms timeout and was cancelled`)
+    );
+    this.name = 'QueryTimeoutError';
+  }
+}
+
 export class ConfigurationError extends Error {
   constructor(message: string) {
     super(message);
@@ -55,6 +70,73 @@ export class KerberosError extends Error {
   }
 }
 
+export class AuthenticationError extends Error {
+  constructor(message: string, public readonly originalError?: Error) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    public readonly principal: string
+  ) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+// Error codes drivers report when the connection itself failed, rather than
+// the statement: socket errors, mysql2 and mssql codes, and PostgreSQL server
+// shutdown SQLSTATEs (class 08 is matched separately)
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'ESOCKET',
+  'ECONNCLOSED',
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_SERVER_SHUTDOWN',
+  '57P01',
+  '57P02',
+  '57P03',
+]);
+
+// Messages of connection failures that carry no code, e.g. from pg and Thrift
+const CONNECTION_ERROR_MESSAGE =
+  /connection (terminated|closed|lost|reset)|socket hang up|invalid (session|operation)handle/i;
+
+/**
+ * True when an error means the connection to the database failed, so the
+ * statement may succeed on a new one. Timeouts are not connection failures.
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (error instanceof QueryTimeoutError) {
+    return false;
+  }
+
+  // Check the error and the driver errors it wraps
+  let current: unknown = error;
+  for (let depth = 0; current instanceof Error && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string' && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) {
+      return true;
+    }
+    if (CONNECTION_ERROR_MESSAGE.test(current.message)) {
+      return true;
+    }
+    current = current instanceof DatabaseError ? current.originalError : current.cause;
+  }
+
+  return false;
+}
+
 /**
  * Formats an error for MCP tool response
  */
@@ -71,6 +153,14 @@ export function formatErrorForResponse(error: unknown): string {
     return `Kerberos Authentication Error: ${error.message}`;
   }
 
+  if (error instanceof AuthenticationError) {
+    return `Authentication Error: ${error.message}`;
+  }
+
+  if (error instanceof AuthorizationError) {
+    return `Authorization Error: ${error.message}`;
+  }
+
   if (error instanceof Error) {
     return `Error: ${error.message}`;
   }
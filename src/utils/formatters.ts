@@ -2,15 +2,122 @@
  * Result formatters for Markdown and JSON output
  */
 
-import { CHARACTER_LIMIT } from '../constants.js';
+import type { MaskingStrategy } from '../config/types.js';
+import type { StatementType } from './sql-classifier.js';
+import { CHARACTER_LIMIT, SQL_PREVIEW_LENGTH } from '../constants.js';
+import { qualifiedName } from './relationship-graph.js';
+import { normalizeRows } from './value-normalizer.js';
 
 export type ResponseFormat = 'markdown' | 'json';
 
+// Formats for query results. csv, tsv and json_compact name each column once,
+// so more rows fit under CHARACTER_LIMIT.
+export type QueryResultFormat = ResponseFormat | 'csv' | 'tsv' | 'json_compact';
+
+// Backslash escapes for TSV fields, as in PostgreSQL's COPY text format
+const TSV_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '\t': '\\t',
+  '\n': '\\n',
+  '\r': '\\r',
+};
+
+export interface ColumnOrigin {
+  schema?: string;
+  table: string;
+  column: string;
+}
+
+// Kind of a column's values, whatever the database calls its type
+export type LogicalType =
+  | 'boolean'
+  | 'integer'
+  | 'bigint'
+  | 'decimal'
+  | 'float'
+  | 'string'
+  | 'uuid'
+  | 'date'
+  | 'time'
+  | 'timestamp'
+  | 'interval'
+  | 'binary'
+  | 'json'
+  | 'array'
+  | 'map'
+  | 'struct'
+  | 'unknown';
+
+export interface ColumnType {
+  // Type name as the database reports it, e.g. int8, nvarchar or ARRAY
+  name: string;
+  logical: LogicalType;
+  // Whether the column may hold nulls; absent when the driver doesn't say
+  nullable?: boolean;
+}
+
+// What is known about a result column, as included in JSON output
+export interface ColumnMetadata {
+  name: string;
+  // Absent where the driver reports no type
+  type?: string;
+  logical?: LogicalType;
+  nullable?: boolean;
+  // Table column the values are read from
+  source?: ColumnOrigin;
+}
+
+export interface MaskedColumn {
+  name: string;
+  strategy: MaskingStrategy;
+}
+
 export interface QueryResult {
   columns: string[];
   rows: Record<string, unknown>[];
   rowCount: number;
   truncated: boolean;
+  // Continuation token for fetch_more when more rows are available
+  nextCursor?: string;
+  // Table column behind each result column, null for expressions; absent
+  // when the driver doesn't report origins
+  origins?: Array<ColumnOrigin | null>;
+  // Type of each result column, null where the driver reports none (SQLite
+  // expressions); absent when the driver doesn't report types
+  columnTypes?: Array<ColumnType | null>;
+  // Columns whose values were replaced by masking rules
+  maskedColumns?: MaskedColumn[];
+}
+
+export interface FormattedQueryResult {
+  text: string;
+  // Notes about a csv or tsv result, kept out of the data
+  notes?: string;
+  // Leading rows of the result that fit under the character limit
+  rowsShown: number;
+}
+
+// How a script's statements are grouped into transactions: not at all, all
+// in one, or one each
+export type TransactionMode = 'none' | 'all' | 'statement';
+
+export interface ScriptStatementResult {
+  // Position in the script, from 1
+  index: number;
+  sql: string;
+  type: StatementType;
+  // Skipped statements never ran, as an earlier one failed
+  status: 'ok' | 'error' | 'skipped';
+  result?: QueryResult;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ScriptResult {
+  transaction: TransactionMode;
+  statements: ScriptStatementResult[];
+  // True when a failure rolled back the script's single transaction
+  rolledBack: boolean;
 }
 
 export interface SchemaObject {
@@ -24,51 +131,522 @@ export interface SchemaObject {
   extra?: Record<string, unknown>;
 }
 
+export interface SchemaCacheInfo {
+  hit: boolean;
+  // ISO timestamp of when the objects were read from the database
+  cachedAt: string;
+}
+
+export interface ExportSummary {
+  path: string;
+  format: string;
+  rows: number;
+  bytes: number;
+  // Limit the export stopped at before the result ran out
+  truncated?: 'rows' | 'bytes';
+  // Set when the file is exposed as an MCP resource
+  resourceUri?: string;
+}
+
+export interface ColumnDescription {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  defaultValue?: string;
+  comment?: string;
+}
+
+export interface KeyDescription {
+  name?: string;
+  columns: string[];
+}
+
+export interface ForeignKeyDescription extends KeyDescription {
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface IndexDescription {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+export interface CheckConstraintDescription {
+  name?: string;
+  definition: string;
+}
+
+export interface TableDescription {
+  name: string;
+  schema?: string;
+  comment?: string;
+  columns: ColumnDescription[];
+  primaryKey?: KeyDescription;
+  uniqueConstraints: KeyDescription[];
+  foreignKeys: ForeignKeyDescription[];
+  indexes: IndexDescription[];
+  checkConstraints: CheckConstraintDescription[];
+  // Catalog estimates; absent when the database has no statistics
+  approximateRowCount?: number;
+  sizeBytes?: number;
+}
+
+export interface Relationship extends ForeignKeyDescription {
+  schema?: string;
+  table: string;
+  // True when guessed from column names rather than declared
+  inferred?: boolean;
+}
+
+export interface JoinStep {
+  relationship: Relationship;
+  // Tables in the order the path walks them, qualified as schema.table
+  from: string;
+  to: string;
+  condition: string;
+}
+
+export interface PlanNode {
+  operator: string;
+  relation?: string;
+  estimatedRows?: number;
+  cost?: number;
+  // Only present for ANALYZE plans
+  actualRows?: number;
+  actualTimeMs?: number;
+  detail?: string;
+  children: PlanNode[];
+}
+
+export interface QueryPlan {
+  dbType: string;
+  analyzed: boolean;
+  root: PlanNode;
+}
+
 /**
- * Formats query results as Markdown table
+ * Formats query results as Markdown table. Rows past the character limit
+ * are left out whole.
  */
-function formatResultsAsMarkdown(result: QueryResult): string {
+function formatResultsAsMarkdown(result: QueryResult): FormattedQueryResult {
   if (result.rows.length === 0) {
-    return '_No results returned_';
+    return { text: '_No results returned_', rowsShown: 0 };
   }
 
   const { columns, rows, rowCount, truncated } = result;
 
+  // Summary, notes and the cursor hint, which are never cut off
+  const footer = (shown: number, cut: boolean): string => {
+    let output = `\n_Showing ${shown} of ${rowCount} rows_`;
+    if (truncated) {
+      output += ' _(results truncated)_';
+    }
+    if (cut) {
+      output += '\n\n_Output truncated due to character limit_';
+    }
+    if (result.maskedColumns?.length) {
+      const masked = result.maskedColumns.map((column) => `${column.name} (${column.strategy})`);
+      output += `\n_Masked columns: ${masked.join(', ')}_`;
+    }
+    if (result.nextCursor) {
+      output += formatCursorHint(result.nextCursor);
+    }
+    return output;
+  };
+
+  // Leave room for the longest footer
+  const budget = CHARACTER_LIMIT - footer(rows.length, true).length;
+
   // Build header
   let output = '| ' + columns.join(' | ') + ' |\n';
   output += '| ' + columns.map(() => '---').join(' | ') + ' |\n';
 
   // Build rows
+  let shown = 0;
   for (const row of rows) {
     const values = columns.map((col) => {
       const value = row[col];
       if (value === null) return '_null_';
       if (value === undefined) return '';
-      if (typeof value === 'object') return JSON.stringify(value);
-      return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
     });
-    output += '| ' + values.join(' | ') + ' |\n';
+    const line = '| ' + values.join(' | ') + ' |\n';
+    if (output.length + line.length > budget) break;
+    output += line;
+    shown++;
+  }
+
+  return { text: output + footer(shown, shown < rows.length), rowsShown: shown };
+}
+
+/**
+ * Formats the fetch_more hint for results with a continuation token
+ */
+function formatCursorHint(nextCursor: string): string {
+  return `\n\n_More rows available. Call fetch_more with cursor \`${nextCursor}\` for the next page._`;
+}
+
+/**
+ * Metadata of each result column from its type and origin, or undefined
+ * when the driver reported neither
+ */
+function columnMetadata(result: QueryResult): ColumnMetadata[] | undefined {
+  const { columnTypes, origins } = result;
+  if (!columnTypes && !origins) {
+    return undefined;
   }
 
-  // Add summary
-  output += `\n_Showing ${rows.length} of ${rowCount} rows_`;
-  if (truncated) {
-    output += ' _(results truncated)_';
+  return result.columns.map((name, index) => {
+    const type = columnTypes?.[index];
+    const origin = origins?.[index];
+    return {
+      name,
+      ...(type && { type: type.name, logical: type.logical }),
+      ...(type?.nullable !== undefined && { nullable: type.nullable }),
+      ...(origin && { source: origin }),
+    };
+  });
+}
+
+/**
+ * JSON form of query results
+ */
+function resultObject(result: QueryResult): Record<string, unknown> {
+  return {
+    columns: result.columns,
+    columnMetadata: columnMetadata(result),
+    rows: result.rows,
+    rowCount: result.rowCount,
+    truncated: result.truncated,
+    ...(result.maskedColumns?.length && { maskedColumns: result.maskedColumns }),
+    ...(result.nextCursor && { nextCursor: result.nextCursor }),
+  };
+}
+
+/**
+ * Formats query results as JSON. Rows past the character limit are left
+ * out whole, so the output is always valid JSON.
+ */
+function formatResultsAsJson(result: QueryResult): FormattedQueryResult {
+  const { rows } = result;
+
+  const format = (shown: number, cut: boolean): string =>
+    JSON.stringify(
+      {
+        ...resultObject({ ...result, rows: rows.slice(0, shown) }),
+        ...(cut && { _truncated: true, _message: 'Output exceeded character limit' }),
+      },
+      null,
+      2
+    );
+
+  const formatted = format(rows.length, false);
+  if (formatted.length <= CHARACTER_LIMIT) {
+    return { text: formatted, rowsShown: rows.length };
+  }
+
+  // Each row is printed two levels deep, after a comma and a line break
+  const budget = CHARACTER_LIMIT - format(0, true).length - 3;
+  let length = 0;
+  let shown = 0;
+  for (const row of rows) {
+    const printed = JSON.stringify(row, null, 2);
+    const size = printed.length + 4 * printed.split('\n').length + 2;
+    if (length + size > budget) break;
+    length += size;
+    shown++;
+  }
+
+  return { text: format(shown, true), rowsShown: shown };
+}
+
+/**
+ * Text form of a value in delimited output
+ */
+export function valueText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (typeof value === 'object') return JSON.stringify(value, jsonReplacer);
+  return String(value);
+}
+
+/**
+ * JSON.stringify replacer for driver values JSON has no form for
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  // Buffer.toJSON has already run by the time the replacer sees it
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'Buffer' &&
+    Array.isArray((value as { data?: unknown }).data)
+  ) {
+    return Buffer.from((value as { data: number[] }).data).toString('hex');
+  }
+  return value;
+}
+
+/**
+ * Quotes a CSV field when it holds a delimiter, quote, line break or
+ * surrounding whitespace (RFC 4180). Null is an empty field and the empty
+ * string a quoted one.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = valueText(value);
+  return /[",\r\n]|^\s|\s$|^$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes a TSV field with backslash sequences; null is \N
+ */
+function tsvField(value: unknown): string {
+  if (value === null || value === undefined) return '\\N';
+  return valueText(value).replace(/[\\\t\n\r]/g, (char) => TSV_ESCAPES[char]);
+}
+
+/**
+ * Formats query results as CSV or TSV with a header row. Notes about the
+ * result are returned apart from the data, and rows past the character
+ * limit are left out whole.
+ */
+function formatResultsAsDelimited(
+  result: QueryResult,
+  format: 'csv' | 'tsv'
+): FormattedQueryResult {
+  const { columns, rows, rowCount, truncated } = result;
+  const [field, separator] = format === 'csv' ? [csvField, ','] : [tsvField, '\t'];
+
+  const notes = (shown: number, cut: boolean): string => {
+    const lines: string[] = [];
+    if (truncated || cut) {
+      lines.push(`Showing ${shown} of ${rowCount} rows`);
+    }
+    if (cut) {
+      lines.push('Output truncated due to character limit');
+    }
+    if (result.maskedColumns?.length) {
+      const masked = result.maskedColumns.map((column) => `${column.name} (${column.strategy})`);
+      lines.push(`Masked columns: ${masked.join(', ')}`);
+    }
+    if (result.nextCursor) {
+      lines.push(`More rows available. Call fetch_more with cursor ${result.nextCursor} for the next page.`);
+    }
+    return lines.join('\n');
+  };
+
+  if (columns.length === 0) {
+    return { text: 'No results returned', rowsShown: 0 };
+  }
+
+  // Leave room for the longest notes
+  const budget = CHARACTER_LIMIT - notes(rows.length, true).length;
+
+  let output = columns.map(field).join(separator);
+  let shown = 0;
+  for (const row of rows) {
+    const line = '\n' + columns.map((column) => field(row[column])).join(separator);
+    if (output.length + line.length > budget) break;
+    output += line;
+    shown++;
+  }
+
+  const text = notes(shown, shown < rows.length);
+  return { text: output, ...(text && { notes: text }), rowsShown: shown };
+}
+
+/**
+ * Formats query results as single-line JSON with the columns named once and
+ * each row an array of values. Rows past the character limit are left out
+ * whole, so the output is always valid JSON.
+ */
+function formatResultsAsCompactJson(result: QueryResult): FormattedQueryResult {
+  const { columns, rows } = result;
+
+  // Everything after the rows array, without the opening brace
+  const tail = (cut: boolean): string =>
+    JSON.stringify({
+      rowCount: result.rowCount,
+      truncated: result.truncated,
+      ...(result.maskedColumns?.length && { maskedColumns: result.maskedColumns }),
+      ...(result.nextCursor && { nextCursor: result.nextCursor }),
+      ...(cut && { _truncated: true, _message: 'Output exceeded character limit' }),
+    }).slice(1);
+
+  const metadata = columnMetadata(result);
+  const head = `{"columns":${JSON.stringify(columns)},${
+    metadata ? `"columnMetadata":${JSON.stringify(metadata)},` : ''
+  }"rows":[`;
+  const budget = CHARACTER_LIMIT - head.length - tail(true).length - 2;
+
+  const encoded: string[] = [];
+  let length = 0;
+  for (const row of rows) {
+    const values = JSON.stringify(
+      columns.map((column) => row[column] ?? null),
+      jsonReplacer
+    );
+    if (length + values.length + 1 > budget) break;
+    encoded.push(values);
+    length += values.length + 1;
+  }
+
+  return {
+    text: `${head}${encoded.join(',')}],${tail(encoded.length < rows.length)}`,
+    rowsShown: encoded.length,
+  };
+}
+
+/**
+ * Formats query results based on requested format, and counts the rows
+ * that fit under the character limit
+ */
+export function formatQueryResults(
+  result: QueryResult,
+  format: QueryResultFormat = 'markdown'
+): FormattedQueryResult {
+  result = { ...result, rows: normalizeRows(result) };
+
+  // Every format stops at a whole row within the limit
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      return formatResultsAsDelimited(result, format);
+    case 'json_compact':
+      return formatResultsAsCompactJson(result);
+    case 'json':
+      return formatResultsAsJson(result);
+    default:
+      return formatResultsAsMarkdown(result);
+  }
+}
+
+/**
+ * A statement on one line, shortened for headings
+ */
+function sqlPreview(sql: string): string {
+  const line = sql.replace(/\s+/g, ' ');
+  return line.length > SQL_PREVIEW_LENGTH ? `${line.slice(0, SQL_PREVIEW_LENGTH)}…` : line;
+}
+
+// How much of a script's output is shown
+interface ScriptShown {
+  statements: number;
+  rows: number;
+}
+
+function scriptRows(script: ScriptResult): number {
+  return script.statements.reduce(
+    (sum, statement) => sum + (statement.result?.rows.length ?? 0),
+    0
+  );
+}
+
+function isCut(script: ScriptResult, shown: ScriptShown): boolean {
+  return shown.statements < script.statements.length || shown.rows < scriptRows(script);
+}
+
+function shownSummary(script: ScriptResult, shown: ScriptShown): string {
+  let summary = `showing ${shown.rows} of ${scriptRows(script)} rows`;
+  if (shown.statements < script.statements.length) {
+    summary += ` and ${shown.statements} of ${script.statements.length} statements`;
+  }
+  return summary;
+}
+
+/**
+ * The first statements of a script, with only the first rows in statement
+ * order; cut marks results that lost rows
+ */
+function limitScript(
+  script: ScriptResult,
+  shown: ScriptShown
+): Array<ScriptStatementResult & { cut?: boolean }> {
+  let remaining = shown.rows;
+  return script.statements.slice(0, shown.statements).map((statement) => {
+    if (!statement.result) return statement;
+
+    const rows = statement.result.rows.slice(0, remaining);
+    remaining -= rows.length;
+    if (rows.length === statement.result.rows.length) return statement;
+
+    return { ...statement, result: { ...statement.result, rows }, cut: true };
+  });
+}
+
+/**
+ * Largest count up to max that fits, given that fits holds for every count
+ * below one that does
+ */
+function largestFitting(max: number, fits: (count: number) => boolean): number {
+  let low = 0;
+  let high = max;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fits(mid)) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Formats script results as Markdown, one section per statement
+ */
+function formatScriptAsMarkdown(script: ScriptResult, shown: ScriptShown): string {
+  const count = (status: ScriptStatementResult['status']) =>
+    script.statements.filter((statement) => statement.status === status).length;
+
+  const total = script.statements.length;
+  let output = `**Script:** ${total} statement${total === 1 ? '' : 's'}, ${count('ok')} succeeded`;
+  if (count('error') > 0) output += `, ${count('error')} failed`;
+  if (count('skipped') > 0) output += `, ${count('skipped')} skipped`;
+  output += ` (transaction: ${script.transaction})\n`;
+  if (script.rolledBack) {
+    output += '\n_The transaction was rolled back; no statement took effect_\n';
+  }
+
+  for (const statement of limitScript(script, shown)) {
+    const timing = statement.durationMs !== undefined ? `, ${statement.durationMs} ms` : '';
+    output += `\n### ${statement.index}. ${statement.status} (${statement.type}${timing})\n\n`;
+    // Double backticks let MySQL's quoted identifiers through
+    output += `\`\` ${sqlPreview(statement.sql)} \`\`\n`;
+
+    if (statement.error) {
+      output += `\n**Error:** ${statement.error}\n`;
+    } else if (statement.result?.rows.length === 0 && statement.cut) {
+      output += `\n_Showing 0 of ${statement.result.rowCount} rows_\n`;
+    } else if (statement.result) {
+      const { text } = formatQueryResults({ ...statement.result, nextCursor: undefined });
+      output += `\n${text}\n`;
+    }
+  }
+
+  if (isCut(script, shown)) {
+    output += `\n_Output truncated due to character limit: ${shownSummary(script, shown)}_`;
   }
 
   return output;
 }
 
 /**
- * Formats query results as JSON
+ * Formats script results as JSON
  */
-function formatResultsAsJson(result: QueryResult): string {
+function formatScriptAsJson(script: ScriptResult, shown: ScriptShown): string {
   return JSON.stringify(
     {
-      columns: result.columns,
-      rows: result.rows,
-      rowCount: result.rowCount,
-      truncated: result.truncated,
+      ...script,
+      statements: limitScript(script, shown).map(({ result, cut: _cut, ...statement }) => ({
+        ...statement,
+        ...(result && { result: resultObject({ ...result, rows: normalizeRows(result) }) }),
+      })),
+      ...(isCut(script, shown) && {
+        _truncated: true,
+        _message: `Output exceeded character limit; ${shownSummary(script, shown)}`,
+      }),
     },
     null,
     2
@@ -76,25 +654,37 @@ function formatResultsAsJson(result: QueryResult): string {
 }
 
 /**
- * Formats query results based on requested format
+ * Formats the per-statement results of a script. Output past the character
+ * limit stops at whole rows, and then at whole statements, so JSON stays
+ * valid, and says how many rows and statements are shown.
  */
-export function formatQueryResults(
-  result: QueryResult,
+export function formatScriptResults(
+  script: ScriptResult,
   format: ResponseFormat = 'markdown'
 ): string {
-  const formatted =
-    format === 'json' ? formatResultsAsJson(result) : formatResultsAsMarkdown(result);
+  const render = (shown: ScriptShown) =>
+    format === 'json' ? formatScriptAsJson(script, shown) : formatScriptAsMarkdown(script, shown);
+  const fits = (shown: ScriptShown) => render(shown).length <= CHARACTER_LIMIT;
 
-  if (formatted.length > CHARACTER_LIMIT) {
-    const truncateMsg =
-      format === 'json'
-        ? '\n\n{"_truncated": true, "_message": "Output exceeded character limit"}'
-        : '\n\n_Output truncated due to character limit_';
+  const statements = script.statements.length;
+  const rows = scriptRows(script);
 
-    return formatted.slice(0, CHARACTER_LIMIT - truncateMsg.length) + truncateMsg;
+  const formatted = render({ statements, rows });
+  if (formatted.length <= CHARACTER_LIMIT) {
+    return formatted;
   }
 
-  return formatted;
+  // Rows go first; statements only once none of their rows fit
+  if (fits({ statements, rows: 0 })) {
+    return render({
+      statements,
+      rows: largestFitting(rows, (count) => fits({ statements, rows: count })),
+    });
+  }
+  return render({
+    statements: largestFitting(statements, (count) => fits({ statements: count, rows: 0 })),
+    rows: 0,
+  });
 }
 
 /**
@@ -140,8 +730,8 @@ function formatSchemaAsMarkdown(objects: SchemaObject[]): string {
 /**
  * Formats schema objects as JSON
  */
-function formatSchemaAsJson(objects: SchemaObject[]): string {
-  return JSON.stringify(objects, null, 2);
+function formatSchemaAsJson(objects: SchemaObject[], cache?: SchemaCacheInfo): string {
+  return JSON.stringify(cache ? { objects, cache } : objects, null, 2);
 }
 
 /**
@@ -149,12 +739,375 @@ function formatSchemaAsJson(objects: SchemaObject[]): string {
  */
 export function formatSchemaObjects(
   objects: SchemaObject[],
+  format: ResponseFormat = 'markdown',
+  cache?: SchemaCacheInfo
+): string {
+  let formatted =
+    format === 'json' ? formatSchemaAsJson(objects, cache) : formatSchemaAsMarkdown(objects);
+
+  if (format === 'markdown' && cache?.hit) {
+    formatted += `\n\n_Cached result from ${cache.cachedAt}; use refresh_schema to reload_`;
+  }
+
+  if (formatted.length > CHARACTER_LIMIT) {
+    const truncateMsg =
+      format === 'json'
+        ? '\n\n{"_truncated": true}'
+        : '\n\n_Output truncated due to character limit_';
+
+    return formatted.slice(0, CHARACTER_LIMIT - truncateMsg.length) + truncateMsg;
+  }
+
+  return formatted;
+}
+
+/**
+ * Formats a byte count with a binary unit
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Formats the outcome of export_query with a preview of the first rows
+ */
+export function formatExportSummary(
+  summary: ExportSummary,
+  preview: QueryResult,
+  format: ResponseFormat = 'markdown'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        ...summary,
+        preview: {
+          columns: preview.columns,
+          columnMetadata: columnMetadata(preview),
+          rows: normalizeRows(preview),
+        },
+      },
+      null,
+      2
+    );
+  }
+
+  let output = `Exported ${summary.rows} rows (${formatBytes(summary.bytes)}) as ${summary.format} to \`${summary.path}\`\n`;
+  if (summary.truncated) {
+    const limit = summary.truncated === 'rows' ? 'row' : 'byte';
+    output += `\n_Export stopped at the source's ${limit} limit; the result has more rows_\n`;
+  }
+  if (summary.resourceUri) {
+    output += `\nAvailable as resource \`${summary.resourceUri}\`\n`;
+  }
+
+  if (preview.rows.length > 0) {
+    output += '\n### Preview\n\n';
+    output += formatQueryResults({ ...preview, truncated: false }, 'markdown').text;
+  }
+
+  return output;
+}
+
+/**
+ * Escapes a value for use in a Markdown table cell
+ */
+function escapeCell(value: string | undefined): string {
+  return value === undefined ? '-' : value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Formats a table description as Markdown
+ */
+function formatTableAsMarkdown(table: TableDescription): string {
+  const qualifiedName = table.schema ? `${table.schema}.${table.name}` : table.name;
+  let output = `## Table ${qualifiedName}\n\n`;
+
+  if (table.comment) {
+    output += `${table.comment}\n\n`;
+  }
+
+  const stats: string[] = [];
+  if (table.approximateRowCount !== undefined) {
+    stats.push(`~${table.approximateRowCount} rows`);
+  }
+  if (table.sizeBytes !== undefined) {
+    stats.push(formatBytes(table.sizeBytes));
+  }
+  if (stats.length > 0) {
+    output += `_${stats.join(', ')}_\n\n`;
+  }
+
+  output += '### Columns\n\n';
+  output += '| Column | Type | Nullable | Default | Comment |\n';
+  output += '| --- | --- | --- | --- | --- |\n';
+  for (const column of table.columns) {
+    output += `| ${column.name} | ${escapeCell(column.dataType)} | ${column.nullable ? 'Yes' : 'No'} | ${escapeCell(column.defaultValue)} | ${escapeCell(column.comment)} |\n`;
+  }
+
+  if (table.primaryKey) {
+    output += `\n### Primary Key\n\n- ${table.primaryKey.name ?? 'primary key'} (${table.primaryKey.columns.join(', ')})\n`;
+  }
+
+  if (table.uniqueConstraints.length > 0) {
+    output += '\n### Unique Constraints\n\n';
+    for (const constraint of table.uniqueConstraints) {
+      output += `- ${constraint.name ?? 'unique'} (${constraint.columns.join(', ')})\n`;
+    }
+  }
+
+  if (table.foreignKeys.length > 0) {
+    output += '\n### Foreign Keys\n\n';
+    for (const key of table.foreignKeys) {
+      const referenced = key.referencedSchema
+        ? `${key.referencedSchema}.${key.referencedTable}`
+        : key.referencedTable;
+      output += `- ${key.name ?? 'foreign key'} (${key.columns.join(', ')}) → ${referenced} (${key.referencedColumns.join(', ')})\n`;
+    }
+  }
+
+  if (table.indexes.length > 0) {
+    output += '\n### Indexes\n\n';
+    output += '| Index | Columns | Unique |\n';
+    output += '| --- | --- | --- |\n';
+    for (const index of table.indexes) {
+      output += `| ${index.name} | ${escapeCell(index.columns.join(', '))} | ${index.unique ? 'Yes' : 'No'} |\n`;
+    }
+  }
+
+  if (table.checkConstraints.length > 0) {
+    output += '\n### Check Constraints\n\n';
+    for (const check of table.checkConstraints) {
+      output += `- ${check.name ? `${check.name}: ` : ''}\`${check.definition}\`\n`;
+    }
+  }
+
+  return output.trim();
+}
+
+/**
+ * Formats a table description based on requested format
+ */
+export function formatTableDescription(
+  table: TableDescription,
   format: ResponseFormat = 'markdown'
 ): string {
   const formatted =
-    format === 'json' ? formatSchemaAsJson(objects) : formatSchemaAsMarkdown(objects);
+    format === 'json' ? JSON.stringify(table, null, 2) : formatTableAsMarkdown(table);
+
+  if (formatted.length > CHARACTER_LIMIT) {
+    const truncateMsg =
+      format === 'json'
+        ? '\n\n{"_truncated": true}'
+        : '\n\n_Output truncated due to character limit_';
+
+    return formatted.slice(0, CHARACTER_LIMIT - truncateMsg.length) + truncateMsg;
+  }
+
+  return formatted;
+}
+
+/**
+ * Renders a table description as DDL-like text. The output is meant as
+ * schema context for readers, not as a script to replay against the database.
+ */
+export function formatTableDdl(table: TableDescription): string {
+  const qualifiedName = table.schema ? `${table.schema}.${table.name}` : table.name;
+  const lines: string[] = [];
+
+  if (table.comment) {
+    lines.push(`-- ${table.comment.replace(/\n/g, ' ')}`);
+  }
+
+  const stats: string[] = [];
+  if (table.approximateRowCount !== undefined) {
+    stats.push(`~${table.approximateRowCount} rows`);
+  }
+  if (table.sizeBytes !== undefined) {
+    stats.push(formatBytes(table.sizeBytes));
+  }
+  if (stats.length > 0) {
+    lines.push(`-- ${stats.join(', ')}`);
+  }
+
+  // Column and constraint definitions, with an optional trailing comment
+  const definitions: Array<{ text: string; comment?: string }> = table.columns.map((column) => {
+    let text = `${column.name} ${column.dataType}`;
+    if (!column.nullable) text += ' NOT NULL';
+    if (column.defaultValue !== undefined) text += ` DEFAULT ${column.defaultValue}`;
+    return { text, comment: column.comment?.replace(/\n/g, ' ') };
+  });
+
+  const constraint = (name: string | undefined) => (name ? `CONSTRAINT ${name} ` : '');
+
+  if (table.primaryKey) {
+    definitions.push({
+      text: `${constraint(table.primaryKey.name)}PRIMARY KEY (${table.primaryKey.columns.join(', ')})`,
+    });
+  }
+  for (const key of table.uniqueConstraints) {
+    definitions.push({ text: `${constraint(key.name)}UNIQUE (${key.columns.join(', ')})` });
+  }
+  for (const key of table.foreignKeys) {
+    const referenced = key.referencedSchema
+      ? `${key.referencedSchema}.${key.referencedTable}`
+      : key.referencedTable;
+    definitions.push({
+      text: `${constraint(key.name)}FOREIGN KEY (${key.columns.join(', ')}) REFERENCES ${referenced} (${key.referencedColumns.join(', ')})`,
+    });
+  }
+  for (const check of table.checkConstraints) {
+    // Some catalogs return only the parenthesized expression
+    const definition = /^check\b/i.test(check.definition)
+      ? check.definition
+      : `CHECK ${check.definition}`;
+    definitions.push({ text: `${constraint(check.name)}${definition}` });
+  }
+
+  const body = definitions.map(({ text, comment }, index) => {
+    const separator = index < definitions.length - 1 ? ',' : '';
+    return `  ${text}${separator}${comment ? ` -- ${comment}` : ''}`;
+  });
+
+  lines.push(`CREATE TABLE ${qualifiedName} (`, ...body, ');');
+
+  for (const index of table.indexes) {
+    lines.push(
+      `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${index.name} ON ${qualifiedName} (${index.columns.join(', ')});`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats one plan node and its children as a nested Markdown list
+ */
+function formatPlanNode(node: PlanNode, depth: number): string {
+  let line = `${'  '.repeat(depth)}- **${node.operator}**`;
+
+  if (node.relation) {
+    line += ` on \`${node.relation}\``;
+  }
+
+  const stats: string[] = [];
+  if (node.estimatedRows !== undefined) stats.push(`est. rows: ${node.estimatedRows}`);
+  if (node.cost !== undefined) stats.push(`cost: ${node.cost}`);
+  if (node.actualRows !== undefined) stats.push(`actual rows: ${node.actualRows}`);
+  if (node.actualTimeMs !== undefined) stats.push(`time: ${node.actualTimeMs}ms`);
+  if (stats.length > 0) {
+    line += ` (${stats.join(', ')})`;
+  }
+
+  if (node.detail) {
+    line += ` — ${node.detail.replace(/\n/g, ' ')}`;
+  }
+
+  return [line, ...node.children.map((child) => formatPlanNode(child, depth + 1))].join('\n');
+}
+
+/**
+ * Formats a query plan based on requested format
+ */
+export function formatQueryPlan(plan: QueryPlan, format: ResponseFormat = 'markdown'): string {
+  const formatted =
+    format === 'json'
+      ? JSON.stringify(plan, null, 2)
+      : `## Query Plan (${plan.dbType}, ${plan.analyzed ? 'analyzed' : 'estimated'})\n\n` +
+        formatPlanNode(plan.root, 0);
+
+  if (formatted.length > CHARACTER_LIMIT) {
+    const truncateMsg =
+      format === 'json'
+        ? '\n\n{"_truncated": true}'
+        : '\n\n_Output truncated due to character limit_';
+
+    return formatted.slice(0, CHARACTER_LIMIT - truncateMsg.length) + truncateMsg;
+  }
+
+  return formatted;
+}
+
+function formatRelationshipsAsMarkdown(relationships: Relationship[]): string {
+  if (relationships.length === 0) {
+    return '_No relationships found_';
+  }
+
+  let output = `## Relationships (${relationships.length})\n\n`;
+
+  for (const relationship of relationships) {
+    const child = qualifiedName(relationship.schema, relationship.table);
+    const parent = qualifiedName(relationship.referencedSchema, relationship.referencedTable);
+    output += `- \`${child}\` (${relationship.columns.join(', ')}) → \`${parent}\` (${relationship.referencedColumns.join(', ')})`;
+    if (relationship.name) {
+      output += ` — ${relationship.name}`;
+    }
+    if (relationship.inferred) {
+      output += ' _(inferred)_';
+    }
+    output += '\n';
+  }
+
+  return output;
+}
+
+/**
+ * Mermaid entity names may only contain letters, digits, underscores and hyphens
+ */
+function mermaidEntity(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Formats relationships as a Mermaid ER diagram. Declared foreign keys are
+ * drawn as solid lines and inferred ones as dashed lines.
+ */
+function formatRelationshipsAsMermaid(relationships: Relationship[]): string {
+  const lines = ['erDiagram'];
+
+  for (const relationship of relationships) {
+    const child = mermaidEntity(qualifiedName(relationship.schema, relationship.table));
+    const parent = mermaidEntity(
+      qualifiedName(relationship.referencedSchema, relationship.referencedTable)
+    );
+    const line = relationship.inferred ? '..' : '--';
+    const label = (relationship.name || relationship.columns.join(', ')).replace(/"/g, "'");
+    lines.push(`    ${parent} ||${line}o{ ${child} : "${label}"`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a source's relationships based on requested format
+ */
+export function formatRelationships(
+  relationships: Relationship[],
+  format: ResponseFormat | 'mermaid' = 'markdown'
+): string {
+  let formatted: string;
+  if (format === 'json') {
+    formatted = JSON.stringify(relationships, null, 2);
+  } else if (format === 'mermaid') {
+    formatted = formatRelationshipsAsMermaid(relationships);
+  } else {
+    formatted = formatRelationshipsAsMarkdown(relationships);
+  }
 
   if (formatted.length > CHARACTER_LIMIT) {
+    if (format === 'mermaid') {
+      // Cut at a line boundary so the diagram stays valid
+      const truncateMsg = '\n%% Output truncated due to character limit';
+      const cut = formatted.lastIndexOf('\n', CHARACTER_LIMIT - truncateMsg.length);
+      return formatted.slice(0, cut) + truncateMsg;
+    }
+
     const truncateMsg =
       format === 'json'
         ? '\n\n{"_truncated": true}'
@@ -166,11 +1119,43 @@ export function formatSchemaObjects(
   return formatted;
 }
 
+/**
+ * Formats the join path between two tables based on requested format
+ */
+export function formatJoinPath(
+  from: string,
+  to: string,
+  steps: JoinStep[],
+  format: ResponseFormat = 'markdown'
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ from, to, steps }, null, 2);
+  }
+
+  let output = `## Join Path: ${from} → ${to}\n\n`;
+
+  steps.forEach((step, index) => {
+    output += `${index + 1}. \`${step.from}\` → \`${step.to}\` on \`${step.condition}\``;
+    if (step.relationship.inferred) {
+      output += ' _(inferred)_';
+    }
+    output += '\n';
+  });
+
+  output += '\n```sql\nSELECT *\nFROM ' + from;
+  for (const step of steps) {
+    output += `\nJOIN ${step.to} ON ${step.condition}`;
+  }
+  output += '\n```\n';
+
+  return output;
+}
+
 /**
  * Formats a list of database sources
  */
 export function formatSourcesList(
-  sources: Array<{ id: string; type: string; readonly: boolean }>,
+  sources: Array<{ id: string; type: string; readonly: boolean; health?: { status: string } }>,
   format: ResponseFormat = 'markdown'
 ): string {
   if (format === 'json') {
@@ -182,11 +1167,11 @@ export function formatSourcesList(
   }
 
   let output = '## Configured Database Sources\n\n';
-  output += '| ID | Type | Mode |\n';
-  output += '| --- | --- | --- |\n';
+  output += '| ID | Type | Mode | Health |\n';
+  output += '| --- | --- | --- | --- |\n';
 
   for (const source of sources) {
-    output += `| ${source.id} | ${source.type} | ${source.readonly ? 'Read-only' : 'Read/Write'} |\n`;
+    output += `| ${source.id} | ${source.type} | ${source.readonly ? 'Read-only' : 'Read/Write'} | ${source.health?.status ?? '-'} |\n`;
   }
 
   return output;
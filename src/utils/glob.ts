@@ -0,0 +1,13 @@
+/**
+ * Glob matching for config patterns
+ */
+
+/**
+ * Compiles a glob with * and ? wildcards into a case-insensitive RegExp
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = Array.from(pattern)
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,439 @@
+/**
+ * Parsers that normalize dialect-specific query plans into a common PlanNode tree
+ */
+
+import type { PlanNode } from './formatters.js';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function parseJson(value: unknown): unknown {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Wraps several top-level nodes (stages, statements) in a single root
+ */
+function wrapRoots(roots: PlanNode[]): PlanNode {
+  if (roots.length === 1) {
+    return roots[0];
+  }
+  return { operator: 'Query', children: roots };
+}
+
+// ============================================================================
+// PostgreSQL: EXPLAIN (FORMAT JSON)
+// ============================================================================
+
+function fromPostgresNode(node: JsonObject): PlanNode {
+  const relation = node['Relation Name'] as string | undefined;
+  const schema = node['Schema'] as string | undefined;
+  const details: string[] = [];
+
+  if (node['Index Name']) details.push(`index ${node['Index Name']}`);
+  if (node['Join Type'] && node['Node Type'] !== 'Hash') details.push(`${node['Join Type']} join`);
+  if (node['Hash Cond']) details.push(String(node['Hash Cond']));
+  if (node['Filter']) details.push(`filter ${node['Filter']}`);
+
+  return {
+    operator: String(node['Node Type'] ?? 'Unknown'),
+    relation: relation ? (schema ? `${schema}.${relation}` : relation) : undefined,
+    estimatedRows: toNumber(node['Plan Rows']),
+    cost: toNumber(node['Total Cost']),
+    actualRows: toNumber(node['Actual Rows']),
+    actualTimeMs: toNumber(node['Actual Total Time']),
+    detail: details.length > 0 ? details.join('; ') : undefined,
+    children: Array.isArray(node['Plans'])
+      ? (node['Plans'] as JsonObject[]).map(fromPostgresNode)
+      : [],
+  };
+}
+
+export function parsePostgresPlan(value: unknown): PlanNode {
+  const parsed = parseJson(value);
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  return wrapRoots(
+    entries.filter(isObject).map((entry) => fromPostgresNode(entry['Plan'] as JsonObject))
+  );
+}
+
+// ============================================================================
+// MySQL/MariaDB: EXPLAIN FORMAT=JSON and MariaDB ANALYZE FORMAT=JSON
+// ============================================================================
+
+// Keys in MySQL JSON plans that describe a node rather than contain child operators
+const MYSQL_NON_OPERATOR_KEYS = new Set([
+  'cost_info',
+  'used_columns',
+  'possible_keys',
+  'used_key_parts',
+  'ref',
+  'key_length',
+  'r_loops',
+  'r_total_time_ms',
+]);
+
+function humanize(key: string): string {
+  return key
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+function mysqlChildren(value: JsonObject): PlanNode[] {
+  const children: PlanNode[] = [];
+
+  for (const [key, child] of Object.entries(value)) {
+    if (MYSQL_NON_OPERATOR_KEYS.has(key)) continue;
+
+    if (Array.isArray(child)) {
+      // nested_loop and query_specifications hold wrapper objects such as { table: {...} }
+      for (const item of child) {
+        if (isObject(item)) children.push(...mysqlChildren(item));
+      }
+    } else if (isObject(child)) {
+      children.push(fromMySqlNode(key, child));
+    }
+  }
+
+  return children;
+}
+
+function fromMySqlNode(key: string, value: JsonObject): PlanNode {
+  const costInfo = isObject(value['cost_info']) ? value['cost_info'] : {};
+
+  if (key === 'table') {
+    const accessType = value['access_type'] as string | undefined;
+    const index = value['key'] as string | undefined;
+
+    return {
+      operator: accessType ? `Table access (${accessType})` : 'Table access',
+      relation: value['table_name'] as string | undefined,
+      estimatedRows: toNumber(value['rows_produced_per_join'] ?? value['rows']),
+      cost: toNumber(costInfo['prefix_cost'] ?? costInfo['read_cost']),
+      actualRows: toNumber(value['r_rows']),
+      actualTimeMs: toNumber(value['r_total_time_ms']),
+      detail: index ? `index ${index}` : undefined,
+      children: mysqlChildren(value),
+    };
+  }
+
+  return {
+    operator: humanize(key),
+    cost: toNumber(costInfo['query_cost'] ?? costInfo['sort_cost']),
+    actualTimeMs: toNumber(value['r_total_time_ms']),
+    children: mysqlChildren(value),
+  };
+}
+
+export function parseMySqlJsonPlan(value: unknown): PlanNode {
+  const parsed = parseJson(value);
+  if (!isObject(parsed)) {
+    throw new Error('Unexpected MySQL plan format');
+  }
+  return wrapRoots(mysqlChildren(parsed));
+}
+
+/**
+ * Parses MySQL tree plans (EXPLAIN ANALYZE / FORMAT=TREE), e.g.
+ * -> Table scan on t  (cost=0.35 rows=1) (actual time=0.02..0.03 rows=1 loops=1)
+ */
+export function parseMySqlTreePlan(text: string): PlanNode {
+  const roots: PlanNode[] = [];
+  const stack: Array<{ indent: number; node: PlanNode }> = [];
+
+  for (const line of text.split('\n')) {
+    const match = /^(\s*)->\s*(.*)$/.exec(line);
+    if (!match) continue;
+
+    const indent = match[1].length;
+    const body = match[2];
+    const operator = body.replace(/\s+\((cost|actual|rows)[^)]*\)/g, '').trim();
+
+    const estimate = /\(cost=(?:[\d.e+-]+\.\.)?([\d.e+-]+) rows=([\d.e+-]+)\)/.exec(body);
+    const actual = /\(actual time=(?:[\d.e+-]+\.\.)?([\d.e+-]+) rows=([\d.e+-]+)/.exec(body);
+    const relation = /\bon (`?[\w$<>.]+`?)/.exec(operator);
+
+    const node: PlanNode = {
+      operator,
+      relation: relation ? relation[1].replace(/`/g, '') : undefined,
+      cost: toNumber(estimate?.[1]),
+      estimatedRows: toNumber(estimate?.[2]),
+      actualTimeMs: toNumber(actual?.[1]),
+      actualRows: toNumber(actual?.[2]),
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].node.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ indent, node });
+  }
+
+  return wrapRoots(roots);
+}
+
+// ============================================================================
+// SQL Server: SHOWPLAN_XML / STATISTICS XML
+// ============================================================================
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/(\w+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+export function parseSqlServerPlan(xml: string): PlanNode {
+  const roots: PlanNode[] = [];
+  const stack: PlanNode[] = [];
+
+  for (const match of xml.matchAll(/<(\/?)(RelOp|Object|RunTimeCountersPerThread)\b([^>]*?)(\/?)>/g)) {
+    const [, closing, tag, attributeSource, selfClosing] = match;
+    const current = stack[stack.length - 1];
+
+    if (tag === 'RelOp') {
+      if (closing) {
+        stack.pop();
+        continue;
+      }
+
+      const attributes = parseAttributes(attributeSource);
+      const node: PlanNode = {
+        operator: attributes.PhysicalOp ?? 'Unknown',
+        estimatedRows: toNumber(attributes.EstimateRows),
+        cost: toNumber(attributes.EstimatedTotalSubtreeCost),
+        detail:
+          attributes.LogicalOp && attributes.LogicalOp !== attributes.PhysicalOp
+            ? attributes.LogicalOp
+            : undefined,
+        children: [],
+      };
+
+      if (current) {
+        current.children.push(node);
+      } else {
+        roots.push(node);
+      }
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    } else if (tag === 'Object' && current && !current.relation) {
+      const attributes = parseAttributes(attributeSource);
+      const parts = [attributes.Schema, attributes.Table].filter(Boolean);
+      if (parts.length > 0) {
+        current.relation = parts.map((part) => part.replace(/^\[|\]$/g, '')).join('.');
+      }
+    } else if (tag === 'RunTimeCountersPerThread' && current) {
+      // Actual counters are reported per thread
+      const attributes = parseAttributes(attributeSource);
+      const rows = toNumber(attributes.ActualRows);
+      const elapsed = toNumber(attributes.ActualElapsedms);
+      if (rows !== undefined) current.actualRows = (current.actualRows ?? 0) + rows;
+      if (elapsed !== undefined) current.actualTimeMs = Math.max(current.actualTimeMs ?? 0, elapsed);
+    }
+  }
+
+  if (roots.length === 0) {
+    throw new Error('No operators found in SQL Server plan');
+  }
+
+  return wrapRoots(roots);
+}
+
+// ============================================================================
+// Hive: EXPLAIN text output
+// ============================================================================
+
+function parseHiveStatistics(value: string): { estimated?: number; actual?: number } {
+  const match = /Num rows:\s*(\d+)(?:\/(\d+))?/.exec(value);
+  return {
+    estimated: toNumber(match?.[1]),
+    actual: toNumber(match?.[2]),
+  };
+}
+
+export function parseHivePlan(lines: string[]): PlanNode {
+  const roots: PlanNode[] = [];
+  const stack: Array<{ indent: number; node: PlanNode }> = [];
+  let inPlans = false;
+
+  for (const line of lines) {
+    if (line.trim() === '') continue;
+
+    // Only the STAGE PLANS section describes operators
+    if (line.trim() === 'STAGE PLANS:') {
+      inPlans = true;
+      continue;
+    }
+    if (!inPlans) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]?.node;
+
+    const attribute = /^([\w ]+):\s+(.*)$/.exec(text);
+    const isStage = text.startsWith('Stage: ');
+
+    if (attribute && !isStage) {
+      // key: value lines describe the enclosing operator
+      if (parent) {
+        const [, key, value] = attribute;
+        if (key === 'alias') {
+          parent.relation = value;
+        } else if (key === 'Statistics') {
+          const stats = parseHiveStatistics(value);
+          parent.estimatedRows = stats.estimated;
+          parent.actualRows = stats.actual;
+        } else if (key === 'predicate') {
+          parent.detail = value;
+        }
+      }
+      continue;
+    }
+
+    // Section headers such as "Map Operator Tree:" group operators without being one
+    if (text.endsWith(':')) {
+      continue;
+    }
+
+    const node: PlanNode = {
+      operator: isStage ? text.slice('Stage: '.length) : text,
+      children: [],
+    };
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ indent, node });
+  }
+
+  if (roots.length === 0) {
+    throw new Error('No operators found in Hive plan');
+  }
+
+  return wrapRoots(roots);
+}
+
+// ============================================================================
+// Impala: EXPLAIN text output
+// ============================================================================
+
+function parseImpalaCardinality(value: string): number | undefined {
+  const match = /^([\d.]+)([KMBT]?)$/.exec(value);
+  if (!match) return undefined;
+  const multipliers: Record<string, number> = { '': 1, K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+  return Math.round(Number(match[1]) * multipliers[match[2]]);
+}
+
+/**
+ * Impala draws its plan as a trunk of operators where each operator is the
+ * child of the one above it at the same column, and "|--" starts a branch
+ * (e.g. the build side of a join) three columns to the right.
+ */
+export function parseImpalaPlan(lines: string[]): PlanNode {
+  const roots: PlanNode[] = [];
+  const lastAtColumn = new Map<number, PlanNode>();
+  let current: PlanNode | null = null;
+
+  for (const line of lines) {
+    const operatorMatch = /^([\s|]*?)(\|--)?(\d+:.+|PLAN-ROOT SINK.*)$/.exec(line);
+
+    if (operatorMatch) {
+      const [, prefix, branch, text] = operatorMatch;
+      const column = prefix.length + (branch ? branch.length : 0);
+      const parent = branch ? lastAtColumn.get(column - 3) : lastAtColumn.get(column);
+
+      const scan = /^\d+:(SCAN \w+)\s*\[([^\]\s]+)/.exec(text);
+      const node: PlanNode = {
+        operator: text.replace(/^\d+:/, '').trim(),
+        relation: scan ? scan[2] : undefined,
+        children: [],
+      };
+
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+
+      lastAtColumn.set(column, node);
+      // A new operator closes any deeper branches drawn to its right
+      for (const key of Array.from(lastAtColumn.keys())) {
+        if (key > column) lastAtColumn.delete(key);
+      }
+      current = node;
+      continue;
+    }
+
+    // Detail lines such as "row-size=8B cardinality=1" belong to the last operator
+    const cardinality = /cardinality=([\d.]+[KMBT]?)/.exec(line);
+    if (cardinality && current) {
+      current.estimatedRows = parseImpalaCardinality(cardinality[1]);
+    }
+  }
+
+  if (roots.length === 0) {
+    throw new Error('No operators found in Impala plan');
+  }
+
+  return wrapRoots(roots);
+}
+
+// ============================================================================
+// SQLite: EXPLAIN QUERY PLAN
+// ============================================================================
+
+export function parseSqlitePlan(
+  rows: Array<{ id: number; parent: number; detail: string }>
+): PlanNode {
+  const root: PlanNode = { operator: 'Query', children: [] };
+  const nodes = new Map<number, PlanNode>([[0, root]]);
+
+  for (const row of rows) {
+    const relation = /^(?:SCAN|SEARCH)(?: TABLE)? (\S+)/.exec(row.detail);
+    const node: PlanNode = {
+      operator: row.detail,
+      relation: relation ? relation[1] : undefined,
+      children: [],
+    };
+    nodes.set(row.id, node);
+    (nodes.get(row.parent) ?? root).children.push(node);
+  }
+
+  return root.children.length === 1 ? root.children[0] : root;
+}
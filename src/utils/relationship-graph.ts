@@ -0,0 +1,200 @@
+/**
+ * Foreign-key relationship graph: join path search and name-based inference
+ */
+
+import type { RelationshipHeuristics } from '../config/types.js';
+import type { JoinStep, Relationship } from './formatters.js';
+import { DEFAULT_FOREIGN_KEY_PATTERNS, DEFAULT_KEY_COLUMNS } from '../constants.js';
+
+export interface TableColumns {
+  schema?: string;
+  table: string;
+  columns: string[];
+}
+
+/**
+ * Returns the graph node name for a table
+ */
+export function qualifiedName(schema: string | undefined, table: string): string {
+  return schema ? `${schema}.${table}` : table;
+}
+
+/**
+ * Lists every table that appears in a set of relationships
+ */
+export function relationshipTables(relationships: Relationship[]): string[] {
+  const tables = new Set<string>();
+  for (const relationship of relationships) {
+    tables.add(qualifiedName(relationship.schema, relationship.table));
+    tables.add(qualifiedName(relationship.referencedSchema, relationship.referencedTable));
+  }
+  return Array.from(tables).sort();
+}
+
+/**
+ * Resolves a table given as "table" or "schema.table" to a graph node.
+ * Unqualified names must match exactly one table.
+ */
+export function resolveTable(relationships: Relationship[], name: string): string {
+  const tables = relationshipTables(relationships);
+  const lower = name.toLowerCase();
+
+  const exact = tables.find((table) => table.toLowerCase() === lower);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = tables.filter((table) => table.toLowerCase().split('.').pop() === lower);
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Table name "${name}" is ambiguous: ${matches.join(', ')}. Qualify it with a schema.`
+    );
+  }
+
+  throw new Error(`Table "${name}" has no relationships`);
+}
+
+/**
+ * Builds the join condition for a relationship, e.g. orders.customer_id = customers.id
+ */
+function joinCondition(relationship: Relationship): string {
+  const { table, referencedTable, referencedColumns } = relationship;
+  return relationship.columns
+    .map((column, index) => `${table}.${column} = ${referencedTable}.${referencedColumns[index]}`)
+    .join(' AND ');
+}
+
+/**
+ * Finds the shortest join path between two tables, following foreign keys in
+ * either direction. Returns null when the tables are not connected.
+ */
+export function findJoinPath(
+  relationships: Relationship[],
+  from: string,
+  to: string
+): JoinStep[] | null {
+  // Undirected adjacency list
+  const edges = new Map<string, Array<{ next: string; relationship: Relationship }>>();
+  const addEdge = (a: string, b: string, relationship: Relationship) => {
+    const list = edges.get(a) ?? [];
+    list.push({ next: b, relationship });
+    edges.set(a, list);
+  };
+
+  for (const relationship of relationships) {
+    const child = qualifiedName(relationship.schema, relationship.table);
+    const parent = qualifiedName(relationship.referencedSchema, relationship.referencedTable);
+    addEdge(child, parent, relationship);
+    addEdge(parent, child, relationship);
+  }
+
+  // Breadth-first search, remembering how each table was reached
+  const previous = new Map<string, { table: string; relationship: Relationship } | null>([
+    [from, null],
+  ]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const table = queue.shift()!;
+    if (table === to) break;
+
+    for (const { next, relationship } of edges.get(table) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, { table, relationship });
+        queue.push(next);
+      }
+    }
+  }
+
+  if (!previous.has(to)) {
+    return null;
+  }
+
+  const steps: JoinStep[] = [];
+  for (let table = to; previous.get(table); ) {
+    const { table: prior, relationship } = previous.get(table)!;
+    steps.unshift({ relationship, from: prior, to: table, condition: joinCondition(relationship) });
+    table = prior;
+  }
+
+  return steps;
+}
+
+/**
+ * Returns the names a table may be referred to by: its own name and a naive singular form
+ */
+function tableNameVariants(table: string): string[] {
+  const lower = table.toLowerCase();
+  const variants = [lower];
+
+  if (lower.endsWith('ies')) {
+    variants.push(`${lower.slice(0, -3)}y`);
+  } else if (lower.endsWith('ses') || lower.endsWith('xes')) {
+    variants.push(lower.slice(0, -2));
+  } else if (lower.endsWith('s') && !lower.endsWith('ss')) {
+    variants.push(lower.slice(0, -1));
+  }
+
+  return variants;
+}
+
+/**
+ * Infers relationships from column names for databases without declared
+ * foreign keys. A column matching a foreign key pattern for another table
+ * references the first of that table's key columns it has.
+ */
+export function inferRelationships(
+  tables: TableColumns[],
+  heuristics: RelationshipHeuristics = {}
+): Relationship[] {
+  const patterns = heuristics.foreign_key_patterns ?? DEFAULT_FOREIGN_KEY_PATTERNS;
+  const keyColumns = heuristics.key_columns ?? DEFAULT_KEY_COLUMNS;
+  const relationships: Relationship[] = [];
+
+  for (const target of tables) {
+    const targetColumns = new Map(target.columns.map((column) => [column.toLowerCase(), column]));
+
+    for (const variant of tableNameVariants(target.table)) {
+      // The target's key column, e.g. id or customer_id
+      const keyColumn = keyColumns
+        .map((key) => targetColumns.get(key.replace(/\{table\}/g, variant).toLowerCase()))
+        .find((column) => column !== undefined);
+      if (!keyColumn) continue;
+
+      const referencing = new Set(
+        patterns.map((pattern) => pattern.replace(/\{table\}/g, variant).toLowerCase())
+      );
+
+      for (const source of tables) {
+        for (const column of source.columns) {
+          if (!referencing.has(column.toLowerCase())) continue;
+          // A table's own key column does not reference itself
+          if (source === target && column === keyColumn) continue;
+
+          const duplicate = relationships.some(
+            (relationship) =>
+              relationship.table === source.table &&
+              relationship.schema === source.schema &&
+              relationship.columns[0] === column
+          );
+          if (duplicate) continue;
+
+          relationships.push({
+            schema: source.schema,
+            table: source.table,
+            columns: [column],
+            referencedSchema: target.schema,
+            referencedTable: target.table,
+            referencedColumns: [keyColumn],
+            inferred: true,
+          });
+        }
+      }
+    }
+  }
+
+  return relationships;
+}
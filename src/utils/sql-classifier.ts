@@ -0,0 +1,1559 @@
+/**
+ * Dialect-aware SQL statement splitter and classifier used to enforce read-only mode
+ */
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlserver' | 'sqlite' | 'hive' | 'impala';
+
+export type StatementType = 'read' | 'write' | 'ddl' | 'unknown';
+
+export interface ClassifiedStatement {
+  sql: string;
+  type: StatementType;
+  keyword: string;
+}
+
+export interface TableReference {
+  // Schema/database qualifier, when the SQL gives one
+  schema?: string;
+  name: string;
+}
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'number' | 'punct';
+
+interface Token {
+  // Offset of the token in the original SQL
+  start: number;
+  kind: TokenKind;
+  value: string;
+}
+
+interface RawStatement {
+  sql: string;
+  tokens: Token[];
+}
+
+// Statements that only read data
+const READ_KEYWORDS = new Set(['SELECT', 'VALUES', 'TABLE', 'SHOW']);
+
+// Statements that modify data
+const WRITE_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'UPSERT',
+  'REPLACE',
+  'COPY',
+  'LOAD',
+  'LOCK',
+  'IMPORT',
+  'EXPORT',
+]);
+
+// Statements that modify schema, privileges or storage
+const DDL_KEYWORDS = new Set([
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'GRANT',
+  'REVOKE',
+  'RENAME',
+  'COMMENT',
+  'ANALYZE',
+  'ANALYSE',
+  'VACUUM',
+  'REINDEX',
+  'CLUSTER',
+  'MSCK',
+  'REFRESH',
+  'INVALIDATE',
+  'COMPUTE',
+  'OPTIMIZE',
+  'REPAIR',
+]);
+
+// Keywords that may start the statement wrapped by EXPLAIN/DESCRIBE
+const STATEMENT_KEYWORDS = new Set([
+  ...READ_KEYWORDS,
+  ...WRITE_KEYWORDS,
+  ...DDL_KEYWORDS,
+  'WITH',
+  'CALL',
+  'EXEC',
+  'EXECUTE',
+]);
+
+// Keywords that make an otherwise read-only query modify data or take locks
+const DATA_MODIFYING_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+// Functions that change data, sessions or the server when a query calls them
+const SIDE_EFFECT_FUNCTIONS = new Set([
+  // PostgreSQL
+  'NEXTVAL',
+  'SETVAL',
+  'SET_CONFIG',
+  'PG_NOTIFY',
+  'PG_TERMINATE_BACKEND',
+  'PG_CANCEL_BACKEND',
+  'PG_RELOAD_CONF',
+  'PG_ROTATE_LOGFILE',
+  'PG_SWITCH_WAL',
+  'PG_CREATE_RESTORE_POINT',
+  'PG_PROMOTE',
+  'PG_WAL_REPLAY_PAUSE',
+  'PG_WAL_REPLAY_RESUME',
+  'PG_CREATE_PHYSICAL_REPLICATION_SLOT',
+  'PG_CREATE_LOGICAL_REPLICATION_SLOT',
+  'PG_DROP_REPLICATION_SLOT',
+  'PG_COPY_PHYSICAL_REPLICATION_SLOT',
+  'PG_COPY_LOGICAL_REPLICATION_SLOT',
+  'PG_LOGICAL_SLOT_GET_CHANGES',
+  'PG_LOGICAL_SLOT_GET_BINARY_CHANGES',
+  'PG_REPLICATION_SLOT_ADVANCE',
+  'PG_LOGICAL_EMIT_MESSAGE',
+  'PG_IMPORT_SYSTEM_COLLATIONS',
+  'PG_FILE_WRITE',
+  'PG_FILE_RENAME',
+  'PG_FILE_UNLINK',
+  'PG_FILE_SYNC',
+  'LO_CREAT',
+  'LO_CREATE',
+  'LO_IMPORT',
+  'LO_EXPORT',
+  'LO_UNLINK',
+  'LO_PUT',
+  'LO_FROM_BYTEA',
+  'DBLINK_EXEC',
+  'DBLINK_CONNECT',
+  'DBLINK_CONNECT_U',
+  'DBLINK_SEND_QUERY',
+  // MySQL
+  'GET_LOCK',
+  'RELEASE_LOCK',
+  'RELEASE_ALL_LOCKS',
+  // SQLite
+  'LOAD_EXTENSION',
+]);
+
+// Prefixes of further side-effecting function families: advisory locks,
+// statistics resets and replication origins
+const SIDE_EFFECT_FUNCTION_PREFIXES = [
+  'PG_ADVISORY_',
+  'PG_TRY_ADVISORY_',
+  'PG_STAT_RESET',
+  'PG_REPLICATION_ORIGIN_',
+];
+
+// T-SQL keywords that only start a statement. Batches need no semicolons, so
+// one of these partway through a statement starts another.
+const TSQL_STATEMENT_KEYWORDS = new Set([
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'GRANT',
+  'DENY',
+  'REVOKE',
+  'EXEC',
+  'EXECUTE',
+  'DECLARE',
+  'WAITFOR',
+  'USE',
+  'BEGIN',
+  'COMMIT',
+  'ROLLBACK',
+  'SAVE',
+  'IF',
+  'WHILE',
+  'BREAK',
+  'CONTINUE',
+  'GOTO',
+  'RETURN',
+  'PRINT',
+  'RAISERROR',
+  'THROW',
+  'OPEN',
+  'CLOSE',
+  'DEALLOCATE',
+  'KILL',
+  'SHUTDOWN',
+  'RECONFIGURE',
+  'CHECKPOINT',
+  'DBCC',
+  'BACKUP',
+  'RESTORE',
+  'BULK',
+  'SETUSER',
+  'REVERT',
+  'READTEXT',
+  'WRITETEXT',
+  'UPDATETEXT',
+  'ENABLE',
+  'DISABLE',
+  'SEND',
+  'RECEIVE',
+  'MOVE',
+  'GET',
+  'END',
+]);
+
+// T-SQL DDL keywords that also appear inside DDL, e.g. ALTER TABLE ... DROP COLUMN
+const TSQL_DDL_KEYWORDS = new Set([
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'TRUNCATE',
+  'GRANT',
+  'DENY',
+  'REVOKE',
+  // ALTER TABLE ... ENABLE TRIGGER, ALTER INDEX ... DISABLE
+  'ENABLE',
+  'DISABLE',
+]);
+
+// SQLite pragmas that are safe to call with an argument
+const READ_PRAGMAS = new Set([
+  'TABLE_INFO',
+  'TABLE_XINFO',
+  'TABLE_LIST',
+  'INDEX_LIST',
+  'INDEX_INFO',
+  'INDEX_XINFO',
+  'FOREIGN_KEY_LIST',
+  'FOREIGN_KEY_CHECK',
+  'INTEGRITY_CHECK',
+  'QUICK_CHECK',
+]);
+
+// Keywords followed by a table name
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'TABLE', 'USING', 'REFERENCES']);
+
+// Keywords followed by a table name only when they start the statement
+const LEADING_TABLE_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'TRUNCATE',
+  'COPY',
+  'DESCRIBE',
+  'DESC',
+]);
+
+// Keywords followed by a comma-separated list of plain table names
+const TABLE_LIST_KEYWORDS = new Set(['TABLE', 'TRUNCATE', 'DELETE']);
+
+// Options between INSERT, UPDATE, DELETE or MERGE and the target table
+const DML_OPTION_WORDS = new Set([
+  'LOW_PRIORITY',
+  'HIGH_PRIORITY',
+  'DELAYED',
+  'QUICK',
+  'IGNORE',
+  'OVERWRITE',
+]);
+
+// Words that open a subquery right after a parenthesis
+const SUBQUERY_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+
+// Words that may precede JOIN, e.g. LEFT OUTER JOIN or INNER HASH JOIN
+const JOIN_MODIFIERS = new Set([
+  'NATURAL',
+  'INNER',
+  'LEFT',
+  'RIGHT',
+  'FULL',
+  'OUTER',
+  'CROSS',
+  'SEMI',
+  'ANTI',
+  'LOOP',
+  'HASH',
+  'MERGE',
+  'REMOTE',
+]);
+
+// SQL Server hints that may follow a table without WITH, e.g. t (NOLOCK)
+const TSQL_TABLE_HINTS = new Set([
+  'NOLOCK',
+  'READUNCOMMITTED',
+  'READCOMMITTED',
+  'REPEATABLEREAD',
+  'SERIALIZABLE',
+  'HOLDLOCK',
+  'UPDLOCK',
+  'XLOCK',
+  'TABLOCK',
+  'TABLOCKX',
+  'PAGLOCK',
+  'ROWLOCK',
+  'NOWAIT',
+  'READPAST',
+  'INDEX',
+]);
+
+// Words that start a hint, sample, index or partition choice, temporal
+// clause, PIVOT or LATERAL VIEW after a table rather than alias it
+const TABLE_SUFFIX_WORDS = new Set([
+  'WITH',
+  'TABLESAMPLE',
+  'PARTITION',
+  'USE',
+  'FORCE',
+  'IGNORE',
+  'INDEXED',
+  'NOT',
+  'FOR',
+  'PIVOT',
+  'UNPIVOT',
+  'LATERAL',
+  'APPLY',
+]);
+
+// Words that may end a table list, e.g. FROM a, b WHERE ...
+const TABLE_LIST_END_WORDS = new Set([
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'ORDER',
+  'LIMIT',
+  'OFFSET',
+  'FETCH',
+  'UNION',
+  'EXCEPT',
+  'INTERSECT',
+  'MINUS',
+  'WINDOW',
+  'QUALIFY',
+  'FOR',
+  'INTO',
+  'RETURNING',
+  'OUTPUT',
+  'SET',
+  'ON',
+  'USING',
+  'WHEN',
+  'OPTION',
+  'DISTRIBUTE',
+  'SORT',
+  'CLUSTER',
+  'LOCK',
+  'SELECT',
+  'INSERT',
+  'FROM',
+  'WITH',
+  'END',
+  'ELSE',
+]);
+
+// Words that may sit between a table keyword and the table name
+const TABLE_PREFIX_WORDS = new Set([
+  'TABLE',
+  'ONLY',
+  'LATERAL',
+  'IF',
+  'NOT',
+  'EXISTS',
+  'FORMATTED',
+  'EXTENDED',
+]);
+
+// SELECT ... INTO targets that are not tables
+const INTO_TARGET_WORDS = new Set(['OUTFILE', 'DUMPFILE']);
+
+// Functions whose arguments use FROM, e.g. EXTRACT(YEAR FROM created_at)
+const FROM_ARGUMENT_FUNCTIONS = new Set([
+  'EXTRACT',
+  'TRIM',
+  'SUBSTRING',
+  'SUBSTR',
+  'OVERLAY',
+  'POSITION',
+]);
+
+// Functions that read tables their string arguments query or name, which no
+// table check can see; any DBLINK* function does too
+const DYNAMIC_SQL_FUNCTIONS = new Set([
+  'QUERY_TO_XML',
+  'QUERY_TO_XMLSCHEMA',
+  'QUERY_TO_XML_AND_XMLSCHEMA',
+  'TABLE_TO_XML',
+  'TABLE_TO_XMLSCHEMA',
+  'TABLE_TO_XML_AND_XMLSCHEMA',
+  'SCHEMA_TO_XML',
+  'SCHEMA_TO_XMLSCHEMA',
+  'SCHEMA_TO_XML_AND_XMLSCHEMA',
+  'DATABASE_TO_XML',
+  'DATABASE_TO_XMLSCHEMA',
+  'DATABASE_TO_XML_AND_XMLSCHEMA',
+  'CURSOR_TO_XML',
+  'TS_STAT',
+  'CROSSTAB',
+  'CONNECTBY',
+  'OPENROWSET',
+  'OPENQUERY',
+  'OPENDATASOURCE',
+  'SP_EXECUTESQL',
+  'EXEC',
+  'EXECUTE',
+]);
+
+// Words that end a table reference rather than alias it
+const CLAUSE_WORDS = new Set([
+  'WHERE',
+  'JOIN',
+  'INNER',
+  'LEFT',
+  'RIGHT',
+  'FULL',
+  'CROSS',
+  'NATURAL',
+  'OUTER',
+  'ON',
+  'USING',
+  'GROUP',
+  'ORDER',
+  'HAVING',
+  'LIMIT',
+  'OFFSET',
+  'FETCH',
+  'UNION',
+  'EXCEPT',
+  'INTERSECT',
+  'MINUS',
+  'WINDOW',
+  'SET',
+  'VALUES',
+  'SELECT',
+  'WITH',
+  'FOR',
+  'RETURNING',
+  'TABLESAMPLE',
+  'PARTITION',
+  'INTO',
+  'OUTPUT',
+  'TO',
+  'FROM',
+  'DEFAULT',
+]);
+
+// Objects whose definitions hold a body of statements
+const ROUTINE_KINDS = new Set(['PROCEDURE', 'PROC', 'FUNCTION', 'TRIGGER', 'EVENT']);
+
+// Other objects CREATE and ALTER name, which never have a body
+const OBJECT_KINDS = new Set(['TABLE', 'VIEW', 'INDEX', 'SCHEMA', 'DATABASE', 'SEQUENCE', 'TYPE']);
+
+// Transaction control, which scripts leave to their transaction mode
+const TRANSACTION_KEYWORDS = new Set([
+  'BEGIN',
+  'START',
+  'COMMIT',
+  'ROLLBACK',
+  'SAVEPOINT',
+  'RELEASE',
+  'SAVE',
+  'END',
+  'ABORT',
+  'XA',
+]);
+
+const TYPE_SEVERITY: Record<StatementType, number> = {
+  read: 0,
+  write: 1,
+  ddl: 2,
+  unknown: 3,
+};
+
+/**
+ * Maps a connector dbType to its SQL dialect
+ */
+export function dialectForDbType(dbType: string): SqlDialect {
+  switch (dbType) {
+    case 'mariadb':
+      return 'mysql';
+    case 'postgres':
+    case 'mysql':
+    case 'sqlserver':
+    case 'sqlite':
+    case 'hive':
+    case 'impala':
+      return dbType;
+    default:
+      return 'postgres';
+  }
+}
+
+function isWordStart(ch: string): boolean {
+  return /[\p{L}_@]/u.test(ch);
+}
+
+function isWordPart(ch: string): boolean {
+  return /[\p{L}\p{N}_$@#]/u.test(ch);
+}
+
+/**
+ * Tokenizes SQL and splits it into statements, skipping comments and
+ * treating string literals and quoted identifiers as opaque tokens
+ */
+function tokenize(sql: string, dialect: SqlDialect): RawStatement[] {
+  const statements: RawStatement[] = [];
+  const backslashEscapes = dialect === 'mysql' || dialect === 'hive' || dialect === 'impala';
+  const nestedComments = dialect === 'postgres' || dialect === 'sqlserver';
+
+  let tokens: Token[] = [];
+  let start = 0;
+  let inExecutableComment = false;
+  let i = 0;
+
+  const endStatement = (end: number, next = end + 1) => {
+    if (tokens.length > 0) {
+      statements.push({ sql: sql.slice(start, end).trim(), tokens });
+    }
+    tokens = [];
+    start = next;
+  };
+
+  // Reads a quoted section starting at i, returning the index after the closing quote
+  const readQuoted = (close: string, backslash: boolean): number => {
+    let j = i + 1;
+    while (j < sql.length) {
+      const ch = sql[j];
+      if (backslash && ch === '\\') {
+        j += 2;
+        continue;
+      }
+      if (ch === close) {
+        if (sql[j + 1] === close) {
+          j += 2;
+          continue;
+        }
+        return j + 1;
+      }
+      j++;
+    }
+    return sql.length;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments
+    if ((ch === '-' && next === '-') || (ch === '#' && dialect === 'mysql')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    // MySQL executable comments (/*! ... */) run their contents, so tokenize them
+    if (ch === '/' && next === '*' && dialect === 'mysql' && sql[i + 2] === '!') {
+      i += 3;
+      while (i < sql.length && /\d/.test(sql[i])) i++;
+      inExecutableComment = true;
+      continue;
+    }
+
+    if (ch === '*' && next === '/' && inExecutableComment) {
+      inExecutableComment = false;
+      i += 2;
+      continue;
+    }
+
+    // Block comments
+    if (ch === '/' && next === '*') {
+      let depth = 1;
+      let j = i + 2;
+      while (j < sql.length && depth > 0) {
+        if (nestedComments && sql[j] === '/' && sql[j + 1] === '*') {
+          depth++;
+          j += 2;
+        } else if (sql[j] === '*' && sql[j + 1] === '/') {
+          depth--;
+          j += 2;
+        } else {
+          j++;
+        }
+      }
+      i = j;
+      continue;
+    }
+
+    // String literals
+    if (ch === "'") {
+      const prev = tokens[tokens.length - 1];
+      const escapeString =
+        backslashEscapes ||
+        (dialect === 'postgres' && prev?.kind === 'word' && prev.value === 'E');
+      const end = readQuoted("'", escapeString);
+      tokens.push({ start: i, kind: 'string', value: sql.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    // Postgres dollar-quoted strings ($$...$$ or $tag$...$tag$)
+    if (ch === '$' && dialect === 'postgres') {
+      const match = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (match) {
+        const close = sql.indexOf(match[0], i + match[0].length);
+        const end = close === -1 ? sql.length : close + match[0].length;
+        tokens.push({ start: i, kind: 'string', value: sql.slice(i, end) });
+        i = end;
+        continue;
+      }
+    }
+
+    // Double quotes are identifiers in ANSI dialects and strings elsewhere
+    if (ch === '"') {
+      const end = readQuoted('"', backslashEscapes);
+      tokens.push({
+        start: i,
+        kind: backslashEscapes ? 'string' : 'identifier',
+        value: sql.slice(i, end),
+      });
+      i = end;
+      continue;
+    }
+
+    // Backtick-quoted identifiers
+    if (ch === '`' && dialect !== 'postgres' && dialect !== 'sqlserver') {
+      const end = readQuoted('`', false);
+      tokens.push({ start: i, kind: 'identifier', value: sql.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    // Bracket-quoted identifiers
+    if (ch === '[' && (dialect === 'sqlserver' || dialect === 'sqlite')) {
+      const end = readQuoted(']', false);
+      tokens.push({ start: i, kind: 'identifier', value: sql.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    // Statement separator, unless inside a routine or trigger body
+    if (ch === ';') {
+      if (openBlocks(tokens, dialect) > 0) {
+        tokens.push({ start: i, kind: 'punct', value: ch });
+      } else {
+        endStatement(i);
+      }
+      i++;
+      continue;
+    }
+
+    // Keywords and identifiers (# starts SQL Server temp table names)
+    if (isWordStart(ch) || (ch === '#' && dialect === 'sqlserver')) {
+      let j = i + 1;
+      while (j < sql.length && isWordPart(sql[j])) j++;
+      const value = sql.slice(i, j).toUpperCase();
+
+      // A line holding only GO ends a SQL Server batch, bodies included
+      if (dialect === 'sqlserver' && value === 'GO') {
+        const lineStart = sql.lastIndexOf('\n', i - 1) + 1;
+        const lineEnd = sql.indexOf('\n', j) === -1 ? sql.length : sql.indexOf('\n', j);
+        if (
+          sql.slice(lineStart, i).trim() === '' &&
+          /^\s*(--.*)?$/.test(sql.slice(j, lineEnd))
+        ) {
+          endStatement(i, lineEnd);
+          i = lineEnd;
+          continue;
+        }
+      }
+
+      tokens.push({ start: i, kind: 'word', value });
+      i = j;
+      continue;
+    }
+
+    // Numbers
+    if (/\d/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[\d.eE]/.test(sql[j])) j++;
+      tokens.push({ start: i, kind: 'number', value: sql.slice(i, j) });
+      i = j;
+      continue;
+    }
+
+    tokens.push({ start: i, kind: 'punct', value: ch });
+    i++;
+  }
+
+  endStatement(sql.length);
+
+  return statements;
+}
+
+function isWord(token: Token | undefined, ...values: string[]): boolean {
+  return token?.kind === 'word' && (values.length === 0 || values.includes(token.value));
+}
+
+/**
+ * Checks if a statement holds a body of statements: a routine or trigger
+ * definition, or a SQL Server block. Elsewhere BEGIN starts a transaction or
+ * is a plain name.
+ */
+function hasBody(tokens: Token[], dialect: SqlDialect): boolean {
+  const first = tokens[0];
+
+  if (isWord(first, 'CREATE', 'ALTER')) {
+    const kind = tokens.find(
+      (token) => isWord(token) && (ROUTINE_KINDS.has(token.value) || OBJECT_KINDS.has(token.value))
+    );
+    return kind !== undefined && ROUTINE_KINDS.has(kind.value);
+  }
+
+  return (
+    dialect === 'sqlserver' &&
+    isWord(first, 'BEGIN', 'IF', 'WHILE') &&
+    !isWord(tokens[1], 'TRAN', 'TRANSACTION', 'DISTRIBUTED')
+  );
+}
+
+/**
+ * Counts the BEGIN ... END and CASE ... END blocks left open in a body so
+ * far; semicolons inside them don't end the statement
+ */
+function openBlocks(tokens: Token[], dialect: SqlDialect): number {
+  if (!hasBody(tokens, dialect)) {
+    return 0;
+  }
+
+  let depth = 0;
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+
+    if (isWord(token, 'BEGIN') && !isWord(next, 'TRAN', 'TRANSACTION', 'DISTRIBUTED')) {
+      depth++;
+    } else if (isWord(token, 'CASE') && !isWord(previous, 'END')) {
+      depth++;
+    } else if (isWord(token, 'END') && depth > 0 && !isWord(next, 'IF', 'LOOP', 'WHILE', 'REPEAT')) {
+      // MySQL closes IF, LOOP, WHILE and REPEAT with END <keyword>, and CASE with END CASE
+      depth--;
+    }
+  });
+  return depth;
+}
+
+/**
+ * Checks if a T-SQL statement runs on into another statement without a
+ * semicolon, e.g. SELECT 1 DROP TABLE t. Looks for statement keywords outside
+ * parentheses that cannot belong to the statement the batch starts with.
+ */
+function hasTrailingStatement(tokens: Token[]): boolean {
+  // Routine bodies hold statements but don't run them
+  if (hasBody(tokens, 'sqlserver')) {
+    return false;
+  }
+
+  const words: number[] = [];
+  let depth = 0;
+  let cases = 0;
+  tokens.forEach((token, index) => {
+    if (token.value === '(') depth++;
+    else if (token.value === ')') depth--;
+    if (depth > 0 || token.kind !== 'word') return;
+
+    // The END of a CASE expression ends no statement
+    if (token.value === 'CASE') cases++;
+    else if (token.value === 'END' && cases > 0) cases--;
+    else words.push(index);
+  });
+
+  // A WITH clause belongs to the statement after it
+  let main = tokens.findIndex((token) => token.value !== '(');
+  if (isWord(tokens[main], 'WITH')) {
+    main =
+      words.find((index) => isWord(tokens[index], 'SELECT', ...DATA_MODIFYING_KEYWORDS)) ?? main;
+  }
+
+  const keyword = tokens[main]?.value;
+  const ddl = DDL_KEYWORDS.has(keyword);
+
+  return words.some((index) => {
+    if (index <= main) return false;
+
+    const word = tokens[index].value;
+    const previous = tokens[index - 1];
+
+    if (TSQL_STATEMENT_KEYWORDS.has(word)) {
+      // WITH ROLLBACK IMMEDIATE, WITH EXECUTE AS, DROP TABLE IF EXISTS
+      if (isWord(previous, 'WITH') || (word === 'IF' && isWord(tokens[index + 1], 'EXISTS'))) {
+        return false;
+      }
+      return !(ddl && TSQL_DDL_KEYWORDS.has(word));
+    }
+
+    // DDL takes SET options, e.g. ALTER DATABASE ... SET
+    if (ddl) return false;
+
+    if (word === 'SET') {
+      return keyword !== 'UPDATE' && keyword !== 'MERGE';
+    }
+
+    // MERGE holds its own INSERT, UPDATE and DELETE actions
+    return DATA_MODIFYING_KEYWORDS.has(word) && keyword !== 'MERGE';
+  });
+}
+
+/**
+ * Checks if a name token calls a function with side effects, such as
+ * pg_terminate_backend() or setval(); quoted names count too
+ */
+function isSideEffectFunction(token: Token): boolean {
+  if (!isName(token)) return false;
+
+  const name = token.kind === 'word' ? token.value : token.value.slice(1, -1).toUpperCase();
+  return (
+    SIDE_EFFECT_FUNCTIONS.has(name) ||
+    SIDE_EFFECT_FUNCTION_PREFIXES.some((prefix) => name.startsWith(prefix))
+  );
+}
+
+/**
+ * Classifies a query that starts as a read (SELECT, WITH, VALUES, ...)
+ * but may still modify data through a CTE, SELECT INTO or a locking clause
+ */
+function classifyQuery(tokens: Token[]): StatementType {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (tokens[i + 1]?.value === '(' && isSideEffectFunction(token)) {
+      return 'write';
+    }
+
+    if (token.kind !== 'word') continue;
+
+    // INSERT(...) and friends are string functions in some dialects
+    if (DATA_MODIFYING_KEYWORDS.has(token.value) && tokens[i + 1]?.value !== '(') {
+      return 'write';
+    }
+
+    // SELECT ... INTO creates a table, file or variable
+    if (token.value === 'INTO') {
+      return 'write';
+    }
+
+    // SQL Server's NEXT VALUE FOR advances a sequence
+    if (token.value === 'NEXT' && isWord(tokens[i + 1], 'VALUE') && isWord(tokens[i + 2], 'FOR')) {
+      return 'write';
+    }
+
+    // FOR SHARE / LOCK IN SHARE MODE take row locks
+    if (token.value === 'LOCK' || (token.value === 'FOR' && isWord(tokens[i + 1], 'SHARE', 'KEY'))) {
+      return 'write';
+    }
+  }
+
+  return 'read';
+}
+
+/**
+ * Classifies EXPLAIN/DESCRIBE, which only executes the wrapped statement when ANALYZE is given
+ */
+function classifyExplain(tokens: Token[], dialect: SqlDialect): StatementType {
+  let analyze = false;
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (isWord(token, 'ANALYZE', 'ANALYSE')) {
+      analyze = true;
+      continue;
+    }
+
+    // Skip option values such as FORMAT=JSON
+    if (tokens[i - 1]?.value === '=') continue;
+
+    if (isWord(token) && STATEMENT_KEYWORDS.has(token.value)) {
+      return analyze ? classifyTokens(tokens.slice(i), dialect) : 'read';
+    }
+  }
+
+  // EXPLAIN/DESCRIBE <table>
+  return 'read';
+}
+
+/**
+ * Classifies SQLite PRAGMA statements, which can both read and set values
+ */
+function classifyPragma(tokens: Token[]): StatementType {
+  if (tokens.some((token) => token.value === '=')) {
+    return 'write';
+  }
+
+  const argIndex = tokens.findIndex((token) => token.value === '(');
+  if (argIndex === -1) {
+    return 'read';
+  }
+
+  // PRAGMA name(value) is also a setter unless the pragma only reads
+  const name = tokens[argIndex - 1];
+  return name && READ_PRAGMAS.has(name.value) ? 'read' : 'unknown';
+}
+
+function classifyTokens(tokens: Token[], dialect: SqlDialect): StatementType {
+  const type = classifyStatement(tokens, dialect);
+
+  // Statements in a T-SQL batch need no semicolon between them
+  if (dialect === 'sqlserver' && type !== 'unknown' && hasTrailingStatement(tokens)) {
+    return 'unknown';
+  }
+  return type;
+}
+
+function classifyStatement(tokens: Token[], dialect: SqlDialect): StatementType {
+  // Skip leading parentheses, e.g. (SELECT ...) UNION (SELECT ...)
+  const first = tokens.find((token) => token.value !== '(');
+
+  if (!first || first.kind !== 'word') {
+    return 'unknown';
+  }
+
+  const keyword = first.value;
+
+  if (keyword === 'EXPLAIN' || keyword === 'DESCRIBE' || keyword === 'DESC') {
+    return classifyExplain(tokens, dialect);
+  }
+
+  // MariaDB's ANALYZE [FORMAT=JSON] <statement> executes it like EXPLAIN ANALYZE;
+  // ANALYZE TABLE stays DDL
+  if (keyword === 'ANALYZE' && dialect === 'mysql') {
+    const inner = isWord(tokens[1], 'FORMAT') && tokens[2]?.value === '=' ? 4 : 1;
+    const token = tokens[inner];
+    if (isWord(token) && token.value !== 'TABLE' && STATEMENT_KEYWORDS.has(token.value)) {
+      return classifyTokens(tokens.slice(inner), dialect);
+    }
+  }
+
+  if (keyword === 'PRAGMA' && dialect === 'sqlite') {
+    return classifyPragma(tokens);
+  }
+
+  if (keyword === 'WITH' || READ_KEYWORDS.has(keyword)) {
+    return classifyQuery(tokens);
+  }
+
+  if (WRITE_KEYWORDS.has(keyword)) {
+    return 'write';
+  }
+
+  if (DDL_KEYWORDS.has(keyword)) {
+    return 'ddl';
+  }
+
+  // CALL/EXEC, SET, transaction control, etc. have effects we cannot prove harmless
+  return 'unknown';
+}
+
+/**
+ * Splits a SQL batch into individual statements, ignoring empty ones
+ */
+export function splitStatements(sql: string, dialect: SqlDialect): string[] {
+  return tokenize(sql, dialect).map((statement) => statement.sql);
+}
+
+/**
+ * Splits a SQL batch and classifies each statement as read, write, DDL or
+ * unknown. A body of several statements may do anything, so definitions
+ * holding one are unknown.
+ */
+export function classifySql(sql: string, dialect: SqlDialect): ClassifiedStatement[] {
+  return tokenize(sql, dialect).map((statement) => {
+    const first = statement.tokens.find((token) => token.value !== '(');
+    const hasStatements = statement.tokens.some((token) => token.value === ';');
+    return {
+      sql: statement.sql,
+      type: hasStatements ? 'unknown' : classifyTokens(statement.tokens, dialect),
+      keyword: first?.kind === 'word' ? first.value : '',
+    };
+  });
+}
+
+/**
+ * Checks if a statement begins, ends or otherwise controls a transaction
+ */
+export function isTransactionControl(statement: ClassifiedStatement, dialect: SqlDialect): boolean {
+  if (!TRANSACTION_KEYWORDS.has(statement.keyword)) {
+    return false;
+  }
+
+  const [{ tokens }] = tokenize(statement.sql, dialect);
+  switch (statement.keyword) {
+    case 'START':
+      return isWord(tokens[1], 'TRANSACTION');
+    case 'BEGIN':
+      // SQL Server blocks also start with BEGIN
+      return !(dialect === 'sqlserver' && hasBody(tokens, dialect));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks if a statement of this type may have created, altered or dropped
+ * objects. Unknown statements include routines and blocks, which may.
+ */
+export function changesSchema(type: StatementType): boolean {
+  return type === 'ddl' || type === 'unknown';
+}
+
+/**
+ * Returns the first statement with the most restrictive classification,
+ * or undefined if the batch contains no statements
+ */
+export function mostRestrictive(
+  statements: ClassifiedStatement[]
+): ClassifiedStatement | undefined {
+  let result: ClassifiedStatement | undefined;
+  for (const statement of statements) {
+    if (!result || TYPE_SEVERITY[statement.type] > TYPE_SEVERITY[result.type]) {
+      result = statement;
+    }
+  }
+  return result;
+}
+
+/**
+ * Replaces string and numeric literals with ? so SQL can be logged without the
+ * values it carries. Comments and identifiers are kept.
+ */
+export function redactLiterals(sql: string, dialect: SqlDialect): string {
+  const literals = tokenize(sql, dialect)
+    .flatMap((statement) => statement.tokens)
+    .filter((token) => token.kind === 'string' || token.kind === 'number');
+
+  let output = '';
+  let position = 0;
+  for (const token of literals) {
+    output += sql.slice(position, token.start) + '?';
+    position = token.start + token.value.length;
+  }
+
+  return output + sql.slice(position);
+}
+
+function isName(token: Token | undefined): boolean {
+  return token?.kind === 'word' || token?.kind === 'identifier';
+}
+
+/**
+ * Returns a name token as written: words keep their original case and quoted
+ * identifiers lose their quotes
+ */
+function nameText(sql: string, token: Token): string {
+  if (token.kind === 'word') {
+    return sql.slice(token.start, token.start + token.value.length);
+  }
+  const quote = token.value[0];
+  const close = quote === '[' ? ']' : quote;
+  return token.value.slice(1, -1).split(close + close).join(close);
+}
+
+/**
+ * Index of the token after the parenthesis group opening at index
+ */
+function skipParentheses(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].value === '(') depth++;
+    if (tokens[i].value === ')' && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+}
+
+/**
+ * Names defined by WITH clauses, which are not tables
+ */
+function cteNames(sql: string, tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isName(tokens[i]) || tokens[i].value === 'AS') continue;
+
+    // name AS (...) or name (columns) AS (...)
+    let next = i + 1;
+    if (tokens[next]?.value === '(') {
+      next = skipParentheses(tokens, next);
+    }
+    if (isWord(tokens[next], 'AS') && tokens[next + 1]?.value === '(') {
+      names.add(nameText(sql, tokens[i]).toLowerCase());
+    }
+  }
+  return names;
+}
+
+/**
+ * Tables a SQL batch references, the table functions it reads from, and
+ * whether every table list was parsed
+ */
+interface TableScan {
+  references: TableReference[];
+  functions: string[];
+  complete: boolean;
+}
+
+function scanTables(sql: string, dialect: SqlDialect): TableScan {
+  const references = new Map<string, TableReference>();
+  const functions: string[] = [];
+  let complete = true;
+
+  for (const { tokens } of tokenize(sql, dialect)) {
+    const first = tokens[0];
+
+    // SHOW TABLES/DATABASES list names rather than read tables
+    if (isWord(first, 'SHOW') && isWord(tokens[1], 'TABLES', 'DATABASES', 'SCHEMAS')) {
+      continue;
+    }
+
+    // SHOW ... FROM and COPY ... FROM name a table, then options or a file
+    const strict = !isWord(first, 'SHOW', 'COPY');
+
+    const ctes = cteNames(sql, tokens);
+    const createIndex = isWord(first, 'CREATE') && tokens.some((token) => isWord(token, 'INDEX'));
+
+    // Marks the batch as not fully parsed; returns index
+    const incomplete = (index: number): number => {
+      if (strict) complete = false;
+      return index;
+    };
+
+    // Reads a possibly qualified name at index; returns the index after it
+    const readName = (index: number, keyword: string): number => {
+      const parts: string[] = [];
+      let i = index;
+      while (isName(tokens[i])) {
+        parts.push(nameText(sql, tokens[i]));
+        i++;
+        if (tokens[i]?.value !== '.') break;
+        i++;
+        // SQL Server's db..table omits the schema
+        while (tokens[i]?.value === '.') {
+          parts.push('');
+          i++;
+        }
+      }
+
+      // FROM f(...) is a table function, unless it's SQL Server's t (NOLOCK);
+      // other keywords take a column list
+      const isHint =
+        dialect === 'sqlserver' && isWord(tokens[i + 1]) && TSQL_TABLE_HINTS.has(tokens[i + 1].value);
+      const isFunction =
+        (keyword === 'FROM' || keyword === 'JOIN') && tokens[i]?.value === '(' && !isHint;
+      const name = parts[parts.length - 1];
+      const schema = parts.length > 1 ? parts[parts.length - 2] || undefined : undefined;
+
+      if (name && isFunction) {
+        functions.push(name);
+      } else if (name && !name.startsWith('@') && !INTO_TARGET_WORDS.has(name.toUpperCase())) {
+        if (schema || !ctes.has(name.toLowerCase())) {
+          const key = `${schema ?? ''}.${name}`.toLowerCase();
+          references.set(key, { schema, name });
+        }
+      }
+      return i;
+    };
+
+    // Index after the join keywords starting at index, or -1 if none do
+    const joinEnd = (index: number): number => {
+      let j = index;
+      while (isWord(tokens[j]) && JOIN_MODIFIERS.has(tokens[j].value)) {
+        // LEFT(...) and the like are functions
+        if (tokens[j + 1]?.value === '(') return -1;
+        j++;
+      }
+      const token = tokens[j];
+      // JOIN, STRAIGHT_JOIN and the like, or CROSS/OUTER APPLY
+      if (isWord(token) && (token.value === 'JOIN' || token.value.endsWith('_JOIN'))) return j + 1;
+      if (j > index && isWord(token, 'APPLY')) return j + 1;
+      return -1;
+    };
+
+    // An alias: a quoted identifier, or a word that doesn't start what follows a table
+    const isAlias = (index: number): boolean => {
+      const token = tokens[index];
+      if (token?.kind === 'identifier') return true;
+      return (
+        isWord(token) &&
+        !CLAUSE_WORDS.has(token.value) &&
+        !TABLE_LIST_END_WORDS.has(token.value) &&
+        !TABLE_SUFFIX_WORDS.has(token.value) &&
+        joinEnd(index) === -1
+      );
+    };
+
+    // Skips a join condition, up to whatever ends it outside parentheses
+    const skipCondition = (index: number): number => {
+      let j = index;
+      let cases = 0;
+      while (j < tokens.length) {
+        const token = tokens[j];
+        if (token.value === '(') {
+          j = skipParentheses(tokens, j);
+          continue;
+        }
+        if (token.value === ')' || token.value === ',' || token.value === ';') break;
+
+        // Column names after a dot may be keywords
+        if (isWord(token) && tokens[j - 1]?.value !== '.') {
+          if (token.value === 'CASE') {
+            cases++;
+          } else if (token.value === 'END' && cases > 0) {
+            cases--;
+          } else if (
+            cases === 0 &&
+            ((TABLE_LIST_END_WORDS.has(token.value) &&
+              !(token.value === 'FROM' && isWord(tokens[j - 1], 'DISTINCT'))) ||
+              joinEnd(j) !== -1)
+          ) {
+            break;
+          }
+        }
+        j++;
+      }
+      return j;
+    };
+
+    // Skips a FOR SYSTEM_TIME value: a literal, TIMESTAMP '...', a variable or a function call
+    const skipTimeValue = (index: number): number => {
+      if (isWord(tokens[index]) && tokens[index + 1]?.kind === 'string') return index + 2;
+      if (tokens[index + 1]?.value === '(') return skipParentheses(tokens, index + 1);
+      return index + 1;
+    };
+
+    // Skips the rest of FOR SYSTEM_TIME ALL | AS OF v | FROM v TO v |
+    // BETWEEN v AND v | CONTAINED IN (v, v)
+    const skipSystemTime = (index: number): number => {
+      let j = index;
+      if (isWord(tokens[j], 'ALL')) return j + 1;
+      if (isWord(tokens[j], 'AS') && isWord(tokens[j + 1], 'OF')) return skipTimeValue(j + 2);
+      if (isWord(tokens[j], 'CONTAINED') && isWord(tokens[j + 1], 'IN')) {
+        return tokens[j + 2]?.value === '(' ? skipParentheses(tokens, j + 2) : incomplete(j + 2);
+      }
+      if (isWord(tokens[j], 'FROM', 'BETWEEN')) {
+        j = skipTimeValue(j + 1);
+        if (isWord(tokens[j], 'TO', 'AND')) return skipTimeValue(j + 1);
+      }
+      return incomplete(j);
+    };
+
+    // Skips the rest of Hive's LATERAL VIEW [OUTER] f(...) alias [AS column, ...]
+    const skipLateralView = (index: number): number => {
+      let j = index;
+      if (isWord(tokens[j], 'OUTER')) j++;
+      while (isName(tokens[j])) {
+        j++;
+        if (tokens[j]?.value !== '.') break;
+        j++;
+      }
+      if (tokens[j]?.value !== '(') return incomplete(j);
+      j = skipParentheses(tokens, j);
+      if (!isWord(tokens[j], 'AS') && isAlias(j)) j++;
+      if (isWord(tokens[j], 'AS')) {
+        j++;
+        while (isName(tokens[j]) && tokens[j + 1]?.value === ',') j += 2;
+        j++;
+      }
+      return j;
+    };
+
+    // Skips an alias, hints and the like after a table reference
+    const skipTableSuffixes = (index: number): number => {
+      let j = index;
+      let aliased = false;
+      for (;;) {
+        const token = tokens[j];
+        const next = tokens[j + 1];
+
+        if (token?.value === '*') {
+          // PostgreSQL's t * includes inheriting tables
+          j++;
+        } else if (isWord(token, 'WITH') && next?.value === '(') {
+          j = skipParentheses(tokens, j + 1);
+        } else if (isWord(token, 'WITH') && isWord(next, 'ORDINALITY')) {
+          j += 2;
+        } else if (isWord(token, 'TABLESAMPLE')) {
+          // TABLESAMPLE [method] (...) [REPEATABLE (...)]
+          j++;
+          if (isWord(tokens[j]) && tokens[j + 1]?.value === '(') j++;
+          if (tokens[j]?.value !== '(') return incomplete(j);
+          j = skipParentheses(tokens, j);
+          if (isWord(tokens[j], 'REPEATABLE') && tokens[j + 1]?.value === '(') {
+            j = skipParentheses(tokens, j + 1);
+          }
+        } else if (isWord(token, 'PARTITION') && next?.value === '(') {
+          j = skipParentheses(tokens, j + 1);
+        } else if (isWord(token, 'USE', 'FORCE', 'IGNORE') && isWord(next, 'INDEX', 'KEY')) {
+          // MySQL's USE INDEX [FOR JOIN | FOR ORDER BY | FOR GROUP BY] (...)
+          j += 2;
+          if (isWord(tokens[j], 'FOR')) j += isWord(tokens[j + 1], 'JOIN') ? 2 : 3;
+          if (tokens[j]?.value !== '(') return incomplete(j);
+          j = skipParentheses(tokens, j);
+        } else if (isWord(token, 'INDEXED') && isWord(next, 'BY')) {
+          j += 3;
+        } else if (isWord(token, 'NOT') && isWord(next, 'INDEXED')) {
+          j += 2;
+        } else if (isWord(token, 'FOR') && isWord(next, 'SYSTEM_TIME', 'SYSTEM_VERSION')) {
+          j = skipSystemTime(j + 2);
+        } else if (isWord(token, 'PIVOT', 'UNPIVOT') && next?.value === '(') {
+          // The pivoted table takes its own alias
+          j = skipParentheses(tokens, j + 1);
+          aliased = false;
+        } else if (isWord(token, 'LATERAL') && isWord(next, 'VIEW')) {
+          j = skipLateralView(j + 2);
+        } else if (!aliased && (isWord(token, 'AS') || isAlias(j))) {
+          // alias or AS alias, with optional column aliases
+          j += isWord(token, 'AS') ? 2 : 1;
+          if (tokens[j]?.value === '(') j = skipParentheses(tokens, j);
+          aliased = true;
+        } else {
+          return j;
+        }
+      }
+    };
+
+    // Reads a table, table function, subquery or parenthesised join and
+    // whatever follows it; returns the index after it
+    const readTableReference = (index: number): number => {
+      let j = index;
+
+      // Impala's join hints, e.g. JOIN [SHUFFLE] t
+      if (tokens[j]?.value === '[') {
+        while (j < tokens.length && tokens[j].value !== ']') j++;
+        j++;
+      }
+      while (isWord(tokens[j], 'ONLY', 'LATERAL') && !isWord(tokens[j + 1], 'VIEW')) j++;
+
+      if (tokens[j]?.value === '(') {
+        if (isWord(tokens[j + 1]) && SUBQUERY_KEYWORDS.has(tokens[j + 1].value)) {
+          // Subqueries are scanned for their own FROM clauses
+          j = skipParentheses(tokens, j);
+        } else {
+          const start = j;
+          j = readTableList(j + 1);
+          if (isWord(tokens[j], 'UNION', 'EXCEPT', 'INTERSECT', 'MINUS')) {
+            // ((SELECT ...) UNION (SELECT ...)) is a subquery too
+            j = skipParentheses(tokens, start);
+          } else if (tokens[j]?.value === ')') {
+            j++;
+          } else {
+            return incomplete(j);
+          }
+        }
+      } else if (isName(tokens[j])) {
+        j = readName(j, 'FROM');
+        // Table function arguments, or SQL Server's t (NOLOCK)
+        if (tokens[j]?.value === '(') j = skipParentheses(tokens, j);
+      } else {
+        return incomplete(j);
+      }
+      return skipTableSuffixes(j);
+    };
+
+    // Reads a comma-separated list of table references and their joins,
+    // as in FROM, USING or UPDATE; returns the index after it
+    const readTableList = (index: number): number => {
+      let j = index;
+      for (;;) {
+        j = readTableReference(j);
+
+        // Joins and their ON or USING conditions
+        for (;;) {
+          const join = joinEnd(j);
+          if (join !== -1) {
+            j = readTableReference(join);
+          } else if (isWord(tokens[j], 'ON') && !isWord(tokens[j + 1], 'DUPLICATE', 'CONFLICT')) {
+            j = skipCondition(j + 1);
+          } else if (isWord(tokens[j], 'USING') && tokens[j + 1]?.value === '(') {
+            j = skipParentheses(tokens, j + 1);
+          } else {
+            break;
+          }
+        }
+
+        if (tokens[j]?.value !== ',') return j;
+        j++;
+      }
+    };
+
+    // Functions each open parenthesis belongs to
+    const parentheses: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const previous = tokens[i - 1];
+
+      if (token.value === '(') {
+        parentheses.push(previous?.kind === 'word' ? previous.value : '');
+        continue;
+      }
+      if (token.value === ')') {
+        parentheses.pop();
+        continue;
+      }
+      if (token.kind !== 'word') continue;
+
+      const keyword = token.value;
+
+      // INSERT, UPDATE, DELETE and MERGE also start data-modifying CTEs;
+      // elsewhere it's ON DUPLICATE KEY UPDATE, WHEN MATCHED THEN DELETE etc.
+      const afterParenthesis = previous?.value === '(' || previous?.value === ')';
+      const leading = i === 0 || (DATA_MODIFYING_KEYWORDS.has(keyword) && afterParenthesis);
+
+      // CREATE INDEX ... ON table
+      const indexTarget = keyword === 'ON' && createIndex && parentheses.length === 0;
+
+      if (
+        !indexTarget &&
+        !(TABLE_KEYWORDS.has(keyword) && !(keyword === 'USING' && isWord(first, 'CREATE', 'ALTER'))) &&
+        !(leading && LEADING_TABLE_KEYWORDS.has(keyword))
+      ) {
+        continue;
+      }
+
+      // EXTRACT(YEAR FROM ...), IS DISTINCT FROM ...
+      if (keyword === 'FROM') {
+        const enclosing = parentheses[parentheses.length - 1];
+        if (FROM_ARGUMENT_FUNCTIONS.has(enclosing) || isWord(previous, 'DISTINCT')) continue;
+      }
+
+      let j = i + 1;
+
+      if (DATA_MODIFYING_KEYWORDS.has(keyword)) {
+        // MySQL's INSERT(...) string function, SQL Server's UPDATE(column) in triggers
+        if (tokens[j]?.value === '(') continue;
+
+        // UPDATE TOP (10) t, INSERT OR REPLACE INTO t, DELETE QUICK FROM t and the like
+        for (;;) {
+          if (isWord(tokens[j]) && DML_OPTION_WORDS.has(tokens[j].value)) {
+            j++;
+          } else if (isWord(tokens[j], 'TOP')) {
+            j = tokens[j + 1]?.value === '(' ? skipParentheses(tokens, j + 1) : j + 2;
+            if (isWord(tokens[j], 'PERCENT')) j++;
+          } else if (dialect === 'sqlite' && isWord(tokens[j], 'OR')) {
+            j += 2;
+          } else {
+            break;
+          }
+        }
+
+        // INTO and FROM read the target themselves
+        if (isWord(tokens[j], 'INTO', 'FROM')) continue;
+      }
+
+      // Table lists, which may hold joins, subqueries and the like
+      if (keyword === 'FROM' || keyword === 'USING' || keyword === 'UPDATE') {
+        // JOIN ... USING (columns) is read with its table list
+        if (keyword === 'USING' && tokens[j]?.value === '(') continue;
+
+        j = readTableList(j);
+        const end = tokens[j];
+        if (
+          end &&
+          end.value !== ')' &&
+          end.value !== ';' &&
+          !(isWord(end) && TABLE_LIST_END_WORDS.has(end.value))
+        ) {
+          incomplete(j);
+        }
+        continue;
+      }
+
+      while (isWord(tokens[j], ...TABLE_PREFIX_WORDS)) j++;
+
+      // DESCRIBE SELECT ... describes a query, not a table
+      if (isWord(tokens[j]) && STATEMENT_KEYWORDS.has(tokens[j].value) && !isWord(tokens[j], 'TABLE')) {
+        continue;
+      }
+
+      // Read the table, then any further tables in a comma-separated list
+      for (;;) {
+        j = tokens[j]?.value === '(' ? skipParentheses(tokens, j) : readName(j, keyword);
+
+        if (!TABLE_LIST_KEYWORDS.has(keyword)) break;
+
+        // Skip an alias
+        if (isWord(tokens[j], 'AS')) {
+          j += 2;
+        } else if (
+          tokens[j]?.kind === 'identifier' ||
+          (isWord(tokens[j]) && !CLAUSE_WORDS.has(tokens[j].value))
+        ) {
+          j++;
+        }
+
+        if (tokens[j]?.value !== ',') break;
+        j++;
+      }
+    }
+  }
+
+  return { references: Array.from(references.values()), functions, complete };
+}
+
+/**
+ * Lists the tables a SQL batch references: FROM and JOIN sources, INSERT,
+ * UPDATE, DELETE and MERGE targets, DDL subjects and foreign key targets.
+ * Subqueries are scanned too; CTE names and table functions are skipped.
+ * Multi-part names keep their last two parts as schema and table.
+ *
+ * Returns null when a FROM, USING or UPDATE table list holds syntax this
+ * parser doesn't know, so callers checking tables can fail closed.
+ */
+export function referencedTables(sql: string, dialect: SqlDialect): TableReference[] | null {
+  const { references, complete } = scanTables(sql, dialect);
+  return complete ? references : null;
+}
+
+/**
+ * Lists the functions in a SQL batch that may read tables referencedTables
+ * can't see: table functions in FROM clauses, and functions that run SQL or
+ * read tables given as text, such as query_to_xml, dblink and OPENROWSET.
+ * Names are as written, without their schema.
+ */
+export function functionsReadingTables(sql: string, dialect: SqlDialect): string[] {
+  const names = new Set(scanTables(sql, dialect).functions);
+
+  for (const { tokens } of tokenize(sql, dialect)) {
+    tokens.forEach((token, index) => {
+      if (!isName(token) || tokens[index + 1]?.value !== '(') return;
+      const name = nameText(sql, token);
+      const upper = name.toUpperCase();
+      if (DYNAMIC_SQL_FUNCTIONS.has(upper) || upper.startsWith('DBLINK')) {
+        names.add(name);
+      }
+    });
+  }
+  return Array.from(names);
+}
+
+/**
+ * Lower-cased names of every identifier and keyword in a SQL batch, without
+ * quotes; string literals and comments are skipped
+ */
+export function referencedNames(sql: string, dialect: SqlDialect): Set<string> {
+  const names = new Set<string>();
+  for (const { tokens } of tokenize(sql, dialect)) {
+    for (const token of tokens) {
+      if (isName(token)) {
+        names.add(nameText(sql, token).toLowerCase());
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Checks that every statement in a SQL batch is provably read-only
+ */
+export function isReadOnlySql(sql: string, dialect: SqlDialect): boolean {
+  const statements = classifySql(sql, dialect);
+  return statements.length > 0 && statements.every((statement) => statement.type === 'read');
+}
@@ -0,0 +1,209 @@
+/**
+ * Type-aware normalization of driver values for query result output
+ */
+
+import type { ColumnType, LogicalType, QueryResult } from './formatters.js';
+import { BINARY_PREVIEW_BYTES } from '../constants.js';
+
+// Logical types by lowercased type name without length, precision or sign,
+// across all supported databases
+const LOGICAL_TYPES: Record<string, LogicalType> = {
+  bool: 'boolean',
+  boolean: 'boolean',
+  bit: 'boolean',
+  tinyint: 'integer',
+  smallint: 'integer',
+  mediumint: 'integer',
+  int: 'integer',
+  integer: 'integer',
+  int2: 'integer',
+  int4: 'integer',
+  year: 'integer',
+  oid: 'integer',
+  bigint: 'bigint',
+  int8: 'bigint',
+  decimal: 'decimal',
+  numeric: 'decimal',
+  money: 'decimal',
+  smallmoney: 'decimal',
+  float: 'float',
+  float4: 'float',
+  float8: 'float',
+  real: 'float',
+  double: 'float',
+  'double precision': 'float',
+  char: 'string',
+  bpchar: 'string',
+  nchar: 'string',
+  varchar: 'string',
+  nvarchar: 'string',
+  'character varying': 'string',
+  character: 'string',
+  text: 'string',
+  tinytext: 'string',
+  mediumtext: 'string',
+  longtext: 'string',
+  ntext: 'string',
+  citext: 'string',
+  name: 'string',
+  string: 'string',
+  enum: 'string',
+  set: 'string',
+  xml: 'string',
+  uuid: 'uuid',
+  uniqueidentifier: 'uuid',
+  date: 'date',
+  time: 'time',
+  timetz: 'time',
+  'time with time zone': 'time',
+  timestamp: 'timestamp',
+  timestamptz: 'timestamp',
+  'timestamp with time zone': 'timestamp',
+  'timestamp with local time zone': 'timestamp',
+  datetime: 'timestamp',
+  datetime2: 'timestamp',
+  smalldatetime: 'timestamp',
+  datetimeoffset: 'timestamp',
+  interval: 'interval',
+  interval_day_time: 'interval',
+  interval_year_month: 'interval',
+  bytea: 'binary',
+  binary: 'binary',
+  varbinary: 'binary',
+  image: 'binary',
+  blob: 'binary',
+  tinyblob: 'binary',
+  mediumblob: 'binary',
+  longblob: 'binary',
+  json: 'json',
+  jsonb: 'json',
+  array: 'array',
+  map: 'map',
+  struct: 'struct',
+  uniontype: 'struct',
+};
+
+/**
+ * Logical type of a database type name, such as VARCHAR(20), int4[],
+ * array<string> or decimal(10,2) unsigned
+ */
+export function logicalType(typeName: string): LogicalType {
+  const name = typeName.trim().toLowerCase();
+
+  if (name.endsWith('[]') || /^_\w/.test(name)) return 'array';
+
+  const base = name
+    .replace(/[<(].*$/s, '')
+    .replace(/\s+(unsigned|signed|zerofill)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return LOGICAL_TYPES[base] ?? 'unknown';
+}
+
+/**
+ * Column type of a database type name, with its nullability where the
+ * driver reports it
+ */
+export function columnType(typeName: string, nullable?: boolean): ColumnType {
+  return {
+    name: typeName,
+    logical: logicalType(typeName),
+    ...(nullable !== undefined && { nullable }),
+  };
+}
+
+/**
+ * Hex of a binary value's leading bytes with its full length
+ */
+function binaryPreview(value: Uint8Array): string {
+  const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  const hex = bytes.subarray(0, BINARY_PREVIEW_BYTES).toString('hex');
+  const more = bytes.length > BINARY_PREVIEW_BYTES ? '…' : '';
+  return `0x${hex}${more} (${bytes.length} bytes)`;
+}
+
+/**
+ * Calendar date of a date-only value. Drivers put dates at midnight in UTC or
+ * in local time; either way the midnight's own date is the right one.
+ */
+function dateOnly(value: Date): string {
+  const utcMidnight =
+    value.getUTCHours() === 0 &&
+    value.getUTCMinutes() === 0 &&
+    value.getUTCSeconds() === 0 &&
+    value.getUTCMilliseconds() === 0;
+
+  const [year, month, day] = utcMidnight
+    ? [value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate()]
+    : [value.getFullYear(), value.getMonth() + 1, value.getDate()];
+
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a driver value to a JSON-safe form: dates as ISO-8601, bigints and
+ * decimals as lossless strings, binary as a hex preview with its length, and
+ * nested values with their members normalized. Hive and Impala send complex
+ * types as JSON text, which is parsed.
+ */
+export function normalizeValue(value: unknown, type: LogicalType = 'unknown'): unknown {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return binaryPreview(value);
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return type === 'date' ? dateOnly(value) : value.toISOString();
+  }
+
+  if (typeof value === 'number') {
+    // Drivers that return these as numbers have already rounded them; strings
+    // at least keep the column's values one kind
+    if (type === 'bigint' || type === 'decimal') return String(value);
+    return Number.isFinite(value) ? value : String(value);
+  }
+
+  if (typeof value === 'string') {
+    if (type === 'array' || type === 'map' || type === 'struct') {
+      try {
+        return normalizeValue(JSON.parse(value));
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item));
+  }
+
+  if (typeof value === 'object') {
+    // pg intervals and similar driver objects know their ISO form
+    const iso = (value as { toISOString?: unknown }).toISOString;
+    if (typeof iso === 'function') {
+      return String(iso.call(value));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, member]) => [key, normalizeValue(member)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Rows of a result with each value normalized by its column's type
+ */
+export function normalizeRows(result: QueryResult): Record<string, unknown>[] {
+  const types = new Map(
+    result.columns.map((column, index) => [column, result.columnTypes?.[index]?.logical])
+  );
+
+  return result.rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([column, value]) => [column, normalizeValue(value, types.get(column))])
+    )
+  );
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { IConnector } from '../../src/connectors/index.js';
+import { HealthSupervisor } from '../../src/connectors/health.js';
+import { READINESS_CACHE_TTL } from '../../src/constants.js';
+
+function connector(up: boolean) {
+  return {
+    dbType: 'postgres',
+    isConnected: true,
+    testConnection: vi.fn(async () => up),
+    isKerberosTicketValid: () => null,
+  };
+}
+
+describe('HealthSupervisor.readiness', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports each source and whether enough are up', async () => {
+    const supervisor = new HealthSupervisor(
+      new Map([
+        ['a', connector(true)],
+        ['b', connector(false)],
+      ]) as unknown as Map<string, IConnector>,
+      { interval: 0, maxDelay: 60_000 }
+    );
+
+    const all = await supervisor.readiness('all');
+    expect(all.ready).toBe(false);
+    expect(all.sources.map((source) => [source.id, source.up])).toEqual([
+      ['a', true],
+      ['b', false],
+    ]);
+    expect((await supervisor.readiness('any')).ready).toBe(true);
+  });
+
+  it('reuses probe results until they are stale', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const source = connector(true);
+    const supervisor = new HealthSupervisor(
+      new Map([['a', source]]) as unknown as Map<string, IConnector>,
+      { interval: 0, maxDelay: 60_000 }
+    );
+
+    await Promise.all([supervisor.readiness('all'), supervisor.readiness('any')]);
+    await supervisor.readiness('all');
+    expect(source.testConnection).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + READINESS_CACHE_TTL);
+    await supervisor.readiness('all');
+    expect(source.testConnection).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionPool } from '../../src/connectors/pool.js';
+
+function factory() {
+  let next = 0;
+  return {
+    create: vi.fn(async () => ++next),
+    destroy: vi.fn(async (_session: number) => {}),
+  };
+}
+
+describe('SessionPool min', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens min sessions on fill and keeps them past idleTimeout', async () => {
+    vi.useFakeTimers();
+    const sessions = factory();
+    const pool = new SessionPool('test', sessions, { min: 2, max: 5, idleTimeout: 1000 });
+
+    await pool.fill();
+    expect(sessions.create).toHaveBeenCalledTimes(2);
+    expect(pool.stats).toMatchObject({ size: 2, idle: 2 });
+
+    // A third session closes once idle too long; the first two stay open
+    const [a, b, c] = await Promise.all([pool.acquire(), pool.acquire(), pool.acquire()]);
+    [a, b, c].forEach((session) => pool.release(session));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sessions.destroy).toHaveBeenCalledTimes(1);
+    expect(pool.stats).toMatchObject({ size: 2, idle: 2 });
+
+    await pool.close();
+  });
+
+  it('reopens sessions to keep min after one is discarded', async () => {
+    const sessions = factory();
+    const pool = new SessionPool('test', sessions, { min: 1, max: 5, idleTimeout: 60_000 });
+
+    await pool.fill();
+    pool.release(await pool.acquire(), true);
+    await vi.waitFor(() => expect(pool.stats).toMatchObject({ size: 1, idle: 1 }));
+    expect(sessions.create).toHaveBeenCalledTimes(2);
+
+    await pool.close();
+  });
+});
@@ -0,0 +1,104 @@
+import * as net from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ParsedConfig } from '../src/config/types.js';
+import { createServer } from '../src/server.js';
+
+const TOKENS = { alice: 'alice-token-0123456789', bob: 'bob-token-0123456789' };
+
+// A port nothing listens on
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+describe('HTTP sessions', () => {
+  let url: string;
+  let stop: () => Promise<void>;
+
+  beforeAll(async () => {
+    const config: ParsedConfig = {
+      settings: { readonly: true, max_rows: 100, health_check_interval: 0 },
+      sources: new Map([['db', { id: 'db', type: 'sqlite', path: ':memory:' }]]),
+      auth: {
+        tokens: Object.entries(TOKENS).map(([principal, token]) => ({ principal, token })),
+      },
+    };
+
+    const port = await freePort();
+    const server = await createServer({ config, transport: 'http', port });
+    await server.start();
+    stop = server.stop;
+    url = `http://127.0.0.1:${port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  const request = (
+    method: string,
+    principal: keyof typeof TOKENS | null,
+    sessionId?: string,
+    body?: unknown
+  ) =>
+    fetch(url, {
+      method,
+      headers: {
+        accept: 'application/json, text/event-stream',
+        'content-type': 'application/json',
+        ...(principal && { authorization: `Bearer ${TOKENS[principal]}` }),
+        ...(sessionId && { 'mcp-session-id': sessionId }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const initialize = async (principal: keyof typeof TOKENS): Promise<string> => {
+    const response = await request('POST', principal, undefined, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    });
+    await response.text();
+    expect(response.status).toBe(200);
+    return response.headers.get('mcp-session-id')!;
+  };
+
+  const ping = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+  it('rejects requests without a bearer token', async () => {
+    const response = await request('POST', null, undefined, ping);
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toMatch(/^Bearer/);
+  });
+
+  it('lets the principal that opened a session use it', async () => {
+    const sessionId = await initialize('alice');
+    const response = await request('POST', 'alice', sessionId, ping);
+    await response.text();
+    expect(response.status).toBe(200);
+  });
+
+  it('refuses a session to other principals', async () => {
+    const sessionId = await initialize('alice');
+
+    for (const method of ['POST', 'GET', 'DELETE']) {
+      const body = method === 'POST' ? ping : undefined;
+      const response = await request(method, 'bob', sessionId, body);
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Session belongs to another principal' });
+    }
+
+    // The session is still open for its owner
+    const response = await request('DELETE', 'alice', sessionId);
+    await response.text();
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+import type { PolicyConfig } from '../../src/config/types.js';
+import type { ConnectorManager, IConnector } from '../../src/connectors/index.js';
+import { AccessControl } from '../../src/services/access-control.js';
+import { AuthorizationError } from '../../src/utils/error-handler.js';
+import type { SchemaObject } from '../../src/utils/formatters.js';
+
+// Only what access control reads: the source, its dialect and table lookups
+function connector(
+  sourceId: string,
+  dbType: string,
+  tables: Record<string, string[]> = {}
+): IConnector {
+  return {
+    sourceId,
+    dbType,
+    findTables: async (name: string) => tables[name.toLowerCase()] ?? [],
+  } as unknown as IConnector;
+}
+
+function manager(...connectors: IConnector[]): ConnectorManager {
+  const byId = new Map(connectors.map((c) => [c.sourceId, c]));
+  return {
+    listSourceIds: () => [...byId.keys()],
+    get: (id: string) => byId.get(id),
+    resolve: (id?: string) => byId.get(id ?? 'default')!,
+  } as unknown as ConnectorManager;
+}
+
+function authorize(...policies: Array<Partial<PolicyConfig>>) {
+  return new AccessControl(
+    policies.map((policy) => ({
+      principals: ['alice'],
+      sources: ['*'],
+      readonly: false,
+      ...policy,
+    }))
+  ).forPrincipal('alice');
+}
+
+describe('AccessControl', () => {
+  it('grants everything without policies', async () => {
+    const authorization = new AccessControl().forPrincipal('alice');
+    await expect(
+      authorization.checkSql(connector('db', 'postgres'), 'DROP TABLE hr.salaries')
+    ).resolves.toBeUndefined();
+  });
+
+  it('gives principals without a matching policy no source', () => {
+    const authorization = new AccessControl([
+      { principals: ['bob'], sources: ['*'], readonly: false },
+    ]).forPrincipal('alice');
+    expect(authorization.canUseSource('db')).toBe(false);
+  });
+});
+
+describe('Authorization.resolve', () => {
+  const sources = manager(connector('sales', 'postgres'), connector('hr', 'postgres'));
+
+  it('returns an allowed source', () => {
+    expect(authorize({ sources: ['sales'] }).resolve(sources, 'sales').sourceId).toBe('sales');
+  });
+
+  it('refuses a source no policy covers', () => {
+    expect(() => authorize({ sources: ['sales'] }).resolve(sources, 'hr')).toThrow(
+      AuthorizationError
+    );
+  });
+
+  it('picks the only allowed source when none is given', () => {
+    expect(authorize({ sources: ['hr'] }).resolve(sources).sourceId).toBe('hr');
+  });
+
+  it('asks for a source when several are allowed', () => {
+    expect(() => authorize({}).resolve(sources)).toThrow(/specify source_id/);
+  });
+
+  it('reports unknown sources', () => {
+    expect(() => authorize({}).resolve(sources, 'nope')).toThrow(/Unknown source/);
+  });
+});
+
+describe('Authorization.checkSchema and checkTable', () => {
+  const authorization = authorize({
+    allow_schemas: ['public', 'sales*'],
+    deny_schemas: ['sales_private'],
+    deny_tables: ['*.secrets', 'public.audit_*'],
+  });
+
+  const cases: Array<[string, string, boolean]> = [
+    ['public', 'users', true],
+    ['sales_eu', 'orders', true],
+    ['sales_private', 'orders', false],
+    ['hr', 'salaries', false],
+    ['public', 'secrets', false],
+    ['sales_eu', 'secrets', false],
+    ['public', 'audit_log', false],
+  ];
+
+  it.each(cases)('%s.%s: %s', (schema, name, allowed) => {
+    const check = () => authorization.checkTable('db', { schema, name });
+    if (allowed) {
+      expect(check).not.toThrow();
+    } else {
+      expect(check).toThrow(AuthorizationError);
+    }
+  });
+
+  it('checks schemas against allow and deny lists', () => {
+    expect(() => authorization.checkSchema('db', 'sales_eu')).not.toThrow();
+    expect(() => authorization.checkSchema('db', 'sales_private')).toThrow(AuthorizationError);
+    expect(() => authorization.checkSchema('db', 'hr')).toThrow(AuthorizationError);
+  });
+
+  it('limits tables to allow_tables', () => {
+    const limited = authorize({ allow_tables: ['public.users', 'orders'] });
+    expect(() => limited.checkTable('db', { schema: 'public', name: 'users' })).not.toThrow();
+    expect(() => limited.checkTable('db', { schema: 'sales', name: 'orders' })).not.toThrow();
+    expect(() => limited.checkTable('db', { schema: 'public', name: 'orders2' })).toThrow();
+  });
+
+  it('applies only the policies covering the source', () => {
+    const scoped = authorize(
+      { sources: ['a'], allow_schemas: ['public'] },
+      { sources: ['b'], allow_schemas: ['hr'] }
+    );
+    expect(() => scoped.checkSchema('a', 'hr')).toThrow(AuthorizationError);
+    expect(() => scoped.checkSchema('b', 'hr')).not.toThrow();
+  });
+});
+
+describe('Authorization.checkSql', () => {
+  const postgres = connector('db', 'postgres', {
+    users: ['public'],
+    salaries: ['hr'],
+    // A view in a denied schema
+    payroll: ['hr'],
+    accounts: ['public', 'hr'],
+  });
+  const sqlserver = connector('db', 'sqlserver', { users: ['dbo'] });
+
+  const restricted = authorize({ deny_schemas: ['hr'] });
+
+  const allowed: Array<[IConnector, string]> = [
+    [postgres, 'SELECT * FROM public.users'],
+    [postgres, 'SELECT * FROM users'],
+    [postgres, 'SELECT u.id FROM users u JOIN public.orders o ON o.user_id = u.id'],
+    [postgres, 'SELECT count(*), lower(name) FROM users'],
+    [sqlserver, 'SELECT * FROM users'],
+  ];
+
+  it.each(allowed)('allows %#: %s', async (connector, sql) => {
+    await expect(restricted.checkSql(connector, sql)).resolves.toBeUndefined();
+  });
+
+  const denied: Array<[IConnector, string]> = [
+    [postgres, 'SELECT * FROM hr.salaries'],
+    [postgres, 'SELECT * FROM salaries'],
+    [postgres, 'SELECT * FROM payroll'],
+    [postgres, 'SELECT * FROM accounts'],
+    [postgres, 'SELECT * FROM users WHERE id IN (SELECT id FROM hr.salaries)'],
+    // Not found in any schema, so it may be in a denied one
+    [postgres, 'SELECT * FROM unknown_table'],
+    [postgres, "SELECT query_to_xml('select * from hr.salaries', true, false, '')"],
+    [postgres, "SELECT query_to_xml_and_xmlschema('select * from hr.salaries', true, false, '')"],
+    [postgres, "SELECT * FROM dblink('dbname=db', 'select * from hr.salaries') AS t(a int)"],
+    [postgres, "SELECT dblink_exec('dbname=db', 'delete from hr.salaries')"],
+    [postgres, 'SELECT * FROM generate_series(1, 3)'],
+    [postgres, 'CALL hr.raise_salaries()'],
+    [
+      sqlserver,
+      "SELECT * FROM OPENROWSET('SQLNCLI', 'Server=.;', 'SELECT * FROM hr.dbo.salaries') AS a",
+    ],
+    [sqlserver, "SELECT * FROM OPENQUERY(self, 'SELECT * FROM hr.dbo.salaries')"],
+    [sqlserver, "SELECT * FROM OPENDATASOURCE('SQLNCLI', 'Data Source=.').hr.dbo.salaries"],
+    [sqlserver, "EXEC ('SELECT * FROM hr.salaries')"],
+    [sqlserver, "EXEC sp_executesql N'SELECT * FROM hr.salaries'"],
+    [sqlserver, "SELECT 1; EXECUTE sp_executesql N'SELECT * FROM hr.salaries'"],
+  ];
+
+  it.each(denied)('denies %#: %s', async (connector, sql) => {
+    await expect(restricted.checkSql(connector, sql)).rejects.toThrow(AuthorizationError);
+  });
+
+  it('passes functions and unresolved names when the grant covers the whole source', async () => {
+    const open = authorize({ readonly: true });
+    await expect(
+      open.checkSql(postgres, "SELECT query_to_xml('select 1', true, false, '')")
+    ).resolves.toBeUndefined();
+    await expect(open.checkSql(postgres, 'SELECT * FROM unknown_table')).resolves.toBeUndefined();
+  });
+
+  it('lets allow_tables with any schema match unresolved names', async () => {
+    const limited = authorize({ allow_tables: ['*.widgets'] });
+    await expect(limited.checkSql(postgres, 'SELECT * FROM widgets')).resolves.toBeUndefined();
+    await expect(limited.checkSql(postgres, 'SELECT * FROM users')).rejects.toThrow(
+      AuthorizationError
+    );
+  });
+
+  it('refuses writes under read-only grants', async () => {
+    const readonly = authorize({ readonly: true });
+    await expect(readonly.checkSql(postgres, 'SELECT * FROM users')).resolves.toBeUndefined();
+    await expect(readonly.checkSql(postgres, 'DELETE FROM users')).rejects.toThrow(
+      /read-only access/
+    );
+  });
+
+  it('allows writes when any grant on the source is writable', async () => {
+    const mixed = authorize({ readonly: true }, { sources: ['db'], readonly: false });
+    await expect(mixed.checkSql(postgres, 'DELETE FROM users')).resolves.toBeUndefined();
+  });
+});
+
+describe('Authorization.filterObjects', () => {
+  const authorization = authorize({ deny_schemas: ['hr'], deny_tables: ['public.secrets'] });
+
+  it('drops schemas, tables, columns and indexes the principal may not see', () => {
+    const objects: SchemaObject[] = [
+      { type: 'schema', name: 'public' },
+      { type: 'schema', name: 'hr' },
+      { type: 'table', schema: 'public', name: 'users' },
+      { type: 'table', schema: 'public', name: 'secrets' },
+      { type: 'table', schema: 'hr', name: 'salaries' },
+      { type: 'column', schema: 'public', table: 'users', name: 'id' },
+      { type: 'column', schema: 'public', table: 'secrets', name: 'value' },
+      { type: 'index', schema: 'hr', table: 'salaries', name: 'salaries_pkey' },
+      { type: 'procedure', schema: 'public', name: 'refresh' },
+      { type: 'procedure', schema: 'hr', name: 'raise' },
+    ];
+
+    expect(
+      authorization
+        .filterObjects('db', objects)
+        .map((object) => `${object.type}:${object.schema ?? ''}.${object.name}`)
+    ).toEqual([
+      'schema:.public',
+      'table:public.users',
+      'column:public.id',
+      'procedure:public.refresh',
+    ]);
+  });
+
+  it('drops relationships touching a hidden table', () => {
+    expect(
+      authorization.filterRelationships('db', [
+        {
+          schema: 'public',
+          table: 'orders',
+          referencedSchema: 'public',
+          referencedTable: 'users',
+        },
+        {
+          schema: 'public',
+          table: 'orders',
+          referencedSchema: 'hr',
+          referencedTable: 'staff',
+        },
+      ] as never)
+    ).toHaveLength(1);
+  });
+});
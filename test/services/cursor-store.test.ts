@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { QueryCursor } from '../../src/connectors/index.js';
+import { CursorStore } from '../../src/services/cursor-store.js';
+
+// Pages through rows numbered 1 to count
+function cursor(count: number, pageSize: number): QueryCursor & { closed: boolean } {
+  let position = 0;
+  return {
+    sourceId: 'db',
+    closed: false,
+    async nextPage() {
+      const rows = [];
+      while (rows.length < pageSize && position < count) {
+        rows.push({ n: ++position });
+      }
+      return { columns: ['n'], rows, rowCount: rows.length, truncated: position < count };
+    },
+    unread(rows: number) {
+      position -= rows;
+    },
+    async close() {
+      this.closed = true;
+    },
+  };
+}
+
+describe('CursorStore', () => {
+  let store: CursorStore;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await store.closeAll();
+  });
+
+  it('evicts the least recently used cursor of a session at its cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const cursors = [cursor(10, 2), cursor(10, 2), cursor(10, 2)];
+    const other = cursor(10, 2);
+    const later = () => vi.setSystemTime(Date.now() + 1000);
+
+    const first = await store.register(cursors[0], 'a');
+    later();
+    await store.register(cursors[1], 'a');
+    later();
+    await store.register(other, 'b');
+    later();
+    // Reading makes the first cursor the most recently used
+    await store.nextPage(first, 'a');
+    later();
+    await store.register(cursors[2], 'a');
+
+    expect(cursors.map((c) => c.closed)).toEqual([false, true, false]);
+    expect(other.closed).toBe(false);
+    expect(store.size).toBe(3);
+  });
+
+  it('pages through every row and closes the cursor after the last page', async () => {
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const opened = cursor(5, 2);
+    const token = await store.register(opened);
+
+    const pages = [];
+    let page;
+    do {
+      page = await store.nextPage(token);
+      pages.push(page.rows.map((row) => row.n));
+    } while (page.nextCursor);
+
+    expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+    expect(opened.closed).toBe(true);
+  });
+
+  it('starts the next page with the rows that did not fit', async () => {
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const token = await store.register(cursor(5, 3));
+
+    const first = await store.nextPage(token, undefined, () => 1);
+    expect(first).toMatchObject({ rows: [{ n: 1 }], rowCount: 1, truncated: true });
+    expect((await store.nextPage(token)).rows).toEqual([{ n: 2 }, { n: 3 }, { n: 4 }]);
+  });
+
+  it('skips only a first row too long to fit', async () => {
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const opened = cursor(5, 3);
+    const token = await store.register(opened);
+
+    const skipped = await store.nextPage(token, undefined, () => 0);
+    expect(skipped).toMatchObject({ rows: [{ n: 1 }], truncated: true, nextCursor: token });
+    expect((await store.nextPage(token)).rows).toEqual([{ n: 2 }, { n: 3 }, { n: 4 }]);
+    expect((await store.nextPage(token)).rows).toEqual([{ n: 5 }]);
+    expect(opened.closed).toBe(true);
+  });
+
+  it('only hands a cursor to the session that opened it', async () => {
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const token = await store.register(cursor(10, 2), 'a');
+
+    await expect(store.nextPage(token, 'b')).rejects.toThrow(/not found/);
+    await expect(store.nextPage(token, 'a')).resolves.toMatchObject({ nextCursor: token });
+  });
+
+  it('closes the cursors of an ended session', async () => {
+    store = new CursorStore({ idleTtl: 60_000, maxPerSession: 2 });
+    const opened = cursor(10, 2);
+    await store.register(opened, 'a');
+
+    await store.closeSession('a');
+    expect(opened.closed).toBe(true);
+    expect(store.size).toBe(0);
+  });
+});
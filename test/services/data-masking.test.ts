@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { SourceConfig } from '../../src/config/types.js';
+import type { IConnector } from '../../src/connectors/index.js';
+import { DataMasking } from '../../src/services/data-masking.js';
+import type { ColumnOrigin, QueryResult, SchemaObject } from '../../src/utils/formatters.js';
+
+// users(id, name, email) and orders(id, user_id, total); email is masked
+const TABLES: Record<string, { schema: string; columns: string[] }> = {
+  users: { schema: 'public', columns: ['id', 'name', 'email'] },
+  orders: { schema: 'public', columns: ['id', 'user_id', 'total'] },
+};
+
+function connector(dbType: string): IConnector {
+  return {
+    sourceId: 'db',
+    dbType,
+    searchObjects: async ({ table }: { table?: string }): Promise<SchemaObject[]> => {
+      const found = table ? TABLES[table] : undefined;
+      return (found?.columns ?? []).map((name) => ({
+        type: 'column',
+        schema: found!.schema,
+        table,
+        name,
+      }));
+    },
+  } as unknown as IConnector;
+}
+
+const masking = new DataMasking([
+  {
+    id: 'db',
+    type: 'postgres',
+    masking: [{ column: 'users.email', strategy: 'redact' }],
+  } as SourceConfig,
+]);
+
+function result(
+  row: Record<string, unknown>,
+  origins?: Array<ColumnOrigin | null>
+): QueryResult {
+  return { columns: Object.keys(row), rows: [row], rowCount: 1, truncated: false, origins };
+}
+
+const email: ColumnOrigin = { schema: 'public', table: 'users', column: 'email' };
+const name: ColumnOrigin = { schema: 'public', table: 'users', column: 'name' };
+
+describe('DataMasking.apply', () => {
+  // [dialect, sql, result row, driver origins, columns expected masked]
+  const cases: Array<
+    [string, string, Record<string, unknown>, Array<ColumnOrigin | null> | undefined, string[]]
+  > = [
+    [
+      'postgres',
+      'SELECT name, email FROM users',
+      { name: 'a', email: 'a@x' },
+      [name, email],
+      ['email'],
+    ],
+    ['postgres', 'SELECT email AS contact FROM users', { contact: 'a@x' }, [email], ['contact']],
+    ['postgres', 'SELECT name FROM users', { name: 'a' }, [name], []],
+    ['postgres', 'SELECT lower(email) AS e FROM users', { e: 'a@x' }, [null], ['e']],
+    ['postgres', 'SELECT total FROM orders', { total: 3 }, [null], []],
+    // Whole rows serialized into one value
+    ['postgres', 'SELECT u::text FROM users u', { u: '(1,a,a@x)' }, [null], ['u']],
+    ['postgres', 'SELECT row_to_json(u) AS j FROM users u', { j: '{"e":"a@x"}' }, [null], ['j']],
+    ['postgres', 'SELECT count(*) FROM orders', { count: 1 }, [null], []],
+    // Without driver origins, table columns are taken by name
+    [
+      'sqlserver',
+      'SELECT name, email FROM dbo.users',
+      { name: 'a', email: 'a@x' },
+      undefined,
+      ['email'],
+    ],
+    ['sqlserver', 'SELECT id, name FROM users', { id: 1, name: 'a' }, undefined, []],
+    ['sqlserver', 'SELECT email AS name FROM users', { name: 'a@x' }, undefined, ['name']],
+    [
+      'sqlserver',
+      'SELECT * FROM dbo.users FOR JSON AUTO',
+      { 'JSON_F52E2B61-18A1-11d1-B105-00805F49916B': '[{"email":"a@x"}]' },
+      undefined,
+      ['JSON_F52E2B61-18A1-11d1-B105-00805F49916B'],
+    ],
+    ['sqlserver', 'SELECT 1 AS one', { one: 1 }, undefined, []],
+  ];
+
+  it.each(cases)('%s: %s', async (dialect, sql, row, origins, expected) => {
+    const masked = await masking.apply(connector(dialect), sql, result(row, origins));
+    expect(masked.maskedColumns?.map((column) => column.name) ?? []).toEqual(expected);
+    for (const column of expected) {
+      expect(masked.rows[0][column]).toBe('[REDACTED]');
+    }
+  });
+
+  const refused: Array<[string, string]> = [
+    ['postgres', "SELECT query_to_xml('select * from users', true, false, '') AS x"],
+    ['postgres', "SELECT * FROM dblink('db', 'select email from users') AS t(e text)"],
+  ];
+
+  it.each(refused)('refuses %s: %s', async (dialect, sql) => {
+    await expect(
+      masking.apply(connector(dialect), sql, result({ x: 'a@x' }, [null]))
+    ).rejects.toThrow(/Cannot tell which tables/);
+  });
+
+  it('leaves sources without rules alone', async () => {
+    const other = { ...connector('postgres'), sourceId: 'other' } as IConnector;
+    const row = { e: 'a@x' };
+    expect((await masking.apply(other, 'SELECT email AS e FROM users', result(row))).rows[0]).toBe(
+      row
+    );
+  });
+});
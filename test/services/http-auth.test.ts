@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { exportJWK, generateKeyPair, SignJWT, type JWTPayload } from 'jose';
+import type { JwtAuthConfig } from '../../src/config/types.js';
+import { HttpAuth } from '../../src/services/http-auth.js';
+import { AuthenticationError, ConfigurationError } from '../../src/utils/error-handler.js';
+
+const ISSUER = 'https://idp.example.com';
+const AUDIENCE = 'opendb-mcp';
+
+let directory: string;
+let jwt: JwtAuthConfig;
+let sign: (claims: JWTPayload) => Promise<string>;
+
+beforeAll(async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'opendb-auth-'));
+
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256' };
+  const jwksPath = path.join(directory, 'jwks.json');
+  fs.writeFileSync(jwksPath, JSON.stringify({ keys: [jwk] }));
+
+  jwt = { jwks_path: jwksPath, issuer: ISSUER, audience: AUDIENCE, principal_claim: 'sub' };
+  sign = (claims) =>
+    new SignJWT(claims).setProtectedHeader({ alg: 'RS256', kid: 'test' }).sign(privateKey);
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+// Claims of a token that passes every check
+function claims(overrides: JWTPayload = {}): JWTPayload {
+  const now = Math.floor(Date.now() / 1000);
+  return { sub: 'alice', iss: ISSUER, aud: AUDIENCE, iat: now, exp: now + 600, ...overrides };
+}
+
+describe('HttpAuth static tokens', () => {
+  const auth = new HttpAuth({
+    tokens: [
+      { principal: 'alice', token: 'alice-token-0123456789' },
+      { principal: 'bob', token: 'bob-token-0123456789' },
+    ],
+  });
+
+  it('resolves each token to its principal', async () => {
+    expect((await auth.verify('alice-token-0123456789')).clientId).toBe('alice');
+    expect((await auth.verify('bob-token-0123456789')).clientId).toBe('bob');
+  });
+
+  it('rejects unknown tokens', async () => {
+    await expect(auth.verify('mallory-token-0123456')).rejects.toThrow(AuthenticationError);
+  });
+
+  it('refuses a token assigned to two principals', () => {
+    expect(
+      () =>
+        new HttpAuth({
+          tokens: [
+            { principal: 'alice', token: 'shared-token-0123456789' },
+            { principal: 'bob', token: 'shared-token-0123456789' },
+          ],
+        })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe('HttpAuth JWTs', () => {
+  it('resolves the principal and scopes of a valid token', async () => {
+    const auth = new HttpAuth({ jwt });
+    const info = await auth.verify(await sign(claims({ scope: 'read write' })));
+
+    expect(info.clientId).toBe('alice');
+    expect(info.scopes).toEqual(['read', 'write']);
+    expect(info.expiresAt).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  const rejected: Array<[string, JWTPayload]> = [
+    ['another issuer', claims({ iss: 'https://evil.example.com' })],
+    ['another audience', claims({ aud: 'other-service' })],
+    ['an expired token', claims({ exp: Math.floor(Date.now() / 1000) - 600 })],
+    ['a token not valid yet', claims({ nbf: Math.floor(Date.now() / 1000) + 600 })],
+    ['a token without exp', claims({ exp: undefined })],
+    ['a token without a principal', claims({ sub: undefined })],
+  ];
+
+  it.each(rejected)('rejects %s', async (_name, payload) => {
+    const auth = new HttpAuth({ jwt });
+    await expect(auth.verify(await sign(payload))).rejects.toThrow(AuthenticationError);
+  });
+
+  it('rejects tokens signed by another key', async () => {
+    const { privateKey } = await generateKeyPair('RS256');
+    const forged = await new SignJWT(claims())
+      .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+      .sign(privateKey);
+
+    await expect(new HttpAuth({ jwt }).verify(forged)).rejects.toThrow(AuthenticationError);
+  });
+
+  it('fails on a missing JWKS file', () => {
+    expect(() => new HttpAuth({ jwt: { ...jwt, jwks_path: '/nonexistent/jwks.json' } })).toThrow(
+      ConfigurationError
+    );
+  });
+});
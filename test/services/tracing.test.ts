@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ParsedConfig } from '../../src/config/types.js';
+import { createServer } from '../../src/server.js';
+import { SPAN_ATTRIBUTES, type Tracing } from '../../src/services/tracing.js';
+
+describe('Tracing', () => {
+  let client: Client;
+  let tracing: Tracing;
+  let stop: () => Promise<void>;
+
+  beforeAll(async () => {
+    const config: ParsedConfig = {
+      settings: { readonly: true, max_rows: 100, health_check_interval: 0 },
+      sources: new Map([['db', { id: 'db', type: 'sqlite', path: ':memory:' }]]),
+      tracing: { enabled: true, exporter: 'memory' },
+    };
+
+    const server = await createServer({ config, transport: 'stdio' });
+    await server.connectorManager.connectAll();
+    tracing = server.tracing!;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.server.connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    stop = async () => {
+      await client.close();
+      await server.server.close();
+      await server.stop();
+    };
+  });
+
+  afterAll(async () => {
+    await stop();
+  });
+
+  it('records a tool call span with the query span inside it', async () => {
+    const result = await client.callTool({
+      name: 'execute_sql',
+      arguments: { source_id: 'db', sql: 'SELECT 1 AS one' },
+    });
+    expect(result.isError).toBeFalsy();
+
+    const spans = tracing.finishedSpans();
+    const tool = spans.find((span) => span.name === 'tool execute_sql');
+    const query = spans.find((span) => span.name === 'db.query');
+
+    expect(tool?.attributes).toMatchObject({ [SPAN_ATTRIBUTES.tool]: 'execute_sql' });
+    expect(query?.attributes).toMatchObject({
+      [SPAN_ATTRIBUTES.sourceId]: 'db',
+      [SPAN_ATTRIBUTES.dbType]: 'sqlite',
+      [SPAN_ATTRIBUTES.statementType]: 'read',
+      [SPAN_ATTRIBUTES.operation]: 'SELECT',
+    });
+    expect(query?.spanContext().traceId).toBe(tool?.spanContext().traceId);
+    expect(query?.parentSpanContext?.spanId).toBe(tool?.spanContext().spanId);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { CHARACTER_LIMIT } from '../../src/constants.js';
+import {
+  formatQueryResults,
+  formatScriptResults,
+  type QueryResult,
+  type QueryResultFormat,
+  type ScriptResult,
+} from '../../src/utils/formatters.js';
+
+// Rows of about 1 KB each, numbered from 1
+function result(count: number): QueryResult {
+  const rows = Array.from({ length: count }, (_, index) => ({
+    n: index + 1,
+    text: 'x'.repeat(1000),
+  }));
+  return { columns: ['n', 'text'], rows, rowCount: count, truncated: false };
+}
+
+function script(...counts: number[]): ScriptResult {
+  return {
+    transaction: 'none',
+    rolledBack: false,
+    statements: counts.map((count, index) => ({
+      index: index + 1,
+      sql: 'SELECT n, text FROM t',
+      type: 'read',
+      status: 'ok',
+      result: result(count),
+    })),
+  };
+}
+
+// The rows each format put in its output, by their n
+const sentRows: Record<QueryResultFormat, (text: string) => number[]> = {
+  markdown: (text) => [...text.matchAll(/^\| (\d+) \| x{1000} \|$/gm)].map((match) => +match[1]),
+  json: (text) =>
+    JSON.parse(text)
+      .rows.filter((row: { text: string }) => row.text.length === 1000)
+      .map((row: { n: number }) => row.n),
+  json_compact: (text) =>
+    JSON.parse(text)
+      .rows.filter((row: [number, string]) => row[1].length === 1000)
+      .map((row: [number, string]) => row[0]),
+  csv: (text) => [...text.matchAll(/^(\d+),x{1000}$/gm)].map((match) => +match[1]),
+  tsv: (text) => [...text.matchAll(/^(\d+)\tx{1000}$/gm)].map((match) => +match[1]),
+};
+
+describe('formatQueryResults', () => {
+  it.each(Object.keys(sentRows) as QueryResultFormat[])(
+    'counts the whole rows %s sends under the limit',
+    (format) => {
+      const { text, notes, rowsShown } = formatQueryResults(result(200), format);
+      expect(text.length).toBeLessThanOrEqual(CHARACTER_LIMIT);
+
+      const sent = sentRows[format](text);
+      expect(rowsShown).toBeGreaterThan(0);
+      expect(rowsShown).toBeLessThan(200);
+      expect(sent).toEqual(Array.from({ length: rowsShown }, (_, index) => index + 1));
+
+      if (format === 'json' || format === 'json_compact') {
+        expect(JSON.parse(text)._truncated).toBe(true);
+      } else {
+        expect(notes ?? text).toContain(`Showing ${rowsShown} of 200 rows`);
+      }
+    }
+  );
+
+  it.each(Object.keys(sentRows) as QueryResultFormat[])(
+    'sends every row %s has room for',
+    (format) => {
+      const { text, rowsShown } = formatQueryResults(result(5), format);
+      expect(rowsShown).toBe(5);
+      expect(sentRows[format](text)).toEqual([1, 2, 3, 4, 5]);
+    }
+  );
+});
+
+describe('formatScriptResults', () => {
+  it('returns whole output under the limit', () => {
+    const text = formatScriptResults(script(2, 3), 'json');
+    expect(JSON.parse(text)._truncated).toBeUndefined();
+  });
+
+  it('stops json at whole rows and reports the rows kept', () => {
+    const text = formatScriptResults(script(60, 60, 60), 'json');
+    expect(text.length).toBeLessThanOrEqual(CHARACTER_LIMIT);
+
+    const parsed = JSON.parse(text);
+    const kept = parsed.statements.map(
+      (statement: { result: { rows: { n: number }[] } }) => statement.result.rows.length
+    );
+    const shown = kept.reduce((sum: number, count: number) => sum + count, 0);
+
+    expect(shown).toBeGreaterThan(60);
+    expect(shown).toBeLessThan(180);
+    // Rows are kept in statement order
+    expect(kept[0]).toBe(60);
+    expect(parsed._truncated).toBe(true);
+    expect(parsed._message).toBe(`Output exceeded character limit; showing ${shown} of 180 rows`);
+  });
+
+  it('stops markdown at whole rows and reports the rows kept', () => {
+    const text = formatScriptResults(script(60, 60), 'markdown');
+    expect(text.length).toBeLessThanOrEqual(CHARACTER_LIMIT);
+
+    const shown = text.match(/^\| \d+ \|/gm)!.length;
+    expect(text).toContain(
+      `_Output truncated due to character limit: showing ${shown} of 120 rows_`
+    );
+    expect(text).toContain(`_Showing ${shown - 60} of 60 rows_`);
+  });
+
+  it('stops at whole statements when not even their headers fit', () => {
+    const statements = Array.from({ length: 2000 }, () => 1);
+    const parsed = JSON.parse(formatScriptResults(script(...statements), 'json'));
+
+    expect(parsed.statements.length).toBeLessThan(2000);
+    expect(parsed._message).toBe(
+      'Output exceeded character limit; ' +
+        `showing 0 of 2000 rows and ${parsed.statements.length} of 2000 statements`
+    );
+  });
+});
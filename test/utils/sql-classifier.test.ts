@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifySql,
+  functionsReadingTables,
+  isReadOnlySql,
+  referencedTables,
+  type SqlDialect,
+  type StatementType,
+} from '../../src/utils/sql-classifier.js';
+
+describe('classifySql', () => {
+  const cases: Array<[SqlDialect, string, StatementType[]]> = [
+    ['postgres', 'SELECT 1', ['read']],
+    ['postgres', 'SELECT 1; DROP TABLE t', ['read', 'ddl']],
+    ['postgres', "SELECT ';' AS s, $$;$$ AS d -- ;", ['read']],
+    ['postgres', 'WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d', ['write']],
+    ['postgres', 'SELECT * FROM t FOR SHARE', ['write']],
+    ['postgres', 'SELECT * INTO t2 FROM t', ['write']],
+    ['postgres', 'EXPLAIN SELECT 1', ['read']],
+    ['postgres', 'EXPLAIN ANALYZE DELETE FROM t', ['write']],
+    ['postgres', 'CALL p()', ['unknown']],
+    ['mysql', 'SELECT 1 /*! ; DROP TABLE t */', ['read', 'ddl']],
+    ['mysql', 'ANALYZE FORMAT=JSON DELETE FROM t', ['write']],
+    ['mysql', 'USE secret', ['unknown']],
+    ['mysql', 'USE secret; SELECT 1', ['unknown', 'read']],
+    ['sqlite', 'PRAGMA table_info(t)', ['read']],
+    ['sqlite', 'PRAGMA journal_mode = WAL', ['write']],
+    [
+      'sqlite',
+      'CREATE TRIGGER tr AFTER INSERT ON t BEGIN INSERT INTO log VALUES (1); END; SELECT 1',
+      ['unknown', 'read'],
+    ],
+    ['hive', 'SHOW TABLES', ['read']],
+    ['impala', 'COMPUTE STATS t', ['ddl']],
+    ['sqlserver', 'SELECT TOP 5 * FROM t WITH (NOLOCK) ORDER BY a', ['read']],
+    ['sqlserver', 'SELECT CASE WHEN a > 1 THEN 1 ELSE 0 END FROM t', ['read']],
+    ['sqlserver', 'WITH c AS (SELECT 1 AS a) SELECT * FROM c', ['read']],
+    ['sqlserver', 'SELECT * FROM t FOR JSON PATH', ['read']],
+    ['sqlserver', 'SELECT 1\nGO\nSELECT 2', ['read', 'read']],
+    ['sqlserver', 'UPDATE t SET a = 1 WHERE b IN (SELECT b FROM s)', ['write']],
+    ['sqlserver', 'WITH c AS (SELECT * FROM t) UPDATE c SET a = 1', ['write']],
+    [
+      'sqlserver',
+      'MERGE t USING s ON t.id = s.id WHEN MATCHED THEN UPDATE SET a = s.a WHEN NOT MATCHED THEN INSERT (a) VALUES (s.a)',
+      ['write'],
+    ],
+    ['sqlserver', 'DROP TABLE IF EXISTS t', ['ddl']],
+    ['sqlserver', 'ALTER TABLE t DROP COLUMN a', ['ddl']],
+    ['sqlserver', 'ALTER DATABASE d SET SINGLE_USER WITH ROLLBACK IMMEDIATE', ['ddl']],
+    ['sqlserver', 'CREATE PROCEDURE p AS SELECT 1 DROP TABLE t', ['ddl']],
+    // Batches without semicolons
+    ['sqlserver', 'SELECT 1 DROP TABLE t', ['unknown']],
+    ['sqlserver', "SELECT 1 EXEC xp_cmdshell 'dir'", ['unknown']],
+    ['sqlserver', "SELECT * FROM a WAITFOR DELAY '00:00:05'", ['unknown']],
+    ['sqlserver', 'SELECT * FROM a WHERE x IN (1) TRUNCATE TABLE b', ['unknown']],
+    ['sqlserver', '(SELECT 1) DROP TABLE t', ['unknown']],
+    ['sqlserver', 'SELECT 1 DECLARE @x INT', ['unknown']],
+    ['sqlserver', 'SELECT 1 SET NOCOUNT ON', ['unknown']],
+    ['sqlserver', 'SELECT 1 UPDATE secret SET a = 1', ['unknown']],
+    ['sqlserver', 'SELECT 1 USE secret', ['unknown']],
+    ['sqlserver', 'USE secret SELECT 1', ['unknown']],
+    ['sqlserver', 'INSERT INTO t EXEC p', ['unknown']],
+    ['sqlserver', 'UPDATE t SET a = 1 DELETE FROM s', ['unknown']],
+    ['sqlserver', 'DELETE FROM t SET IDENTITY_INSERT s ON', ['unknown']],
+    ['sqlserver', 'CREATE TABLE t (a INT) EXEC p', ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a ENABLE TRIGGER tr ON t', ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a DISABLE TRIGGER tr ON t', ['unknown']],
+    ['sqlserver', "SELECT 1 AS a SEND ON CONVERSATION @h MESSAGE TYPE m (N'x')", ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a RECEIVE TOP (1) * FROM q', ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a MOVE CONVERSATION @h TO @g', ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a GET CONVERSATION GROUP @g FROM q', ['unknown']],
+    ['sqlserver', 'SELECT 1 AS a END', ['unknown']],
+    ['sqlserver', 'SELECT CASE a WHEN 1 THEN 2 END AS b FROM t END', ['unknown']],
+    ['sqlserver', 'ALTER TABLE t DISABLE TRIGGER tr', ['ddl']],
+    ['sqlserver', 'ALTER INDEX i ON t DISABLE', ['ddl']],
+    ['sqlserver', 'SELECT NEXT VALUE FOR s', ['write']],
+    ['postgres', 'SELECT pg_terminate_backend(pid) FROM pg_stat_activity', ['write']],
+    ['postgres', "SELECT setval('s', 1)", ['write']],
+    ['postgres', "SELECT pg_catalog.nextval('s')", ['write']],
+    ['postgres', 'SELECT "pg_cancel_backend"(1)', ['write']],
+    ['postgres', 'SELECT pg_advisory_lock(1)', ['write']],
+    ['postgres', "SELECT set_config('search_path', 'x', false)", ['write']],
+    ['postgres', "WITH s AS (SELECT dblink_exec('db', 'DELETE FROM t')) SELECT * FROM s", ['write']],
+    ['postgres', "SELECT 'setval(1)', currval('s'), pg_backend_pid()", ['read']],
+    ['postgres', 'SELECT setval FROM t', ['read']],
+    ['mysql', "SELECT GET_LOCK('l', 10)", ['write']],
+    ['sqlite', "SELECT load_extension('x')", ['write']],
+  ];
+
+  it.each(cases)('%s: %s', (dialect, sql, types) => {
+    expect(classifySql(sql, dialect).map((statement) => statement.type)).toEqual(types);
+  });
+});
+
+describe('isReadOnlySql', () => {
+  const cases: Array<[SqlDialect, string, boolean]> = [
+    ['postgres', 'SELECT * FROM t', true],
+    ['postgres', '', false],
+    ['postgres', 'SELECT 1; UPDATE t SET a = 1', false],
+    ['mysql', 'USE secret; SELECT 1', false],
+    ['sqlserver', 'SELECT 1 SELECT 2', true],
+    ['sqlserver', 'SELECT 1 DROP TABLE t', false],
+    ['sqlserver', "SELECT 1 EXEC xp_cmdshell 'dir'", false],
+    ['sqlserver', "SELECT * FROM a WAITFOR DELAY '00:00:05'", false],
+  ];
+
+  it.each(cases)('%s: %s', (dialect, sql, readOnly) => {
+    expect(isReadOnlySql(sql, dialect)).toBe(readOnly);
+  });
+});
+
+describe('referencedTables', () => {
+  // Tables as schema.name or name; null when the statement can't be fully parsed
+  const cases: Array<[SqlDialect, string, string[] | null]> = [
+    ['postgres', 'SELECT * FROM a', ['a']],
+    ['postgres', 'SELECT * FROM s.a AS x, b y WHERE x.id = y.id', ['s.a', 'b']],
+    ['postgres', 'SELECT * FROM a JOIN b ON a.id = b.id LEFT JOIN c USING (id)', ['a', 'b', 'c']],
+    ['postgres', 'SELECT * FROM (SELECT * FROM a) x JOIN b ON true', ['b', 'a']],
+    ['postgres', "SELECT a.x, COUNT(*) FROM a GROUP BY a.x ORDER BY 2 LIMIT 5 OFFSET 2", ['a']],
+    ['postgres', "SELECT * FROM information_schema.tables WHERE table_schema = 'x'", ['information_schema.tables']],
+    ['postgres', 'INSERT INTO a (x) VALUES (1) RETURNING *', ['a']],
+    ['postgres', 'CREATE TABLE a AS SELECT * FROM b UNION ALL SELECT * FROM c', ['a', 'b', 'c']],
+    ['postgres', 'SELECT * FROM a WHERE x IN (SELECT y FROM b) AND z = ANY (SELECT z FROM c)', ['a', 'b', 'c']],
+    ['postgres', 'WITH c AS (SELECT * FROM a) SELECT * FROM c', ['a']],
+    ['postgres', 'SELECT EXTRACT(YEAR FROM d) FROM a', ['a']],
+    ['postgres', 'SELECT * FROM generate_series(1, 3) g, a', ['a']],
+    ['postgres', 'SELECT * FROM ONLY a * WHERE x IS DISTINCT FROM 1', ['a']],
+    ['postgres', 'SELECT * FROM a, LATERAL unnest(a.x) WITH ORDINALITY u(v, n)', ['a']],
+    ['postgres', 'SELECT * FROM a JOIN b ON CASE WHEN a.x THEN 1 END = b.y, c', ['a', 'b', 'c']],
+    ['postgres', 'UPDATE a SET x = 1 FROM b WHERE a.id = b.id', ['a', 'b']],
+    ['postgres', 'DELETE FROM a USING b, c WHERE a.id = b.id', ['a', 'b', 'c']],
+    ['postgres', 'INSERT INTO a SELECT * FROM b ON CONFLICT (id) DO UPDATE SET x = 1, y = 2', ['a', 'b']],
+    ['postgres', 'SELECT * FROM a FOR UPDATE', ['a']],
+    ['mysql', 'SELECT * FROM a FORCE INDEX FOR JOIN (i), b PARTITION (p0)', ['a', 'b']],
+    ['mysql', 'SELECT * FROM a LEFT JOIN (b, c) ON a.x = b.x', ['a', 'b', 'c']],
+    ['mysql', 'INSERT IGNORE a SELECT * FROM b ON DUPLICATE KEY UPDATE x = 1, y = 2', ['a', 'b']],
+    ['mysql', 'UPDATE LOW_PRIORITY a JOIN b ON a.id = b.id SET a.x = b.x', ['a', 'b']],
+    ['mysql', 'SELECT INSERT(name, 1, 2, x) FROM a', ['a']],
+    ['sqlite', 'SELECT * FROM a INDEXED BY i, b NOT INDEXED', ['a', 'b']],
+    ['sqlite', 'UPDATE OR REPLACE a SET x = 1', ['a']],
+    ['hive', 'SELECT * FROM a LATERAL VIEW explode(a.x) v AS c JOIN b ON a.id = b.id', ['a', 'b']],
+    ['hive', 'SELECT * FROM a LEFT SEMI JOIN b ON (a.id = b.id)', ['a', 'b']],
+    ['impala', 'SELECT * FROM a JOIN [SHUFFLE] b ON a.id = b.id', ['a', 'b']],
+    ['sqlserver', 'SELECT TOP 5 * FROM a WITH (NOLOCK) ORDER BY x', ['a']],
+    ['sqlserver', 'SELECT * FROM a (NOLOCK), b', ['a', 'b']],
+    ['sqlserver', 'SELECT * FROM a CROSS APPLY dbo.f(a.x) f, b', ['a', 'b']],
+    ['sqlserver', 'SELECT * FROM a FOR SYSTEM_TIME AS OF @t, b', ['a', 'b']],
+    ['sqlserver', 'SELECT * FROM a PIVOT (SUM(x) FOR y IN ([1], [2])) AS p, b', ['a', 'b']],
+    ['sqlserver', 'DELETE TOP (5) secret WHERE x = 1', ['secret']],
+    ['sqlserver', 'MERGE secret USING a ON secret.id = a.id WHEN MATCHED THEN DELETE;', ['secret', 'a']],
+    ['sqlserver', 'SELECT * FROM @t, #tmp', ['#tmp']],
+    // Tables after the first in a FROM clause
+    ['postgres', 'SELECT * FROM ok a LEFT JOIN s1 b ON a.x = b.x, secret', ['ok', 's1', 'secret']],
+    ['postgres', 'SELECT * FROM ok JOIN s1 USING (id), secret', ['ok', 's1', 'secret']],
+    ['mysql', 'SELECT * FROM (secret)', ['secret']],
+    ['mysql', 'SELECT * FROM (secret, ok)', ['secret', 'ok']],
+    ['mysql', 'SELECT * FROM ((ok JOIN secret ON 1 = 1))', ['ok', 'secret']],
+    ['mysql', 'SELECT * FROM ok STRAIGHT_JOIN secret', ['ok', 'secret']],
+    ['sqlserver', 'SELECT * FROM ok WITH (NOLOCK), secret', ['ok', 'secret']],
+    ['postgres', 'SELECT * FROM ok TABLESAMPLE system(1), secret', ['ok', 'secret']],
+    ['postgres', 'SELECT * FROM ok AS o(x, y), secret', ['ok', 'secret']],
+    ['postgres', 'SELECT * FROM ((SELECT 1) x JOIN secret ON true)', ['secret']],
+    // Syntax the parser doesn't know fails closed
+    ['postgres', 'SELECT * FROM ok MATCH_RECOGNIZE (PARTITION BY x) m, secret', null],
+    ['postgres', "SELECT * FROM 'ok', secret", null],
+    ['sqlserver', 'SELECT * FROM ok DROP TABLE secret', null],
+    ['mysql', 'SELECT * FROM (ok, secret', null],
+  ];
+
+  it.each(cases)('%s: %s', (dialect, sql, tables) => {
+    const references = referencedTables(sql, dialect);
+    expect(
+      references?.map((reference) =>
+        reference.schema ? `${reference.schema}.${reference.name}` : reference.name
+      ) ?? null
+    ).toEqual(tables);
+  });
+});
+
+describe('functionsReadingTables', () => {
+  const cases: Array<[SqlDialect, string, string[]]> = [
+    ['postgres', 'SELECT count(*), lower(name) FROM t', []],
+    ['postgres', "SELECT query_to_xml('select * from hr.salaries', true, false, '')", ['query_to_xml']],
+    [
+      'postgres',
+      "SELECT pg_catalog.query_to_xml_and_xmlschema('select 1', true, false, '')",
+      ['query_to_xml_and_xmlschema'],
+    ],
+    ['postgres', "SELECT table_to_xml('hr.salaries', true, false, '')", ['table_to_xml']],
+    ['postgres', "SELECT * FROM dblink('db', 'select 1') AS t(a int)", ['dblink']],
+    ['postgres', "SELECT dblink_exec('db', 'delete from t')", ['dblink_exec']],
+    ['postgres', 'SELECT * FROM generate_series(1, 3)', ['generate_series']],
+    ['postgres', 'SELECT * FROM t JOIN LATERAL unnest(t.a) u ON true', ['unnest']],
+    ['postgres', "SELECT \"query_to_xml\"('select 1', true, false, '')", ['query_to_xml']],
+    // Strings and comments are not calls
+    ['postgres', "SELECT 'query_to_xml(1)' -- dblink(", []],
+    [
+      'sqlserver',
+      "SELECT * FROM OPENROWSET('SQLNCLI', 'Server=x;', 'SELECT * FROM hr.dbo.salaries') AS a",
+      ['OPENROWSET'],
+    ],
+    ['sqlserver', "SELECT * FROM OPENQUERY(linked, 'SELECT 1')", ['OPENQUERY']],
+    ['sqlserver', "SELECT * FROM OPENDATASOURCE('SQLNCLI', 'x').hr.dbo.salaries", ['OPENDATASOURCE']],
+    ['sqlserver', 'SELECT * FROM t CROSS APPLY dbo.split(t.a) s', ['split']],
+    ['sqlserver', 'SELECT * FROM t (NOLOCK)', []],
+  ];
+
+  it.each(cases)('%s: %s', (dialect, sql, functions) => {
+    expect(functionsReadingTables(sql, dialect)).toEqual(functions);
+  });
+});